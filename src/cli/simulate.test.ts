@@ -0,0 +1,45 @@
+import { spawnSync } from 'node:child_process';
+import { describe, expect, it } from 'vitest';
+
+const TIMEOUT = 60000; // ms; each case starts a fresh vite-node process
+
+function simulate(...args: string[]) {
+  const result = spawnSync('node_modules/.bin/vite-node', ['src/cli/simulate.ts', '--', ...args], {
+    encoding: 'utf8',
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe('simulate CLI', () => {
+  it(
+    'writes a CSV time series to stdout',
+    () => {
+      const { status, stdout } = simulate(
+        ...'--years 2 --stations 3 --locations london --format csv'.split(' ')
+      );
+      expect(status).toBe(0);
+
+      const lines = stdout.trimEnd().split('\n');
+      expect(lines[0]).toMatch(/^time,rimRadius,.*,london_anomaly,london_zone$/);
+      expect(lines).toHaveLength(4);
+    },
+    TIMEOUT
+  );
+
+  it.each([
+    [['--years', 'soon'], 'Option --years expects a number'],
+    [['--step', '0'], 'Option --step expects a positive number'],
+    [['--step', '-1'], 'Option --step expects a positive number'],
+    [['--seed', '1.5'], 'Option --seed expects an integer'],
+    [['--stations', '-3'], 'Option --stations expects a non-negative integer'],
+  ])(
+    'prints the usage and fails on %j',
+    (args, message) => {
+      const { status, stderr } = simulate(...args);
+      expect(status).toBe(1);
+      expect(stderr).toContain(message);
+      expect(stderr).toContain('Usage: npm run simulate');
+    },
+    TIMEOUT
+  );
+});
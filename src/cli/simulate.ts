@@ -0,0 +1,220 @@
+/**
+ * Scenario Runner CLI
+ * Runs the simulation headlessly and writes a CSV/JSON time series
+ *
+ * Usage: npm run simulate -- --years 200 --rate 3.3 --out run.json
+ */
+
+import { writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { runTimeSeries, timeSeriesToCSV } from '../core/time-series';
+import { STATION_DISTRIBUTIONS } from '../core/gps';
+import type { StationDistribution } from '../core/gps';
+import { PROJECTIONS, getProjection } from '../core/projection';
+import type { Projection } from '../core/projection';
+import { EXPANSION_LAWS, getExpansionLaw } from '../core/expansion-laws';
+import type { ExpansionLaw } from '../core/expansion-laws';
+import { NAMED_LOCATIONS, findLocation } from '../data/locations';
+import type { NamedLocation } from '../data/locations';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Options:
+  --years <n>        Simulated years to run (default 200)
+  --step <n>         Years between samples (default 1)
+  --rate <cm/yr>     Expansion rate (default 3.3)
+  --law <name>       Expansion law (default linear)
+  --field <x>        Field strength multiplier (default 1.0)
+  --stations <n>     Number of GPS stations (default 1000)
+  --seed <n>         Station network seed (default: random, echoed in output)
+  --distribution <d> Station distribution (default power-bias)
+  --projection <p>   Lat/lon projection (default azimuthal-equidistant)
+  --locations <ids>  Comma-separated location ids, or "all" (default all)
+  --format <fmt>     csv or json (default: from --out extension, else json)
+  --out <file>       Output file (default: stdout)
+  --help             Show this message
+
+Distributions: ${STATION_DISTRIBUTIONS.join(', ')}
+Laws: ${Object.keys(EXPANSION_LAWS).join(', ')}
+Projections: ${Object.keys(PROJECTIONS).join(', ')}
+Locations: ${NAMED_LOCATIONS.map((location) => location.id).join(', ')}
+`;
+
+interface CLIOptions {
+  years: number;
+  step: number;
+  rate?: number;
+  field?: number;
+  stations?: number;
+  seed?: number;
+  distribution?: StationDistribution;
+  projection?: Projection;
+  law?: ExpansionLaw;
+  locations: NamedLocation[];
+  format: 'csv' | 'json';
+  out?: string;
+}
+
+function parseNumber(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isFinite(parsed)) {
+    throw new Error(`Option ${flag} expects a number`);
+  }
+  return parsed;
+}
+
+function parsePositive(flag: string, value: string | undefined): number {
+  const parsed = parseNumber(flag, value);
+  if (parsed <= 0) {
+    throw new Error(`Option ${flag} expects a positive number`);
+  }
+  return parsed;
+}
+
+function parseInteger(flag: string, value: string | undefined): number {
+  const parsed = parseNumber(flag, value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`Option ${flag} expects an integer`);
+  }
+  return parsed;
+}
+
+function parseCount(flag: string, value: string | undefined): number {
+  const parsed = parseNumber(flag, value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Option ${flag} expects a non-negative integer`);
+  }
+  return parsed;
+}
+
+function parseLocations(value: string): NamedLocation[] {
+  if (value === 'all') return NAMED_LOCATIONS;
+
+  return value
+    .split(',')
+    .filter((id) => id.trim().length > 0)
+    .map((id) => {
+      const location = findLocation(id.trim());
+      if (!location) {
+        throw new Error(`Unknown location "${id}"`);
+      }
+      return location;
+    });
+}
+
+function parseArgs(argv: string[]): CLIOptions | null {
+  const options: CLIOptions = {
+    years: 200,
+    step: 1,
+    locations: NAMED_LOCATIONS,
+    format: 'json',
+  };
+  let format: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+
+    switch (flag) {
+      case '--':
+        continue;
+      case '--help':
+      case '-h':
+        return null;
+      case '--years':
+        options.years = parseNumber(flag, value);
+        break;
+      case '--step':
+        options.step = parsePositive(flag, value);
+        break;
+      case '--rate':
+        options.rate = parseNumber(flag, value);
+        break;
+      case '--field':
+        options.field = parseNumber(flag, value);
+        break;
+      case '--stations':
+        options.stations = parseCount(flag, value);
+        break;
+      case '--seed':
+        options.seed = parseInteger(flag, value);
+        break;
+      case '--distribution':
+        if (!STATION_DISTRIBUTIONS.includes(value as StationDistribution)) {
+          throw new Error(`Unknown distribution "${value}"`);
+        }
+        options.distribution = value as StationDistribution;
+        break;
+      case '--law':
+        options.law = getExpansionLaw(value ?? '');
+        break;
+      case '--projection':
+        options.projection = getProjection(value ?? '');
+        break;
+      case '--locations':
+        options.locations = parseLocations(value ?? '');
+        break;
+      case '--format':
+        format = value;
+        break;
+      case '--out':
+        options.out = value;
+        break;
+      default:
+        throw new Error(`Unknown option "${flag}"`);
+    }
+    i++;
+  }
+
+  if (!format && options.out) {
+    format = extname(options.out).toLowerCase() === '.csv' ? 'csv' : 'json';
+  }
+  if (format && format !== 'csv' && format !== 'json') {
+    throw new Error(`Unsupported format "${format}"`);
+  }
+  options.format = (format as CLIOptions['format']) ?? 'json';
+
+  return options;
+}
+
+function main(): void {
+  let options: CLIOptions | null;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+
+  const result = runTimeSeries({
+    years: options.years,
+    step: options.step,
+    expansionRate: options.rate,
+    fieldStrength: options.field,
+    stationCount: options.stations,
+    seed: options.seed,
+    distribution: options.distribution,
+    projection: options.projection,
+    law: options.law,
+    locations: options.locations,
+  });
+
+  const output =
+    options.format === 'csv' ? timeSeriesToCSV(result) : JSON.stringify(result, null, 2) + '\n';
+
+  if (options.out) {
+    writeFileSync(options.out, output);
+    console.error(`✓ Wrote ${result.samples.length} samples to ${options.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main();
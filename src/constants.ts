@@ -20,7 +20,7 @@ export const MODEL: ModelConstants = {
 
   electromagnetic: {
     VORTEX_STRENGTH_B0: 1000, // Arbitrary units
-    FIELD_TYPE: 'toroidal',
+    FIELD_TYPE: 'vortex', // Default field model (see FIELD_MODELS)
   },
 
   solar: {
@@ -33,10 +33,8 @@ export const MODEL: ModelConstants = {
   },
 
   climate: {
-    HEATING_ZONE_MIN: 2000, // km (≈20°N)
-    HEATING_ZONE_MAX: 3500, // km (≈35°N)
-    COOLING_ZONE_MIN: 12000, // km (≈30°S)
-    COOLING_ZONE_MAX: 18000, // km (≈50°S)
+    HEATING_LATITUDES: [20, 35], // °N (Arabia, North Africa)
+    COOLING_LATITUDES: [-30, -50], // °S (southern Africa, South America)
   },
 };
 
@@ -45,11 +43,23 @@ export const RENDER_CONFIG = {
   CLEAR_COLOR: [0.05, 0.08, 0.2, 1.0] as [number, number, number, number],
   GRID_LINES: 50,
   RADIAL_SEGMENTS: 128,
+  DISK_RINGS: 32, // Vertex rings in the disk mesh, so radius-dependent laws bend its interior
+  RADIAL_SCALE_SAMPLES: 64, // Expansion lookup size; must match earth/climate.vert.glsl
   CIRCLE_SEGMENTS: 64,
   FIELD_RESOLUTION: 512,
-  STREAMLINE_COUNT: 24,
+  SCALAR_RESOLUTION: 256, // Divergence / curl overlay texture
+  STREAMLINE_SEPARATION: 800, // km between neighbouring field lines
+  LIC_NOISE_SIZE: 512, // px; repeating noise texture for the LIC overlay
+  PARTICLE_COUNT: 32768,
+  PARTICLE_LIFETIME: 4, // s before a particle respawns
+  PARTICLE_SPEED: 0.08, // Visible view heights per second
+  PARTICLE_SIZE: 1.5, // px
+  PARTICLE_TRAIL_PERSISTENCE: 0.05, // Fraction of trail brightness left after 1 s
   GPS_STATION_COUNT: 1000,
   FPS_SAMPLE_SIZE: 60,
+  LAYER_FADE_MS: 400, // Cross-fade duration when switching views
+  PRINT_TILE_SIZE: 4096, // px; larger print renders are drawn in tiles
+  PRINT_MAX_SIZE: 16384, // px; output canvas edge limit
 };
 
 // Physics constants
@@ -90,4 +100,14 @@ export const COLORS = {
     STATION: [0.0, 1.0, 0.5, 1.0] as [number, number, number, number],
     VECTOR: [1.0, 0.5, 0.0, 0.8] as [number, number, number, number],
   },
+  RULER: {
+    LINE: [1.0, 1.0, 1.0, 0.9] as [number, number, number, number],
+    TICK: [1.0, 1.0, 1.0, 0.6] as [number, number, number, number],
+    FUTURE: [1.0, 0.8, 0.2, 0.5] as [number, number, number, number],
+  },
+  COASTLINE: [0.85, 0.8, 0.55, 0.9] as [number, number, number, number],
+  OVERLAY: {
+    LINE: [1.0, 0.4, 0.8, 0.9] as [number, number, number, number],
+    POINT: [1.0, 0.6, 0.9, 1.0] as [number, number, number, number],
+  },
 };
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { ClimateZone } from '../types';
+import { ClimateModel } from './climate';
+import { PROJECTIONS, getProjection } from './projection';
+import { findLocation, locationPosition } from '../data/locations';
+
+describe.each(Object.keys(PROJECTIONS))('ClimateModel with %s', (name) => {
+  const projection = getProjection(name);
+  const climate = new ClimateModel(projection);
+
+  it('places each curated event in the zone it records', () => {
+    const zones = climate
+      .generateClimateEvents()
+      .map((event) => [event.type, climate.getClimateZone(event.location.r)]);
+
+    for (const [type, zone] of zones) {
+      expect(zone).toBe(type === 'heat' ? ClimateZone.HEATING : ClimateZone.COOLING);
+    }
+  });
+
+  it('classifies named locations by latitude band', () => {
+    const zoneOf = (id: string) =>
+      climate.getClimateZone(locationPosition(findLocation(id)!, projection).r);
+    expect(zoneOf('arabia')).toBe(ClimateZone.HEATING);
+    expect(zoneOf('south_africa')).toBe(ClimateZone.COOLING);
+  });
+});
+
+describe('ClimateModel.setProjection', () => {
+  it('moves the zone bands with the projection', () => {
+    const climate = new ClimateModel(getProjection('azimuthal-equidistant'));
+    const before = climate.getZoneBands();
+    climate.setProjection(getProjection('azimuthal-equal-area'));
+    expect(climate.getZoneBands()).not.toEqual(before);
+  });
+});
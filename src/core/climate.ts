@@ -3,24 +3,35 @@
  * Simulates climate zone shifts due to radial expansion
  */
 
-import type { PolarCoord, ClimateEvent } from '../types';
+import type { PolarCoord, ClimateEvent, LatLon } from '../types';
 import { ClimateZone } from '../types';
 import { MODEL } from '../constants';
+import { DEFAULT_PROJECTION } from './projection';
+import type { Projection } from './projection';
+
+interface ZoneBand {
+  min: number; // km
+  max: number; // km
+}
+
+/**
+ * Radial extent of a latitude band on the disk
+ */
+function latitudeBand([a, b]: [number, number], projection: Projection): ZoneBand {
+  const ra = projection.forward({ lat: a, lon: 0 }).r;
+  const rb = projection.forward({ lat: b, lon: 0 }).r;
+  return { min: Math.min(ra, rb), max: Math.max(ra, rb) };
+}
 
 export class ClimateModel {
-  private heatingZone: { min: number; max: number };
-  private coolingZone: { min: number; max: number };
-
-  constructor() {
-    this.heatingZone = {
-      min: MODEL.climate.HEATING_ZONE_MIN,
-      max: MODEL.climate.HEATING_ZONE_MAX,
-    };
-
-    this.coolingZone = {
-      min: MODEL.climate.COOLING_ZONE_MIN,
-      max: MODEL.climate.COOLING_ZONE_MAX,
-    };
+  private heatingZone: ZoneBand;
+  private coolingZone: ZoneBand;
+  private projection: Projection;
+
+  constructor(projection: Projection = DEFAULT_PROJECTION) {
+    this.projection = projection;
+    this.heatingZone = latitudeBand(MODEL.climate.HEATING_LATITUDES, projection);
+    this.coolingZone = latitudeBand(MODEL.climate.COOLING_LATITUDES, projection);
   }
 
   /**
@@ -128,17 +139,20 @@ export class ClimateModel {
 
   /**
    * Generate climate event markers (e.g., South Africa snow events)
+   * Event sites are geographic and placed on the disk through the projection
    */
   generateClimateEvents(): ClimateEvent[] {
     const events: ClimateEvent[] = [];
+    const place = (coordinates: LatLon) => ({
+      location: this.projection.forward(coordinates),
+      coordinates,
+    });
 
     // South Africa snow events (2024-2025)
-    const southAfricaR = 13500; // Approximate radius for South Africa
-
     events.push({
       id: 'SA_SNOW_2024_07',
       type: 'snow',
-      location: { r: southAfricaR, theta: 0.35 },
+      ...place({ lat: -33.3, lon: 20.05 }),
       date: new Date('2024-07-08'),
       severity: 1.5,
       description: 'Rare snowfall at Aquila Safari',
@@ -148,7 +162,7 @@ export class ClimateModel {
     events.push({
       id: 'SA_SNOW_2024_09',
       type: 'snow',
-      location: { r: southAfricaR, theta: 0.35 },
+      ...place({ lat: -33.3, lon: 20.05 }),
       date: new Date('2024-09-20'),
       severity: 3.0,
       description: '2 meters snow, highway closures',
@@ -158,7 +172,7 @@ export class ClimateModel {
     events.push({
       id: 'SA_SNOW_2024_11',
       type: 'snow',
-      location: { r: southAfricaR, theta: 0.36 },
+      ...place({ lat: -33.3, lon: 20.6 }),
       date: new Date('2024-11-15'),
       severity: 2.0,
       description: 'First snow in 85 years',
@@ -166,12 +180,10 @@ export class ClimateModel {
     });
 
     // Argentina cold events (2025)
-    const argentinaR = 15000;
-
     events.push({
       id: 'ARG_COLD_2025_06',
       type: 'cold',
-      location: { r: argentinaR, theta: -0.8 },
+      ...place({ lat: -34.6, lon: -58.4 }),
       date: new Date('2025-06-26'),
       severity: 2.5,
       description: 'Record cold, 15 deaths',
@@ -179,12 +191,10 @@ export class ClimateModel {
     });
 
     // Arabia heat events
-    const arabiaR = 2800;
-
     events.push({
       id: 'ARABIA_HEAT_2024',
       type: 'heat',
-      location: { r: arabiaR, theta: 0.8 },
+      ...place({ lat: 24.7, lon: 46.7 }),
       date: new Date('2024-06-15'),
       severity: 3.0,
       description: 'Warming 3x faster than global average',
@@ -194,6 +204,39 @@ export class ClimateModel {
     return events;
   }
 
+  /**
+   * Radii (km) where the climate zone changes, ordered outward
+   */
+  getZoneBoundaries(): Array<{ name: string; radius: number }> {
+    return [
+      { name: 'polar', radius: 1000 },
+      { name: 'heating-inner', radius: this.heatingZone.min },
+      { name: 'heating-outer', radius: this.heatingZone.max },
+      { name: 'cooling-inner', radius: this.coolingZone.min },
+      { name: 'cooling-outer', radius: this.coolingZone.max },
+    ];
+  }
+
+  /**
+   * Heating and cooling bands (km) under the current projection
+   */
+  getZoneBands(): { heating: ZoneBand; cooling: ZoneBand } {
+    return { heating: { ...this.heatingZone }, cooling: { ...this.coolingZone } };
+  }
+
+  /**
+   * Set the lat/lon projection used to place events and zone bands
+   */
+  setProjection(projection: Projection): void {
+    this.projection = projection;
+    this.heatingZone = latitudeBand(MODEL.climate.HEATING_LATITUDES, projection);
+    this.coolingZone = latitudeBand(MODEL.climate.COOLING_LATITUDES, projection);
+  }
+
+  getProjection(): Projection {
+    return this.projection;
+  }
+
   /**
    * Get climate zone color for visualization
    */
@@ -233,7 +276,7 @@ export class ClimateModel {
   }
 
   /**
-   * Set climate zone boundaries
+   * Override the climate zone boundaries (km) until the projection changes
    */
   setZoneBoundaries(
     heatingMin: number,
@@ -1,17 +1,47 @@
 /**
  * Electromagnetic Field Module
- * Implements toroidal field: B(r,θ) = (B₀/r²)[cos(θ)r̂ + sin(θ)θ̂]
+ * Evaluates the selected field model (see field-models.ts) scaled by B₀
  */
 
 import type { Vector2, PolarCoord, Streamline } from '../types';
 import { MODEL } from '../constants';
-import { polarToCartesian, normalize, magnitude } from './geometry';
+import { polarToCartesian, magnitude } from './geometry';
+import { traceStreamlines } from './streamlines';
+import type { FieldFunction, StreamlineOptions } from './streamlines';
+import {
+  circulationAlongPath,
+  curlAt,
+  divergenceAt,
+  fluxThroughCurve,
+  radialProfile,
+  scalarMap,
+} from './field-analysis';
+import type { FieldProfileSample, FieldQuantity, ProfileOptions } from './field-analysis';
+import { getFieldModel } from './field-models';
+import type { FieldModel } from './field-models';
+
+/**
+ * Display range of field magnitude, per unit B₀
+ */
+export interface MagnitudeRange {
+  min: number;
+  max: number;
+}
+
+const RANGE_PERCENTILES = [0.01, 0.99]; // Ignore singular texels at sources and the rim corners
+const MIN_RANGE_DECADES = 1;
 
 export class EMFieldSolver {
   private B0: number; // Field strength at source
+  private model: FieldModel;
+  private field: FieldFunction = (x, y) => this.getFieldVectorCartesian({ x, y }); // Scaled by B₀
 
-  constructor(fieldStrength: number = MODEL.electromagnetic.VORTEX_STRENGTH_B0) {
+  constructor(
+    fieldStrength: number = MODEL.electromagnetic.VORTEX_STRENGTH_B0,
+    model: FieldModel = getFieldModel(MODEL.electromagnetic.FIELD_TYPE)
+  ) {
     this.B0 = fieldStrength;
+    this.model = model;
   }
 
   /**
@@ -19,15 +49,13 @@ export class EMFieldSolver {
    * Returns field in polar basis (B_r, B_theta)
    */
   getFieldVectorPolar(pos: PolarCoord): { B_r: number; B_theta: number } {
-    // Avoid singularity at center
-    const r = Math.max(pos.r, 0.1);
-
-    // Toroidal field: B(r,θ) = (B₀/r²)[cos(θ)r̂ + sin(θ)θ̂]
-    const magnitude = this.B0 / (r * r);
+    const field = this.getFieldVectorCartesian(polarToCartesian(pos));
+    const cos = Math.cos(pos.theta);
+    const sin = Math.sin(pos.theta);
 
     return {
-      B_r: magnitude * Math.cos(pos.theta),
-      B_theta: magnitude * Math.sin(pos.theta),
+      B_r: field.x * cos + field.y * sin,
+      B_theta: -field.x * sin + field.y * cos,
     };
   }
 
@@ -35,20 +63,8 @@ export class EMFieldSolver {
    * Calculate electromagnetic field vector in Cartesian coordinates
    */
   getFieldVectorCartesian(pos: Vector2): Vector2 {
-    // Convert to polar
-    const r = Math.sqrt(pos.x * pos.x + pos.y * pos.y);
-    const theta = Math.atan2(pos.y, pos.x);
-
-    // Get field in polar basis
-    const field = this.getFieldVectorPolar({ r, theta });
-
-    // Convert field from polar to Cartesian
-    // B_x = B_r * cos(θ) - B_θ * sin(θ)
-    // B_y = B_r * sin(θ) + B_θ * cos(θ)
-    return {
-      x: field.B_r * Math.cos(theta) - field.B_theta * Math.sin(theta),
-      y: field.B_r * Math.sin(theta) + field.B_theta * Math.cos(theta),
-    };
+    const field = this.model.fieldAt(pos.x, pos.y);
+    return { x: field.x * this.B0, y: field.y * this.B0 };
   }
 
   /**
@@ -60,93 +76,63 @@ export class EMFieldSolver {
   }
 
   /**
-   * Generate streamlines by integrating along field lines
-   * Uses RK4 (Runge-Kutta 4th order) integration
+   * Divergence of B at a Cartesian position (B per km)
    */
-  generateStreamlines(
-    count: number,
-    startRadius: number = 100,
-    maxSteps: number = 200,
-    stepSize: number = 10
-  ): Streamline[] {
-    const streamlines: Streamline[] = [];
-
-    for (let i = 0; i < count; i++) {
-      const angle = (i / count) * 2 * Math.PI;
-      const startPos: Vector2 = {
-        x: startRadius * Math.cos(angle),
-        y: startRadius * Math.sin(angle),
-      };
-
-      const points = this.integrateStreamline(startPos, maxSteps, stepSize);
-      streamlines.push({
-        points,
-        color: `rgba(92, 107, 192, ${0.3 + (i % 3) * 0.2})`,
-        thickness: 1,
-      });
-    }
+  getDivergence(pos: Vector2): number {
+    return divergenceAt(this.field, pos.x, pos.y);
+  }
 
-    return streamlines;
+  /**
+   * Curl of B (z component) at a Cartesian position (B per km)
+   */
+  getCurl(pos: Vector2): number {
+    return curlAt(this.field, pos.x, pos.y);
   }
 
   /**
-   * Integrate single streamline using RK4
+   * Outward flux of B through a closed polygon (B·km)
    */
-  private integrateStreamline(
-    start: Vector2,
-    maxSteps: number,
-    stepSize: number
-  ): Vector2[] {
-    const points: Vector2[] = [{ ...start }];
-    let current = { ...start };
-
-    for (let step = 0; step < maxSteps; step++) {
-      // RK4 integration
-      const k1 = this.getFieldVectorCartesian(current);
-      const k1_norm = normalize(k1);
-
-      const mid1 = {
-        x: current.x + (stepSize / 2) * k1_norm.x,
-        y: current.y + (stepSize / 2) * k1_norm.y,
-      };
-      const k2 = this.getFieldVectorCartesian(mid1);
-      const k2_norm = normalize(k2);
-
-      const mid2 = {
-        x: current.x + (stepSize / 2) * k2_norm.x,
-        y: current.y + (stepSize / 2) * k2_norm.y,
-      };
-      const k3 = this.getFieldVectorCartesian(mid2);
-      const k3_norm = normalize(k3);
-
-      const end = {
-        x: current.x + stepSize * k3_norm.x,
-        y: current.y + stepSize * k3_norm.y,
-      };
-      const k4 = this.getFieldVectorCartesian(end);
-      const k4_norm = normalize(k4);
-
-      // Weighted average
-      current = {
-        x: current.x + (stepSize / 6) * (k1_norm.x + 2 * k2_norm.x + 2 * k3_norm.x + k4_norm.x),
-        y: current.y + (stepSize / 6) * (k1_norm.y + 2 * k2_norm.y + 2 * k3_norm.y + k4_norm.y),
-      };
-
-      points.push({ ...current });
-
-      // Stop if too far from origin or reached rim
-      const r = Math.sqrt(current.x * current.x + current.y * current.y);
-      if (r > MODEL.geometry.ANTARCTIC_RIM_RADIUS || r < 1) {
-        break;
-      }
-    }
+  getFlux(curve: Vector2[]): number {
+    return fluxThroughCurve(this.field, curve);
+  }
+
+  /**
+   * Line integral of B along a path (B·km)
+   */
+  getCirculation(path: Vector2[], closed: boolean = false): number {
+    return circulationAlongPath(this.field, path, closed);
+  }
 
-    return points;
+  /**
+   * B_r, B_θ and |B| averaged around circles about the pole
+   */
+  getRadialProfile(options: Partial<ProfileOptions> = {}): FieldProfileSample[] {
+    return radialProfile(this.field, options);
   }
 
   /**
-   * Generate field texture for GPU rendering
-   * Returns RGBA array where RGB = normalized field direction, A = magnitude
+   * Map of divergence or curl in units of |B|/r over the field texture's
+   * square (one value per texel); independent of B₀, like the field texture
+   */
+  generateScalarTexture(quantity: FieldQuantity, resolution: number): Float32Array {
+    return scalarMap((x, y) => this.model.fieldAt(x, y), quantity, resolution, true);
+  }
+
+  /**
+   * Generate evenly-spaced streamlines covering the disk
+   * Geometry follows the field direction only, so it is independent of B₀.
+   */
+  generateStreamlines(options: Partial<StreamlineOptions> = {}): Streamline[] {
+    return traceStreamlines((x, y) => this.model.fieldAt(x, y), {
+      seeds: this.model.getCentres(),
+      ...options,
+    });
+  }
+
+  /**
+   * Generate field texture for GPU rendering over the rim's bounding square
+   * Returns RGBA array sampled at texel centres: RG = field per unit B₀,
+   * B = its magnitude, A = 1. Independent of B₀, so strength changes need no upload.
    */
   generateFieldTexture(resolution: number): Float32Array {
     const data = new Float32Array(resolution * resolution * 4);
@@ -155,24 +141,32 @@ export class EMFieldSolver {
     for (let y = 0; y < resolution; y++) {
       for (let x = 0; x < resolution; x++) {
         // Map to world coordinates
-        const worldX = ((x / resolution) - 0.5) * maxRadius * 2;
-        const worldY = ((y / resolution) - 0.5) * maxRadius * 2;
-
-        const field = this.getFieldVectorCartesian({ x: worldX, y: worldY });
-        const mag = magnitude(field);
-        const normalized = mag > 0 ? normalize(field) : { x: 0, y: 0 };
+        const worldX = ((x + 0.5) / resolution - 0.5) * maxRadius * 2;
+        const worldY = ((y + 0.5) / resolution - 0.5) * maxRadius * 2;
 
+        const field = this.model.fieldAt(worldX, worldY);
         const index = (y * resolution + x) * 4;
-        data[index + 0] = normalized.x * 0.5 + 0.5; // Remap to [0,1]
-        data[index + 1] = normalized.y * 0.5 + 0.5; // Remap to [0,1]
-        data[index + 2] = 0; // Unused
-        data[index + 3] = Math.min(mag / 100, 1.0); // Magnitude
+        data[index + 0] = field.x;
+        data[index + 1] = field.y;
+        data[index + 2] = magnitude(field);
+        data[index + 3] = 1;
       }
     }
 
     return data;
   }
 
+  getModel(): FieldModel {
+    return this.model;
+  }
+
+  /**
+   * Switch field model; callers regenerate streamlines and textures
+   */
+  setModel(model: FieldModel): void {
+    this.model = model;
+  }
+
   /**
    * Set field strength
    */
@@ -188,6 +182,38 @@ export class EMFieldSolver {
   }
 }
 
+/**
+ * Log-scale display range of a generateFieldTexture texture, inside the rim
+ * Percentiles rather than extremes, as 1/rⁿ fields diverge at their sources.
+ * The range spans at least one decade so uniform fields map to mid-scale.
+ */
+export function getMagnitudeRange(texture: Float32Array, resolution: number): MagnitudeRange {
+  const magnitudes: number[] = [];
+  for (let y = 0; y < resolution; y++) {
+    for (let x = 0; x < resolution; x++) {
+      const u = (x + 0.5) / resolution - 0.5;
+      const v = (y + 0.5) / resolution - 0.5;
+      if (u * u + v * v > 0.25) continue; // Outside the rim
+      const value = texture[(y * resolution + x) * 4 + 2];
+      if (value > 0 && Number.isFinite(value)) magnitudes.push(value);
+    }
+  }
+  if (magnitudes.length === 0) {
+    return { min: 1, max: 10 };
+  }
+
+  const sorted = Float64Array.from(magnitudes).sort();
+  const [low, high] = RANGE_PERCENTILES.map(
+    (p) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]
+  );
+  const decades = Math.log10(high / low);
+  if (decades >= MIN_RANGE_DECADES) {
+    return { min: low, max: high };
+  }
+  const widen = Math.pow(10, (MIN_RANGE_DECADES - decades) / 2);
+  return { min: low / widen, max: high * widen };
+}
+
 /**
  * Calculate electromagnetic "gravity" force
  * F_em = q × E(z)
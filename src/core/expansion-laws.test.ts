@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CustomExpansionLaw,
+  EXPANSION_LAWS,
+  PiecewiseExpansionLaw,
+  createExpansionLaw,
+  getExpansionLaw,
+} from './expansion-laws';
+import type { ExpansionLaw } from './expansion-laws';
+import { MODEL } from '../constants';
+
+const K = MODEL.expansion.RATE; // Rate handed to the law at the default expansion rate
+const RADII = [0, 500, 10000, 20000]; // km
+const TIMES = [-10, -1, 0, 1, 10]; // years; the radius-dependent law diverges within decades
+
+const laws: Array<[string, ExpansionLaw]> = [
+  ...Object.keys(EXPANSION_LAWS).map((name): [string, ExpansionLaw] => [
+    name,
+    getExpansionLaw(name),
+  ]),
+  [
+    'three-epoch piecewise',
+    new PiecewiseExpansionLaw([
+      { start: -100, factor: 2 },
+      { start: 0, factor: 1 },
+      { start: 50, factor: 0.5 },
+    ]),
+  ],
+  ['custom function', new CustomExpansionLaw((r0, t, k) => r0 * Math.exp(k * t))],
+];
+
+describe.each(laws)('%s law', (_name, law) => {
+  it('inverts radiusAt with initialRadius', () => {
+    for (const r0 of RADII) {
+      for (const t of TIMES) {
+        expect(law.initialRadius(law.radiusAt(r0, t, K), t, K)).toBeCloseTo(r0, 4);
+      }
+    }
+  });
+
+  it('leaves radii unchanged at the reference epoch', () => {
+    for (const r0 of RADII) {
+      expect(law.radiusAt(r0, 0, K)).toBeCloseTo(r0, 9);
+    }
+  });
+
+  it('grows radii forward in time', () => {
+    expect(law.radiusAt(10000, 10, K)).toBeGreaterThan(10000);
+    expect(law.radiusAt(10000, -10, K)).toBeLessThan(10000);
+  });
+
+  it('reports the time derivative of the radius as its velocity', () => {
+    const h = 1e-3;
+    const r = law.radiusAt(10000, 5, K);
+    const derivative = (law.radiusAt(10000, 5 + h, K) - law.radiusAt(10000, 5 - h, K)) / (2 * h);
+    expect(law.velocity(r, 5, K)).toBeCloseTo(derivative, 2);
+  });
+
+  it('finds the time to reach a radius', () => {
+    const t = law.timeToReach(10000, 11000, K);
+    expect(law.radiusAt(10000, t, K)).toBeCloseTo(11000, 3);
+  });
+});
+
+describe('getExpansionLaw', () => {
+  it('creates a fresh law each time', () => {
+    expect(getExpansionLaw('linear')).not.toBe(getExpansionLaw('linear'));
+  });
+
+  it('rejects unknown and inherited names', () => {
+    expect(() => getExpansionLaw('quadratic')).toThrow('Unknown expansion law "quadratic"');
+    expect(() => getExpansionLaw('toString')).toThrow('Unknown expansion law');
+  });
+});
+
+describe('createExpansionLaw', () => {
+  it.each(laws.slice(0, -1))('rebuilds the %s law from its spec', (_name, law) => {
+    const rebuilt = createExpansionLaw(law.toSpec());
+    expect(rebuilt.toSpec()).toEqual(law.toSpec());
+    for (const t of TIMES) {
+      expect(rebuilt.radiusAt(10000, t, K)).toBe(law.radiusAt(10000, t, K));
+    }
+  });
+
+  it('compiles custom formulas in r0, t and k', () => {
+    const law = createExpansionLaw({ name: 'custom', expression: 'r0 * (1 + k * t)' });
+    expect(law.radiusAt(10000, 10, K)).toBeCloseTo(10000 * (1 + 10 * K), 9);
+    expect(law.toSpec()).toEqual({ name: 'custom', expression: 'r0 * (1 + k * t)' });
+  });
+
+  it('rejects invalid parameters', () => {
+    expect(() => createExpansionLaw({ name: 'custom', expression: 'r0 * z' })).toThrow(
+      'Expansion law: '
+    );
+    const epochs = JSON.parse('[{ "start": "now", "factor": 1 }]');
+    expect(() => createExpansionLaw({ name: 'piecewise', epochs })).toThrow(
+      'Expansion epochs must have numeric start and factor'
+    );
+    expect(() => createExpansionLaw({ name: 'quadratic' })).toThrow('Unknown expansion law');
+  });
+});
+
+describe('PiecewiseExpansionLaw', () => {
+  it('needs at least one epoch', () => {
+    expect(() => new PiecewiseExpansionLaw([])).toThrow('at least one epoch');
+  });
+
+  it('changes rate at each epoch', () => {
+    const law = new PiecewiseExpansionLaw([
+      { start: 0, factor: 1 },
+      { start: 10, factor: 3 },
+    ]);
+    expect(law.velocity(10000, 5, K)).toBeLessThan(law.velocity(10000, 15, K));
+  });
+});
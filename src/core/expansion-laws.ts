@@ -0,0 +1,414 @@
+/**
+ * Expansion Laws
+ * Interchangeable r(t) models used by ExpansionEngine
+ *
+ * Every law receives the rate k (per year) from the engine, so the expansion
+ * rate slider keeps working whichever law is selected. Time t is measured in
+ * years from the reference epoch and may be negative.
+ */
+
+import { MODEL } from '../constants';
+import { compileExpression } from './expression';
+
+export interface ExpansionLaw {
+  readonly name: string;
+  readonly label: string;
+
+  /**
+   * Radius at time t of a point that sits at r0 at the reference epoch
+   */
+  radiusAt(r0: number, t: number, k: number): number;
+
+  /**
+   * Reference-epoch radius of a point found at r at time t (inverse of radiusAt)
+   */
+  initialRadius(r: number, t: number, k: number): number;
+
+  /**
+   * Radial velocity dr/dt of a point at radius r at time t
+   */
+  velocity(r: number, t: number, k: number): number;
+
+  /**
+   * Years for a point starting at r0 to reach the target radius
+   */
+  timeToReach(r0: number, target: number, k: number): number;
+
+  /**
+   * Serializable parameters; createExpansionLaw(toSpec()) rebuilds the law
+   */
+  toSpec(): ExpansionLawSpec;
+}
+
+export interface ExpansionLawSpec {
+  name: string;
+  exponent?: number; // Radius-dependent
+  epochs?: ExpansionEpoch[]; // Piecewise
+  expression?: string; // Custom, in r0, t and k
+}
+
+const DERIVATIVE_STEP = 1e-3; // years
+const SOLVER_ITERATIONS = 100;
+
+/**
+ * Scale factor for linear growth by x = k·t
+ * Forward: 1 + x. Backward uses the reciprocal 1 / (1 − x), so radii shrink
+ * toward zero instead of passing through it.
+ */
+function linearScale(x: number): number {
+  return x >= 0 ? 1 + x : 1 / (1 - x);
+}
+
+/**
+ * Inverse of linearScale
+ */
+function linearScaleInverse(scale: number): number {
+  return scale >= 1 ? scale - 1 : 1 - 1 / scale;
+}
+
+/**
+ * Linear law: r(t) = r₀(1 + kt), and r₀ / (1 − kt) before the reference epoch
+ */
+export class LinearExpansionLaw implements ExpansionLaw {
+  readonly name = 'linear';
+  readonly label = 'Linear r₀(1 + kt)';
+
+  radiusAt(r0: number, t: number, k: number): number {
+    return r0 * linearScale(k * t);
+  }
+
+  initialRadius(r: number, t: number, k: number): number {
+    return r / linearScale(k * t);
+  }
+
+  velocity(r: number, t: number, k: number): number {
+    return (k * r) / (1 + Math.abs(k * t));
+  }
+
+  timeToReach(r0: number, target: number, k: number): number {
+    return linearScaleInverse(target / r0) / k;
+  }
+
+  toSpec(): ExpansionLawSpec {
+    return { name: this.name };
+  }
+}
+
+/**
+ * Exponential law: r(t) = r₀·e^{kt}
+ */
+export class ExponentialExpansionLaw implements ExpansionLaw {
+  readonly name = 'exponential';
+  readonly label = 'Exponential r₀·e^(kt)';
+
+  radiusAt(r0: number, t: number, k: number): number {
+    return r0 * Math.exp(k * t);
+  }
+
+  initialRadius(r: number, t: number, k: number): number {
+    return r * Math.exp(-k * t);
+  }
+
+  velocity(r: number, _t: number, k: number): number {
+    return k * r;
+  }
+
+  timeToReach(r0: number, target: number, k: number): number {
+    return Math.log(target / r0) / k;
+  }
+
+  toSpec(): ExpansionLawSpec {
+    return { name: this.name };
+  }
+}
+
+/**
+ * Radius-dependent law: dr/dt = k·r·(r / R)^p
+ * Outer regions expand faster for p > 0 and slower for p < 0; p = 0 is exponential.
+ * Closed form: r^(-p) = r₀^(-p) − p·k·R^(-p)·t
+ */
+export class RadiusDependentExpansionLaw implements ExpansionLaw {
+  readonly name = 'radius-dependent';
+  readonly label: string;
+  private exponent: number;
+  private referenceRadius: number;
+
+  constructor(exponent: number, referenceRadius: number) {
+    if (referenceRadius <= 0) {
+      throw new Error('Reference radius must be positive');
+    }
+    this.exponent = exponent;
+    this.referenceRadius = referenceRadius;
+    this.label = `Radius-dependent (p = ${exponent})`;
+  }
+
+  radiusAt(r0: number, t: number, k: number): number {
+    const p = this.exponent;
+    if (r0 === 0) return 0;
+    if (p === 0) return r0 * Math.exp(k * t);
+
+    const value = Math.pow(r0, -p) - p * k * Math.pow(this.referenceRadius, -p) * t;
+    return value > 0 ? Math.pow(value, -1 / p) : Infinity;
+  }
+
+  initialRadius(r: number, t: number, k: number): number {
+    return this.radiusAt(r, -t, k);
+  }
+
+  velocity(r: number, _t: number, k: number): number {
+    return k * r * Math.pow(r / this.referenceRadius, this.exponent);
+  }
+
+  timeToReach(r0: number, target: number, k: number): number {
+    const p = this.exponent;
+    if (p === 0) return Math.log(target / r0) / k;
+    return (Math.pow(r0, -p) - Math.pow(target, -p)) / (p * k * Math.pow(this.referenceRadius, -p));
+  }
+
+  getExponent(): number {
+    return this.exponent;
+  }
+
+  toSpec(): ExpansionLawSpec {
+    return { name: this.name, exponent: this.exponent };
+  }
+
+  getReferenceRadius(): number {
+    return this.referenceRadius;
+  }
+}
+
+export interface ExpansionEpoch {
+  start: number; // years from the reference epoch
+  factor: number; // multiplier applied to k from `start` until the next epoch
+}
+
+// Registry default: today's rate, doubling a century from now
+const DEFAULT_EPOCHS: ExpansionEpoch[] = [
+  { start: 0, factor: 1 },
+  { start: 100, factor: 2 },
+];
+
+/**
+ * Piecewise law: linear growth whose rate changes between epochs
+ * r(t) = r₀(1 + k·F(t)), where F is the integral of the epoch factors
+ * (reciprocal form before the reference epoch, as in the linear law).
+ * The first epoch also covers all earlier times.
+ */
+export class PiecewiseExpansionLaw implements ExpansionLaw {
+  readonly name = 'piecewise';
+  readonly label = 'Piecewise epochs';
+  private epochs: ExpansionEpoch[];
+
+  constructor(epochs: ExpansionEpoch[]) {
+    if (epochs.length === 0) {
+      throw new Error('Piecewise expansion law needs at least one epoch');
+    }
+    this.epochs = [...epochs].sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Integrated rate factor from the reference epoch to t
+   */
+  private integratedFactor(t: number): number {
+    return this.factorIntegralTo(t) - this.factorIntegralTo(0);
+  }
+
+  private factorIntegralTo(t: number): number {
+    const epochs = this.epochs;
+    let total = (Math.min(t, epochs[0].start) - epochs[0].start) * epochs[0].factor;
+
+    for (let i = 0; i < epochs.length; i++) {
+      const start = epochs[i].start;
+      const end = i + 1 < epochs.length ? epochs[i + 1].start : Infinity;
+      if (t <= start) break;
+      total += (Math.min(t, end) - start) * epochs[i].factor;
+    }
+    return total;
+  }
+
+  private factorAt(t: number): number {
+    let factor = this.epochs[0].factor;
+    for (const epoch of this.epochs) {
+      if (t >= epoch.start) factor = epoch.factor;
+    }
+    return factor;
+  }
+
+  radiusAt(r0: number, t: number, k: number): number {
+    return r0 * linearScale(k * this.integratedFactor(t));
+  }
+
+  initialRadius(r: number, t: number, k: number): number {
+    return r / linearScale(k * this.integratedFactor(t));
+  }
+
+  velocity(r: number, t: number, k: number): number {
+    return (k * this.factorAt(t) * r) / (1 + Math.abs(k * this.integratedFactor(t)));
+  }
+
+  timeToReach(r0: number, target: number, k: number): number {
+    return solveForTime((t) => this.radiusAt(r0, t, k), target);
+  }
+
+  getEpochs(): ExpansionEpoch[] {
+    return this.epochs.map((epoch) => ({ ...epoch }));
+  }
+
+  toSpec(): ExpansionLawSpec {
+    return { name: this.name, epochs: this.getEpochs() };
+  }
+}
+
+export type ExpansionFunction = (r0: number, t: number, k: number) => number;
+
+const DEFAULT_CUSTOM_EXPRESSION = 'r0 * exp(k * t)';
+
+/**
+ * User-supplied law: only r(r₀, t, k) is required, as a function or a formula
+ * in r0, t and k. Velocity, inverse and time-to-radius are solved numerically,
+ * so it should be smooth and increasing in both r₀ and t.
+ */
+export class CustomExpansionLaw implements ExpansionLaw {
+  readonly name: string;
+  readonly label: string;
+  readonly expression?: string; // Only laws built from a formula can be serialized
+  private fn: ExpansionFunction;
+
+  constructor(
+    fn: ExpansionFunction | string = DEFAULT_CUSTOM_EXPRESSION,
+    name: string = 'custom',
+    label: string = 'Custom'
+  ) {
+    if (typeof fn === 'string') {
+      this.fn = compileLaw(fn);
+      this.expression = fn;
+    } else {
+      this.fn = fn;
+    }
+    this.name = name;
+    this.label = label;
+  }
+
+  radiusAt(r0: number, t: number, k: number): number {
+    return this.fn(r0, t, k);
+  }
+
+  initialRadius(r: number, t: number, k: number): number {
+    if (r === 0) return 0;
+
+    // Bracket r₀ in [0, hi] then bisect
+    let hi = Math.max(r, 1);
+    for (let i = 0; i < SOLVER_ITERATIONS && this.fn(hi, t, k) < r; i++) hi *= 2;
+
+    let lo = 0;
+    for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+      const mid = (lo + hi) / 2;
+      if (this.fn(mid, t, k) < r) lo = mid;
+      else hi = mid;
+    }
+    return (lo + hi) / 2;
+  }
+
+  velocity(r: number, t: number, k: number): number {
+    const r0 = this.initialRadius(r, t, k);
+    const h = DERIVATIVE_STEP;
+    return (this.fn(r0, t + h, k) - this.fn(r0, t - h, k)) / (2 * h);
+  }
+
+  timeToReach(r0: number, target: number, k: number): number {
+    return solveForTime((t) => this.fn(r0, t, k), target);
+  }
+
+  toSpec(): ExpansionLawSpec {
+    return { name: this.name, expression: this.expression };
+  }
+}
+
+function compileLaw(source: string): ExpansionFunction {
+  try {
+    const compiled = compileExpression(source, ['r0', 't', 'k']);
+    return (r0, t, k) => compiled({ r0, t, k });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Expansion law: ${reason}`);
+  }
+}
+
+/**
+ * Find t with radius(t) = target for a radius that increases with time
+ */
+function solveForTime(radius: (t: number) => number, target: number): number {
+  if (radius(0) === target) return 0;
+
+  const forward = radius(0) < target;
+  let step = forward ? 1 : -1;
+  let bound = step;
+  for (let i = 0; i < SOLVER_ITERATIONS && (radius(bound) < target) === forward; i++) {
+    step *= 2;
+    bound = step;
+  }
+  if ((radius(bound) < target) === forward) return forward ? Infinity : -Infinity;
+
+  let lo = Math.min(0, bound);
+  let hi = Math.max(0, bound);
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (radius(mid) < target) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Built-in laws by name
+ */
+export const EXPANSION_LAWS: Record<string, () => ExpansionLaw> = {
+  linear: () => new LinearExpansionLaw(),
+  exponential: () => new ExponentialExpansionLaw(),
+  'radius-dependent': () => new RadiusDependentExpansionLaw(1, MODEL.geometry.ANTARCTIC_RIM_RADIUS),
+  piecewise: () => new PiecewiseExpansionLaw(DEFAULT_EPOCHS),
+  custom: () => new CustomExpansionLaw(),
+};
+
+/**
+ * Create a built-in law by name
+ */
+export function getExpansionLaw(name: string): ExpansionLaw {
+  if (!Object.prototype.hasOwnProperty.call(EXPANSION_LAWS, name)) {
+    throw new Error(`Unknown expansion law "${name}"`);
+  }
+  return EXPANSION_LAWS[name]();
+}
+
+/**
+ * Rebuild a law from its spec (scenarios); missing parameters take defaults
+ */
+export function createExpansionLaw(spec: ExpansionLawSpec): ExpansionLaw {
+  switch (spec.name) {
+    case 'radius-dependent': {
+      const exponent = spec.exponent ?? 1;
+      if (!Number.isFinite(exponent)) {
+        throw new Error('Expansion law exponent must be a number');
+      }
+      return new RadiusDependentExpansionLaw(exponent, MODEL.geometry.ANTARCTIC_RIM_RADIUS);
+    }
+    case 'piecewise': {
+      if (spec.epochs === undefined) return getExpansionLaw('piecewise');
+      const valid =
+        Array.isArray(spec.epochs) &&
+        spec.epochs.every((e) => [e?.start, e?.factor].every(Number.isFinite));
+      if (!valid) {
+        throw new Error('Expansion epochs must have numeric start and factor');
+      }
+      return new PiecewiseExpansionLaw(spec.epochs);
+    }
+    case 'custom':
+      if (spec.expression !== undefined && typeof spec.expression !== 'string') {
+        throw new Error('Expansion law expression must be a string');
+      }
+      return new CustomExpansionLaw(spec.expression);
+    default:
+      return getExpansionLaw(spec.name);
+  }
+}
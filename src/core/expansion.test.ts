@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { ExpansionEngine } from './expansion';
+import { getExpansionLaw } from './expansion-laws';
+
+describe('ExpansionEngine.getRadialScales', () => {
+  it('is one everywhere at the reference epoch', () => {
+    const scales = new ExpansionEngine().getRadialScales(20000, 5, 0);
+    expect(Array.from(scales)).toEqual([1, 1, 1, 1, 1]);
+  });
+
+  it('scales every radius alike under the linear law', () => {
+    const engine = new ExpansionEngine();
+    const expected = engine.getExpandedRadius(10000, 10) / 10000;
+    for (const scale of engine.getRadialScales(20000, 5, 10)) {
+      expect(scale).toBeCloseTo(expected, 6);
+    }
+  });
+
+  it('grows outer radii faster under the radius-dependent law', () => {
+    const engine = new ExpansionEngine(undefined, getExpansionLaw('radius-dependent'));
+    const scales = engine.getRadialScales(20000, 5, 10);
+    for (let i = 1; i < scales.length; i++) {
+      expect(scales[i]).toBeGreaterThan(scales[i - 1]);
+    }
+  });
+});
@@ -1,41 +1,75 @@
 /**
  * Expansion Engine - Calculates radial expansion mechanics
- * Based on: r'(t) = r₀(1 + kt)
+ * Default law: r'(t) = r₀(1 + kt); other laws plug in via ExpansionLaw
  */
 
 import type { PolarCoord, Vector2 } from '../types';
 import { MODEL, PHYSICS } from '../constants';
+import { LinearExpansionLaw } from './expansion-laws';
+import type { ExpansionLaw } from './expansion-laws';
+
+const INERTIA_SAMPLES = 64;
 
 export class ExpansionEngine {
   private k: number; // Expansion constant (meters/year)
   private t0: number = 0; // Reference time (years)
+  private law: ExpansionLaw;
 
-  constructor(expansionRate: number = MODEL.expansion.RATE) {
+  constructor(expansionRate: number = MODEL.expansion.RATE, law: ExpansionLaw = new LinearExpansionLaw()) {
     this.k = expansionRate;
+    this.law = law;
+  }
+
+  /**
+   * Rate handed to the law (per year)
+   */
+  private getLawRate(): number {
+    return this.k * PHYSICS.KM_TO_METERS / 1000;
   }
 
   /**
    * Get expanded radius at time t
-   * Formula: r'(t) = r₀(1 + kt)
+   * Linear law: r'(t) = r₀(1 + kt)
    */
   getExpandedRadius(r0: number, t: number): number {
-    return r0 * (1 + this.k * (t - this.t0) * PHYSICS.KM_TO_METERS / 1000);
+    return this.law.radiusAt(r0, t - this.t0, this.getLawRate());
+  }
+
+  /**
+   * Reference-epoch radius of a point found at r at time t (inverse of getExpandedRadius)
+   */
+  getInitialRadius(r: number, t: number): number {
+    return this.law.initialRadius(r, t - this.t0, this.getLawRate());
   }
 
   /**
-   * Get expansion velocity at radius r
-   * Formula: v(r) = kr
+   * Get expansion velocity at radius r (and time t)
+   * Linear law at t = 0: v(r) = kr
    */
-  getExpansionVelocity(r: number): number {
-    return this.k * r; // meters/year
+  getExpansionVelocity(r: number, t: number = 0): number {
+    return this.law.velocity(r, t - this.t0, this.getLawRate()); // meters/year
+  }
+
+  /**
+   * Expanded-to-reference radius ratio at `count` reference radii spaced evenly
+   * from the pole to maxRadius (a lookup table for per-vertex expansion on the GPU)
+   */
+  getRadialScales(maxRadius: number, count: number, t: number): Float32Array {
+    const scales = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      // The ratio has a finite limit at the pole; sample just beside it
+      const r0 = Math.max((i / (count - 1)) * maxRadius, maxRadius * 1e-6);
+      scales[i] = this.getExpandedRadius(r0, t) / r0;
+    }
+    return scales;
   }
 
   /**
    * Get expansion vector at polar position
    * Returns radial velocity vector in Cartesian coordinates
    */
-  getExpansionVector(pos: PolarCoord): Vector2 {
-    const speed = this.getExpansionVelocity(pos.r);
+  getExpansionVector(pos: PolarCoord, t: number = 0): Vector2 {
+    const speed = this.getExpansionVelocity(pos.r, t);
 
     // Velocity is purely radial (outward from center)
     return {
@@ -57,16 +91,29 @@ export class ExpansionEngine {
 
   /**
    * Calculate moment of inertia scaling factor
-   * I ∝ r², so I(t) = I₀(1 + kt)²
+   * I ∝ ∫r² dm over a uniform disk; for the linear law I(t) = I₀(1 + kt)²
    */
   getMomentOfInertiaScale(t: number): number {
-    const scale = 1 + this.k * t * PHYSICS.KM_TO_METERS / 1000;
-    return scale * scale;
+    const rim = MODEL.geometry.ANTARCTIC_RIM_RADIUS;
+    const dr = rim / INERTIA_SAMPLES;
+    let initial = 0;
+    let current = 0;
+
+    // Midpoint rule over rings of initial radius r₀ (mass ∝ r₀ dr₀)
+    for (let i = 0; i < INERTIA_SAMPLES; i++) {
+      const r0 = (i + 0.5) * dr;
+      const r = this.getExpandedRadius(r0, t);
+      initial += r0 * r0 * r0;
+      current += r * r * r0;
+    }
+
+    return current / initial;
   }
 
   /**
    * Calculate day length increase due to moment of inertia growth
    * Angular momentum L = Iω is conserved, so ω decreases as I increases
+   * (RotationModel adds tidal braking and non-uniform mass distributions)
    */
   getDayLength(t: number): number {
     const I_scale = this.getMomentOfInertiaScale(t);
@@ -97,6 +144,24 @@ export class ExpansionEngine {
     return this.k;
   }
 
+  /**
+   * Select the expansion law
+   */
+  setLaw(law: ExpansionLaw): void {
+    this.law = law;
+  }
+
+  getLaw(): ExpansionLaw {
+    return this.law;
+  }
+
+  /**
+   * Years until a point at r0 reaches the target radius under the current law
+   */
+  getTimeToReachRadius(r0: number, target: number): number {
+    return this.law.timeToReach(r0, target, this.getLawRate());
+  }
+
   /**
    * Reset reference time
    */
@@ -109,8 +174,8 @@ export class ExpansionEngine {
    * Useful for visualizing Pangaea breakup scenario
    */
   getHistoricalRadius(currentRadius: number, yearsAgo: number): number {
-    // Go backwards in time
-    return currentRadius / (1 + this.k * yearsAgo * PHYSICS.KM_TO_METERS / 1000);
+    // Go backwards in time (same as negative simulation time)
+    return this.getExpandedRadius(currentRadius, this.t0 - yearsAgo);
   }
 }
 
@@ -120,9 +185,10 @@ export class ExpansionEngine {
 export function calculateGPSDisplacement(
   initialPos: PolarCoord,
   timespan: number,
-  expansionRate: number
+  expansionRate: number,
+  law?: ExpansionLaw
 ): Vector2 {
-  const engine = new ExpansionEngine(expansionRate);
+  const engine = new ExpansionEngine(expansionRate, law);
 
   // Calculate displacement in polar coords
   const finalR = engine.getExpandedRadius(initialPos.r, timespan);
@@ -141,9 +207,10 @@ export function calculateGPSDisplacement(
 export function predictFutureRadius(
   currentRadius: number,
   years: number,
-  expansionRate: number = MODEL.expansion.RATE
+  expansionRate: number = MODEL.expansion.RATE,
+  law?: ExpansionLaw
 ): number {
-  const engine = new ExpansionEngine(expansionRate);
+  const engine = new ExpansionEngine(expansionRate, law);
   return engine.getExpandedRadius(currentRadius, years);
 }
 
@@ -153,10 +220,10 @@ export function predictFutureRadius(
 export function timeToReachRadius(
   currentRadius: number,
   targetRadius: number,
-  expansionRate: number = MODEL.expansion.RATE
+  expansionRate: number = MODEL.expansion.RATE,
+  law?: ExpansionLaw
 ): number {
-  // r' = r₀(1 + kt)
-  // t = (r'/r₀ - 1) / k
-  const ratio = targetRadius / currentRadius;
-  return ((ratio - 1) / expansionRate) * 1000 / PHYSICS.KM_TO_METERS;
+  // Linear law: r' = r₀(1 + kt), t = (r'/r₀ - 1) / k
+  const engine = new ExpansionEngine(expansionRate, law);
+  return engine.getTimeToReachRadius(currentRadius, targetRadius);
 }
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression } from './expression';
+
+const evaluate = (source: string, variables: Record<string, number> = {}): number =>
+  compileExpression(source, Object.keys(variables))(variables);
+
+describe('compileExpression', () => {
+  it('follows operator precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('8 / 4 / 2')).toBe(1);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+  });
+
+  it('makes powers right-associative and binds them tighter than unary minus', () => {
+    expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluate('-2 ^ 2')).toBe(-4);
+    expect(evaluate('2 ** -1')).toBe(0.5);
+  });
+
+  it('reads number formats', () => {
+    expect(evaluate('.5 + 1.5e2 + 2E-1')).toBeCloseTo(150.7, 12);
+  });
+
+  it('substitutes variables and constants', () => {
+    expect(evaluate('r * cos(theta)', { r: 2, theta: 0 })).toBe(2);
+    expect(evaluate('2 * pi')).toBeCloseTo(2 * Math.PI, 12);
+    expect(evaluate('log(e)')).toBeCloseTo(1, 12);
+  });
+
+  it('calls functions with fixed and variable arity', () => {
+    expect(evaluate('atan2(1, 1)')).toBeCloseTo(Math.PI / 4, 12);
+    expect(evaluate('max(1, 5, 3)')).toBe(5);
+    expect(evaluate('hypot(3, 4)')).toBe(5);
+  });
+
+  it('can be evaluated repeatedly with new variables', () => {
+    const fn = compileExpression('x^2 + y', ['x', 'y']);
+    expect(fn({ x: 3, y: 1 })).toBe(10);
+    expect(fn({ x: -2, y: 0 })).toBe(4);
+  });
+
+  it('rejects empty and malformed input with positions', () => {
+    expect(() => evaluate('')).toThrow('Expression is empty');
+    expect(() => evaluate('1 +')).toThrow('Unexpected end of expression');
+    expect(() => evaluate('1 $ 2')).toThrow('Unexpected "$" at position 3');
+    expect(() => evaluate('(1 + 2')).toThrow('Unexpected end of expression');
+    expect(() => evaluate('1 2')).toThrow('Unexpected "2" at position 3');
+  });
+
+  it('rejects unknown names, including inherited object keys', () => {
+    expect(() => evaluate('foo')).toThrow('Unknown name "foo"');
+    expect(() => evaluate('constructor')).toThrow('Unknown name "constructor"');
+    expect(() => evaluate('toString(1)')).toThrow('Unknown function "toString"');
+    expect(() => evaluate('eval(1)')).toThrow('Unknown function "eval"');
+  });
+
+  it('checks argument counts', () => {
+    expect(() => evaluate('sin(1, 2)')).toThrow('sin() takes 1 argument(s), got 2');
+    expect(() => evaluate('max()')).toThrow('max() takes at least 1 argument(s), got 0');
+  });
+});
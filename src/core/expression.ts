@@ -0,0 +1,217 @@
+/**
+ * Expression Module
+ * Compiles user-typed arithmetic formulas (custom field models) into functions
+ *
+ * Only numbers, named variables, + − × ÷ ^, parentheses and a fixed set of
+ * Math functions are accepted, so formulas arriving in shared scenario links
+ * can never run arbitrary code.
+ */
+
+export type CompiledExpression = (variables: Record<string, number>) => number;
+
+type Node = (variables: Record<string, number>) => number;
+
+interface MathFunction {
+  fn: (...args: number[]) => number;
+  arity: number; // -1 = one or more arguments
+}
+
+const FUNCTIONS: Record<string, MathFunction> = {
+  sin: { fn: Math.sin, arity: 1 },
+  cos: { fn: Math.cos, arity: 1 },
+  tan: { fn: Math.tan, arity: 1 },
+  asin: { fn: Math.asin, arity: 1 },
+  acos: { fn: Math.acos, arity: 1 },
+  atan: { fn: Math.atan, arity: 1 },
+  atan2: { fn: Math.atan2, arity: 2 },
+  sinh: { fn: Math.sinh, arity: 1 },
+  cosh: { fn: Math.cosh, arity: 1 },
+  tanh: { fn: Math.tanh, arity: 1 },
+  exp: { fn: Math.exp, arity: 1 },
+  log: { fn: Math.log, arity: 1 },
+  sqrt: { fn: Math.sqrt, arity: 1 },
+  abs: { fn: Math.abs, arity: 1 },
+  sign: { fn: Math.sign, arity: 1 },
+  floor: { fn: Math.floor, arity: 1 },
+  ceil: { fn: Math.ceil, arity: 1 },
+  pow: { fn: Math.pow, arity: 2 },
+  hypot: { fn: Math.hypot, arity: -1 },
+  min: { fn: Math.min, arity: -1 },
+  max: { fn: Math.max, arity: -1 },
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const owns = (table: object, name: string): boolean =>
+  Object.prototype.hasOwnProperty.call(table, name);
+
+// number | name | operator
+const TOKEN = /((?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)|([A-Za-z_]\w*)|(\*\*|[-+*/^(),])/y;
+
+interface Token {
+  kind: 'number' | 'name' | 'symbol';
+  text: string;
+  position: number; // 0-based character offset
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    if (/\s/.test(source[position])) {
+      position++;
+      continue;
+    }
+    TOKEN.lastIndex = position;
+    const match = TOKEN.exec(source);
+    if (!match) {
+      throw new Error(`Unexpected "${source[position]}" at position ${position + 1}`);
+    }
+
+    const [text, number, name] = match;
+    if (number !== undefined) tokens.push({ kind: 'number', text, position });
+    else if (name !== undefined) tokens.push({ kind: 'name', text, position });
+    else tokens.push({ kind: 'symbol', text: text === '**' ? '^' : text, position });
+    position += text.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Compile a formula over the given variable names
+ * e.g. compileExpression('1 / r^2 * cos(theta)', ['r', 'theta'])
+ */
+export function compileExpression(
+  source: string,
+  variables: readonly string[]
+): CompiledExpression {
+  const tokens = tokenize(source);
+  if (tokens.length === 0) {
+    throw new Error('Expression is empty');
+  }
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const accept = (symbol: string): boolean => {
+    const token = tokens[index];
+    if (token?.kind === 'symbol' && token.text === symbol) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+  const fail = (token: Token | undefined): never => {
+    if (!token) throw new Error('Unexpected end of expression');
+    throw new Error(`Unexpected "${token.text}" at position ${token.position + 1}`);
+  };
+  const expect = (symbol: string): void => {
+    if (!accept(symbol)) fail(peek());
+  };
+
+  // expression := term (('+' | '-') term)*
+  const expression = (): Node => {
+    let node = term();
+    for (;;) {
+      if (accept('+')) {
+        const [a, b] = [node, term()];
+        node = (v) => a(v) + b(v);
+      } else if (accept('-')) {
+        const [a, b] = [node, term()];
+        node = (v) => a(v) - b(v);
+      } else {
+        return node;
+      }
+    }
+  };
+
+  // term := unary (('*' | '/') unary)*
+  const term = (): Node => {
+    let node = unary();
+    for (;;) {
+      if (accept('*')) {
+        const [a, b] = [node, unary()];
+        node = (v) => a(v) * b(v);
+      } else if (accept('/')) {
+        const [a, b] = [node, unary()];
+        node = (v) => a(v) / b(v);
+      } else {
+        return node;
+      }
+    }
+  };
+
+  // unary := ('-' | '+') unary | power   (so -x^2 = -(x^2))
+  const unary = (): Node => {
+    if (accept('-')) {
+      const a = unary();
+      return (v) => -a(v);
+    }
+    if (accept('+')) return unary();
+    return power();
+  };
+
+  // power := primary ('^' unary)?   (right-associative)
+  const power = (): Node => {
+    const base = primary();
+    if (!accept('^')) return base;
+    const exponent = unary();
+    return (v) => Math.pow(base(v), exponent(v));
+  };
+
+  // primary := number | name | name '(' arguments ')' | '(' expression ')'
+  const primary = (): Node => {
+    const token = peek();
+    if (!token) return fail(token);
+
+    if (token.kind === 'number') {
+      index++;
+      const value = parseFloat(token.text);
+      return () => value;
+    }
+
+    if (accept('(')) {
+      const node = expression();
+      expect(')');
+      return node;
+    }
+
+    if (token.kind !== 'name') return fail(token);
+    index++;
+    const name = token.text;
+
+    if (accept('(')) {
+      const fn = owns(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+      if (!fn) {
+        throw new Error(`Unknown function "${name}"`);
+      }
+      const args: Node[] = [];
+      if (!accept(')')) {
+        do {
+          args.push(expression());
+        } while (accept(','));
+        expect(')');
+      }
+      if (fn.arity >= 0 ? args.length !== fn.arity : args.length === 0) {
+        const expected = fn.arity >= 0 ? `${fn.arity}` : 'at least 1';
+        throw new Error(`${name}() takes ${expected} argument(s), got ${args.length}`);
+      }
+      return (v) => fn.fn(...args.map((arg) => arg(v)));
+    }
+
+    if (variables.includes(name)) return (v) => v[name];
+    if (owns(CONSTANTS, name)) {
+      const value = CONSTANTS[name];
+      return () => value;
+    }
+    throw new Error(`Unknown name "${name}" (use ${[...variables, 'pi', 'e'].join(', ')})`);
+  };
+
+  const root = expression();
+  if (index < tokens.length) fail(peek());
+  return root;
+}
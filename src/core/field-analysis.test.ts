@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  circulationAlongPath,
+  curlAt,
+  divergenceAt,
+  fluxThroughCurve,
+  profileToCSV,
+  radialProfile,
+  scalarMap,
+  scalarRange,
+} from './field-analysis';
+import type { FieldFunction } from './streamlines';
+import type { Vector2 } from '../types';
+
+const source: FieldFunction = (x, y) => ({ x, y }); // div = 2, curl = 0
+const rotation: FieldFunction = (x, y) => ({ x: -y, y: x }); // div = 0, curl = 2
+const uniform: FieldFunction = () => ({ x: 1, y: 0 });
+
+const circle = (radius: number, count: number = 360): Vector2[] =>
+  Array.from({ length: count }, (_, i) => {
+    const theta = (i / count) * 2 * Math.PI;
+    return { x: radius * Math.cos(theta), y: radius * Math.sin(theta) };
+  });
+
+describe('divergenceAt and curlAt', () => {
+  it('differentiate linear fields exactly', () => {
+    expect(divergenceAt(source, 100, -50)).toBeCloseTo(2, 9);
+    expect(curlAt(source, 100, -50)).toBeCloseTo(0, 9);
+    expect(divergenceAt(rotation, 100, -50)).toBeCloseTo(0, 9);
+    expect(curlAt(rotation, 100, -50)).toBeCloseTo(2, 9);
+  });
+});
+
+describe('fluxThroughCurve', () => {
+  it('matches the divergence theorem', () => {
+    // ∮ B·n̂ ds = ∬ div B dA = 2·area of the polygon
+    const curve = circle(1000);
+    const area = 0.5 * 360 * 1000 * 1000 * Math.sin((2 * Math.PI) / 360);
+    expect(fluxThroughCurve(source, curve)).toBeCloseTo(2 * area, 3);
+  });
+
+  it('does not depend on winding', () => {
+    const curve = circle(500, 16);
+    expect(fluxThroughCurve(source, [...curve].reverse())).toBeCloseTo(
+      fluxThroughCurve(source, curve),
+      6
+    );
+  });
+
+  it('is zero for a uniform field', () => {
+    expect(fluxThroughCurve(uniform, circle(500, 16))).toBeCloseTo(0, 9);
+  });
+
+  it('needs a closed curve', () => {
+    expect(() => fluxThroughCurve(source, circle(1, 2))).toThrow('at least three points');
+  });
+});
+
+describe('circulationAlongPath', () => {
+  it("matches Stokes' theorem on a closed loop", () => {
+    const curve = circle(1000, 4); // Square of side 1000√2
+    expect(circulationAlongPath(rotation, curve, true)).toBeCloseTo(2 * 2e6, 3);
+  });
+
+  it('integrates an open path', () => {
+    const path = [
+      { x: 0, y: 0 },
+      { x: 250, y: 0 },
+    ];
+    expect(circulationAlongPath(uniform, path)).toBeCloseTo(250, 9);
+  });
+
+  it('needs at least two points', () => {
+    expect(() => circulationAlongPath(uniform, [{ x: 0, y: 0 }])).toThrow('at least two points');
+  });
+});
+
+describe('radialProfile', () => {
+  it('separates radial and azimuthal components', () => {
+    const profile = radialProfile(source, { count: 4, maxRadius: 400, samples: 32 });
+    expect(profile.map((sample) => sample.r)).toEqual([50, 150, 250, 350]);
+    for (const sample of profile) {
+      expect(sample.radialMean).toBeCloseTo(sample.r, 9);
+      expect(sample.radialRms).toBeCloseTo(sample.r, 9);
+      expect(sample.azimuthalMean).toBeCloseTo(0, 9);
+      expect(sample.magnitude).toBeCloseTo(sample.r, 9);
+    }
+  });
+
+  it('averages a uniform field to zero mean components', () => {
+    const [sample] = radialProfile(uniform, { count: 1, samples: 64 });
+    expect(sample.radialMean).toBeCloseTo(0, 9);
+    expect(sample.radialRms).toBeCloseTo(Math.SQRT1_2, 9);
+    expect(sample.magnitude).toBeCloseTo(1, 9);
+  });
+
+  it('rejects empty profiles', () => {
+    expect(() => radialProfile(source, { count: 0 })).toThrow('at least one radius');
+  });
+});
+
+describe('scalarMap and scalarRange', () => {
+  it('samples one value per texel', () => {
+    const map = scalarMap(source, 'divergence', 8);
+    expect(map).toHaveLength(64);
+    map.forEach((value) => expect(value).toBeCloseTo(2, 6));
+  });
+
+  it('scales relative maps by r/|B|', () => {
+    // For B = (x, y): div·r/|B| = 2
+    scalarMap(source, 'divergence', 8, true).forEach((value) => expect(value).toBeCloseTo(2, 4));
+  });
+
+  it('never falls below the floor', () => {
+    expect(scalarRange(scalarMap(rotation, 'divergence', 8), 8, 0.5)).toBe(0.5);
+    expect(scalarRange(scalarMap(rotation, 'curl', 8), 8, 0.5)).toBeCloseTo(2, 6);
+  });
+});
+
+describe('profileToCSV', () => {
+  it('writes a header and one row per radius', () => {
+    const csv = profileToCSV(radialProfile(uniform, { count: 2, samples: 4 }));
+    const lines = csv.trimEnd().split('\n');
+    expect(lines[0]).toBe('r,radialMean,radialRms,azimuthalMean,azimuthalRms,magnitude');
+    expect(lines).toHaveLength(3);
+    expect(csv.endsWith('\n')).toBe(true);
+  });
+});
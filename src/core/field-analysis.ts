@@ -0,0 +1,261 @@
+/**
+ * Field Analysis Module
+ * Derived quantities of a planar field: divergence, curl, flux through a
+ * closed curve, circulation along a path and radial/azimuthal profiles
+ *
+ * Works on any FieldFunction, so the same code checks every field model.
+ * Derivatives are central differences; line integrals use the midpoint rule
+ * on subdivided segments. Positions are in km from the pole.
+ */
+
+import type { Vector2 } from '../types';
+import { MODEL } from '../constants';
+import type { FieldFunction } from './streamlines';
+
+export type FieldQuantity = 'divergence' | 'curl';
+
+export interface FieldProfileSample {
+  r: number; // km
+  radialMean: number; // Mean B_r around the circle
+  radialRms: number;
+  azimuthalMean: number; // Mean B_θ around the circle
+  azimuthalRms: number;
+  magnitude: number; // Mean |B|
+}
+
+export interface ProfileOptions {
+  count: number; // Radii, evenly spaced from the pole to maxRadius
+  maxRadius: number; // km
+  samples: number; // Points around each circle
+}
+
+const DIFFERENCE_STEP = 1; // km; half-width of the central differences
+const SEGMENT_SAMPLES = 64; // Midpoint samples per path segment
+const MIN_RADIUS = 0.1; // km; relative maps are undefined at the pole
+
+const DEFAULT_PROFILE_OPTIONS: ProfileOptions = {
+  count: 100,
+  maxRadius: MODEL.geometry.ANTARCTIC_RIM_RADIUS,
+  samples: 360,
+};
+
+/**
+ * Divergence ∂Bx/∂x + ∂By/∂y at a point
+ */
+export function divergenceAt(
+  field: FieldFunction,
+  x: number,
+  y: number,
+  step: number = DIFFERENCE_STEP
+): number {
+  const dx = (field(x + step, y).x - field(x - step, y).x) / (2 * step);
+  const dy = (field(x, y + step).y - field(x, y - step).y) / (2 * step);
+  return dx + dy;
+}
+
+/**
+ * Curl (its z component, ∂By/∂x − ∂Bx/∂y) at a point
+ */
+export function curlAt(
+  field: FieldFunction,
+  x: number,
+  y: number,
+  step: number = DIFFERENCE_STEP
+): number {
+  const dByDx = (field(x + step, y).y - field(x - step, y).y) / (2 * step);
+  const dBxDy = (field(x, y + step).x - field(x, y - step).x) / (2 * step);
+  return dByDx - dBxDy;
+}
+
+/**
+ * Sample divergence or curl over the rim's bounding square at texel centres
+ * (the layout of EMFieldSolver.generateFieldTexture), one value per texel.
+ * With `relative`, values are in units of |B|/r so that maps of different
+ * models share a scale and numerical noise in a zero field stays near zero.
+ */
+export function scalarMap(
+  field: FieldFunction,
+  quantity: FieldQuantity,
+  resolution: number,
+  relative: boolean = false
+): Float32Array {
+  const evaluate = quantity === 'divergence' ? divergenceAt : curlAt;
+  const maxRadius = MODEL.geometry.ANTARCTIC_RIM_RADIUS;
+  const data = new Float32Array(resolution * resolution);
+
+  for (let j = 0; j < resolution; j++) {
+    for (let i = 0; i < resolution; i++) {
+      const x = ((i + 0.5) / resolution - 0.5) * maxRadius * 2;
+      const y = ((j + 0.5) / resolution - 0.5) * maxRadius * 2;
+      let value = evaluate(field, x, y);
+
+      if (relative) {
+        const b = field(x, y);
+        const magnitude = Math.hypot(b.x, b.y);
+        const r = Math.max(Math.hypot(x, y), MIN_RADIUS);
+        value = magnitude > 0 ? (value * r) / magnitude : 0;
+      }
+      data[j * resolution + i] = Number.isFinite(value) ? value : 0;
+    }
+  }
+  return data;
+}
+
+/**
+ * Outward flux ∮ B·n̂ ds through a closed polygon (either winding)
+ */
+export function fluxThroughCurve(
+  field: FieldFunction,
+  curve: Vector2[],
+  samples: number = SEGMENT_SAMPLES
+): number {
+  if (curve.length < 3) {
+    throw new Error('Flux needs a closed curve of at least three points');
+  }
+
+  // B·n̂ ds = Bx dy − By dx for a counter-clockwise curve
+  let flux = 0;
+  forEachSample(field, curve, true, samples, (b, dx, dy) => {
+    flux += b.x * dy - b.y * dx;
+  });
+  return signedArea(curve) < 0 ? -flux : flux;
+}
+
+/**
+ * Circulation ∫ B·dl along a path, closed back to its start when `closed`
+ */
+export function circulationAlongPath(
+  field: FieldFunction,
+  path: Vector2[],
+  closed: boolean = false,
+  samples: number = SEGMENT_SAMPLES
+): number {
+  if (path.length < 2) {
+    throw new Error('Circulation needs a path of at least two points');
+  }
+
+  let circulation = 0;
+  forEachSample(field, path, closed, samples, (b, dx, dy) => {
+    circulation += b.x * dx + b.y * dy;
+  });
+  return circulation;
+}
+
+/**
+ * Radial and azimuthal components averaged around circles centred on the pole
+ */
+export function radialProfile(
+  field: FieldFunction,
+  options: Partial<ProfileOptions> = {}
+): FieldProfileSample[] {
+  const opts = { ...DEFAULT_PROFILE_OPTIONS, ...options };
+  if (!(opts.count > 0) || !(opts.samples > 0)) {
+    throw new Error('Profile needs at least one radius and one sample');
+  }
+
+  const profile: FieldProfileSample[] = [];
+  for (let i = 0; i < opts.count; i++) {
+    const r = ((i + 0.5) / opts.count) * opts.maxRadius;
+    let radial = 0;
+    let radialSquared = 0;
+    let azimuthal = 0;
+    let azimuthalSquared = 0;
+    let magnitude = 0;
+
+    for (let k = 0; k < opts.samples; k++) {
+      const theta = ((k + 0.5) / opts.samples) * 2 * Math.PI;
+      const cos = Math.cos(theta);
+      const sin = Math.sin(theta);
+      const b = field(r * cos, r * sin);
+      const B_r = b.x * cos + b.y * sin;
+      const B_theta = -b.x * sin + b.y * cos;
+
+      radial += B_r;
+      radialSquared += B_r * B_r;
+      azimuthal += B_theta;
+      azimuthalSquared += B_theta * B_theta;
+      magnitude += Math.hypot(b.x, b.y);
+    }
+
+    const n = opts.samples;
+    profile.push({
+      r,
+      radialMean: radial / n,
+      radialRms: Math.sqrt(radialSquared / n),
+      azimuthalMean: azimuthal / n,
+      azimuthalRms: Math.sqrt(azimuthalSquared / n),
+      magnitude: magnitude / n,
+    });
+  }
+  return profile;
+}
+
+/**
+ * Magnitude mapped to full colour on a scalar overlay: the 99th percentile
+ * of |value| inside the rim, but never below `floor` so maps of a zero
+ * quantity show as (nearly) empty rather than amplified noise
+ */
+export function scalarRange(map: Float32Array, resolution: number, floor: number = 1): number {
+  const values: number[] = [];
+  for (let j = 0; j < resolution; j++) {
+    for (let i = 0; i < resolution; i++) {
+      const u = (i + 0.5) / resolution - 0.5;
+      const v = (j + 0.5) / resolution - 0.5;
+      if (u * u + v * v <= 0.25) values.push(Math.abs(map[j * resolution + i]));
+    }
+  }
+  if (values.length === 0) return floor;
+
+  const sorted = Float64Array.from(values).sort();
+  return Math.max(floor, sorted[Math.floor(0.99 * (sorted.length - 1))]);
+}
+
+export function profileToCSV(profile: FieldProfileSample[]): string {
+  const columns: Array<keyof FieldProfileSample> = [
+    'r',
+    'radialMean',
+    'radialRms',
+    'azimuthalMean',
+    'azimuthalRms',
+    'magnitude',
+  ];
+  const rows = profile.map((sample) => columns.map((column) => String(sample[column])).join(','));
+  return [columns.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Visit midpoint samples of every segment with the field there and the
+ * sub-segment's displacement
+ */
+function forEachSample(
+  field: FieldFunction,
+  points: Vector2[],
+  closed: boolean,
+  samples: number,
+  visit: (b: Vector2, dx: number, dy: number) => void
+): void {
+  const segments = closed ? points.length : points.length - 1;
+  for (let s = 0; s < segments; s++) {
+    const start = points[s];
+    const end = points[(s + 1) % points.length];
+    const dx = (end.x - start.x) / samples;
+    const dy = (end.y - start.y) / samples;
+    for (let k = 0; k < samples; k++) {
+      const t = (k + 0.5) / samples;
+      visit(field(start.x + (end.x - start.x) * t, start.y + (end.y - start.y) * t), dx, dy);
+    }
+  }
+}
+
+/**
+ * Shoelace signed area; positive for counter-clockwise polygons
+ */
+function signedArea(points: Vector2[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
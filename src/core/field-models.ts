@@ -0,0 +1,366 @@
+/**
+ * Field Models
+ * Interchangeable B(x, y) models used by EMFieldSolver
+ *
+ * Models return the field per unit source strength B₀ in Cartesian
+ * components, and the solver scales by B₀, so the field strength slider works
+ * whichever model is selected. Positions are in km from the pole.
+ */
+
+import type { Vector2 } from '../types';
+import { MODEL } from '../constants';
+import { compileExpression } from './expression';
+import type { CompiledExpression } from './expression';
+
+export interface FieldModel {
+  readonly name: string;
+  readonly label: string;
+
+  /**
+   * Field per unit B₀ at a Cartesian position
+   */
+  fieldAt(x: number, y: number): Vector2;
+
+  /**
+   * Points the field is organised around (streamline seeds, overlay glow)
+   */
+  getCentres(): Vector2[];
+
+  /**
+   * Serializable parameters; createFieldModel(toSpec()) rebuilds the model
+   */
+  toSpec(): FieldModelSpec;
+}
+
+export interface VortexSource {
+  x: number; // km
+  y: number; // km
+  strength: number; // Multiple of B₀; the sign sets the spin
+}
+
+export interface FieldModelSpec {
+  name: string;
+  angle?: number; // Dipole axis / uniform direction (rad)
+  sources?: VortexSource[]; // Multi-vortex
+  radial?: string; // Expression for B_r / B₀
+  tangential?: string; // Expression for B_θ / B₀
+}
+
+const MIN_RADIUS = 0.1; // km; avoids the singularity at a source
+const POLE: Vector2 = { x: 0, y: 0 };
+const EXPRESSION_VARIABLES = ['r', 'theta', 'x', 'y'];
+
+/**
+ * Cartesian components of a field given in the polar basis at angle θ
+ */
+function fromPolar(B_r: number, B_theta: number, theta: number): Vector2 {
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  return { x: B_r * cos - B_theta * sin, y: B_r * sin + B_theta * cos };
+}
+
+/**
+ * The original model: B(r,θ) = (B₀/r²)[cos(θ)r̂ + sin(θ)θ̂]
+ */
+export class VortexFieldModel implements FieldModel {
+  readonly name = 'vortex';
+  readonly label = 'Vortex (B₀/r²)(cos θ r̂ + sin θ θ̂)';
+
+  fieldAt(x: number, y: number): Vector2 {
+    const r = Math.max(Math.hypot(x, y), MIN_RADIUS);
+    const theta = Math.atan2(y, x);
+    const magnitude = 1 / (r * r);
+    return fromPolar(magnitude * Math.cos(theta), magnitude * Math.sin(theta), theta);
+  }
+
+  getCentres(): Vector2[] {
+    return [POLE];
+  }
+
+  toSpec(): FieldModelSpec {
+    return { name: this.name };
+  }
+}
+
+/**
+ * Pure toroidal field circling the pole: B = (B₀/r²) θ̂
+ */
+export class ToroidalFieldModel implements FieldModel {
+  readonly name = 'toroidal';
+  readonly label = 'Toroidal (B₀/r²) θ̂';
+
+  fieldAt(x: number, y: number): Vector2 {
+    const r = Math.max(Math.hypot(x, y), MIN_RADIUS);
+    const magnitude = 1 / (r * r);
+    return fromPolar(0, magnitude, Math.atan2(y, x));
+  }
+
+  getCentres(): Vector2[] {
+    return [POLE];
+  }
+
+  toSpec(): FieldModelSpec {
+    return { name: this.name };
+  }
+}
+
+/**
+ * In-plane dipole at the pole: B = B₀[3(m̂·r̂)r̂ − m̂]/r³, m̂ at `angle`
+ */
+export class DipoleFieldModel implements FieldModel {
+  readonly name = 'dipole';
+  readonly label = 'Dipole B₀[3(m̂·r̂)r̂ − m̂]/r³';
+  readonly angle: number;
+
+  constructor(angle: number = 0) {
+    this.angle = angle;
+  }
+
+  fieldAt(x: number, y: number): Vector2 {
+    const r = Math.max(Math.hypot(x, y), MIN_RADIUS);
+    const rx = x / r;
+    const ry = y / r;
+    const mx = Math.cos(this.angle);
+    const my = Math.sin(this.angle);
+    const dot = mx * rx + my * ry;
+    const scale = 1 / (r * r * r);
+    return { x: (3 * dot * rx - mx) * scale, y: (3 * dot * ry - my) * scale };
+  }
+
+  getCentres(): Vector2[] {
+    return [POLE];
+  }
+
+  toSpec(): FieldModelSpec {
+    return { name: this.name, angle: this.angle };
+  }
+}
+
+/**
+ * Superposition of toroidal vortices: B = Σ sᵢ(B₀/dᵢ²) θ̂ᵢ around each source
+ */
+export class MultiVortexFieldModel implements FieldModel {
+  readonly name = 'multi-vortex';
+  readonly label = 'Multiple vortices Σ sᵢ(B₀/dᵢ²) θ̂ᵢ';
+  private sources: VortexSource[];
+
+  constructor(sources: VortexSource[] = defaultVortexSources()) {
+    if (sources.length === 0) {
+      throw new Error('Multi-vortex field needs at least one source');
+    }
+    this.sources = sources.map((source) => ({ ...source }));
+  }
+
+  fieldAt(x: number, y: number): Vector2 {
+    let bx = 0;
+    let by = 0;
+    for (const source of this.sources) {
+      const dx = x - source.x;
+      const dy = y - source.y;
+      const d = Math.max(Math.hypot(dx, dy), MIN_RADIUS);
+      // θ̂ around the source is (−dy, dx)/d
+      const scale = source.strength / (d * d * d);
+      bx -= dy * scale;
+      by += dx * scale;
+    }
+    return { x: bx, y: by };
+  }
+
+  getCentres(): Vector2[] {
+    return this.sources.map((source) => ({ x: source.x, y: source.y }));
+  }
+
+  getSources(): readonly VortexSource[] {
+    return this.sources;
+  }
+
+  addSource(source: VortexSource): void {
+    this.sources.push({ ...source });
+  }
+
+  /**
+   * Remove a source; the last one cannot be removed
+   */
+  removeSource(index: number): void {
+    if (this.sources.length > 1) this.sources.splice(index, 1);
+  }
+
+  moveSource(index: number, position: Vector2): void {
+    const source = this.sources[index];
+    if (!source) {
+      throw new Error(`No vortex source ${index}`);
+    }
+    source.x = position.x;
+    source.y = position.y;
+  }
+
+  /**
+   * Index of the source closest to a position
+   */
+  nearestSource(position: Vector2): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    this.sources.forEach((source, i) => {
+      const distance = Math.hypot(source.x - position.x, source.y - position.y);
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  toSpec(): FieldModelSpec {
+    return { name: this.name, sources: this.sources.map((source) => ({ ...source })) };
+  }
+}
+
+/**
+ * Three alternating vortices around the Tropic of Cancer
+ */
+function defaultVortexSources(): VortexSource[] {
+  const radius = MODEL.geometry.TROPIC_CANCER_RADIUS;
+  return [0, 1, 2].map((i) => {
+    const angle = (i / 3) * 2 * Math.PI;
+    return {
+      x: radius * Math.cos(angle),
+      y: radius * Math.sin(angle),
+      strength: i % 2 === 0 ? 1 : -1,
+    };
+  });
+}
+
+/**
+ * Uniform background field at `angle`, as strong as the vortex field at the equator
+ */
+export class UniformFieldModel implements FieldModel {
+  readonly name = 'uniform';
+  readonly label = 'Uniform background';
+  readonly angle: number;
+
+  constructor(angle: number = 0) {
+    this.angle = angle;
+  }
+
+  fieldAt(): Vector2 {
+    const equator = MODEL.geometry.EQUATOR_RADIUS;
+    const magnitude = 1 / (equator * equator);
+    return { x: magnitude * Math.cos(this.angle), y: magnitude * Math.sin(this.angle) };
+  }
+
+  getCentres(): Vector2[] {
+    return [];
+  }
+
+  toSpec(): FieldModelSpec {
+    return { name: this.name, angle: this.angle };
+  }
+}
+
+/**
+ * User-defined field: B_r and B_θ per unit B₀ as formulas in r, theta, x, y
+ * Points where a formula is not finite have no field.
+ */
+export class ExpressionFieldModel implements FieldModel {
+  readonly name = 'expression';
+  readonly label = 'Expression B_r(r, θ), B_θ(r, θ)';
+  readonly radial: string;
+  readonly tangential: string;
+  private radialFn: CompiledExpression;
+  private tangentialFn: CompiledExpression;
+
+  constructor(
+    radial: string = '1 / r^2 * cos(theta)',
+    tangential: string = '1 / r^2 * sin(theta)'
+  ) {
+    this.radialFn = compileField('B_r', radial);
+    this.tangentialFn = compileField('B_θ', tangential);
+    this.radial = radial;
+    this.tangential = tangential;
+  }
+
+  fieldAt(x: number, y: number): Vector2 {
+    const r = Math.max(Math.hypot(x, y), MIN_RADIUS);
+    const theta = Math.atan2(y, x);
+    const variables = { r, theta, x, y };
+    const B_r = this.radialFn(variables);
+    const B_theta = this.tangentialFn(variables);
+    if (!Number.isFinite(B_r) || !Number.isFinite(B_theta)) {
+      return { x: 0, y: 0 };
+    }
+    return fromPolar(B_r, B_theta, theta);
+  }
+
+  getCentres(): Vector2[] {
+    return [POLE];
+  }
+
+  toSpec(): FieldModelSpec {
+    return { name: this.name, radial: this.radial, tangential: this.tangential };
+  }
+}
+
+function compileField(component: string, source: string): CompiledExpression {
+  try {
+    return compileExpression(source, EXPRESSION_VARIABLES);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${component}: ${reason}`);
+  }
+}
+
+/**
+ * Built-in models with their default parameters
+ */
+export const FIELD_MODELS: Record<string, () => FieldModel> = {
+  vortex: () => new VortexFieldModel(),
+  toroidal: () => new ToroidalFieldModel(),
+  dipole: () => new DipoleFieldModel(),
+  'multi-vortex': () => new MultiVortexFieldModel(),
+  uniform: () => new UniformFieldModel(),
+  expression: () => new ExpressionFieldModel(),
+};
+
+/**
+ * Create a built-in model by name
+ */
+export function getFieldModel(name: string): FieldModel {
+  if (!Object.prototype.hasOwnProperty.call(FIELD_MODELS, name)) {
+    throw new Error(`Unknown field model "${name}"`);
+  }
+  return FIELD_MODELS[name]();
+}
+
+/**
+ * Rebuild a model from its spec (scenarios); missing parameters take defaults
+ */
+export function createFieldModel(spec: FieldModelSpec): FieldModel {
+  const angle = spec.angle ?? 0;
+  if (!Number.isFinite(angle)) {
+    throw new Error('Field model angle must be a number');
+  }
+
+  switch (spec.name) {
+    case 'dipole':
+      return new DipoleFieldModel(angle);
+    case 'uniform':
+      return new UniformFieldModel(angle);
+    case 'multi-vortex': {
+      if (spec.sources === undefined) return new MultiVortexFieldModel();
+      const valid =
+        Array.isArray(spec.sources) &&
+        spec.sources.every((s) => [s?.x, s?.y, s?.strength].every(Number.isFinite));
+      if (!valid) {
+        throw new Error('Vortex sources must have numeric x, y and strength');
+      }
+      return new MultiVortexFieldModel(spec.sources);
+    }
+    case 'expression':
+      if ([spec.radial, spec.tangential].some((f) => f !== undefined && typeof f !== 'string')) {
+        throw new Error('Field expressions must be strings');
+      }
+      return new ExpressionFieldModel(spec.radial, spec.tangential);
+    default:
+      return getFieldModel(spec.name);
+  }
+}
@@ -147,6 +147,13 @@ export function radiusToLatitude(r: number, maxRadius: number): number {
   return 90 - (r / maxRadius) * 180;
 }
 
+/**
+ * Approximate radius from latitude (inverse of radiusToLatitude)
+ */
+export function latitudeToRadius(lat: number, maxRadius: number): number {
+  return ((90 - lat) / 180) * maxRadius;
+}
+
 /**
  * Check if point is within Antarctic boundary
  */
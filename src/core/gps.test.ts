@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { GPSSimulator, STATION_DISTRIBUTIONS, sampleStationPositions } from './gps';
+import { SeededRandom } from './random';
+import { MODEL } from '../constants';
+
+const RIM = MODEL.geometry.ANTARCTIC_RIM_RADIUS;
+
+describe.each(STATION_DISTRIBUTIONS)('%s distribution', (distribution) => {
+  it('is reproducible from the seed', () => {
+    const a = sampleStationPositions(200, distribution, new SeededRandom(9));
+    const b = sampleStationPositions(200, distribution, new SeededRandom(9));
+    expect(a).toEqual(b);
+  });
+
+  it('places the requested stations inside the rim', () => {
+    const positions = sampleStationPositions(200, distribution, new SeededRandom(9));
+    expect(positions).toHaveLength(200);
+    for (const position of positions) {
+      expect(position.r).toBeGreaterThanOrEqual(0);
+      expect(position.r).toBeLessThanOrEqual(RIM);
+    }
+  });
+});
+
+describe('sampleStationPositions', () => {
+  it('puts half of a uniform-area network inside r = R/√2', () => {
+    const positions = sampleStationPositions(4000, 'uniform-area', new SeededRandom(1));
+    const inner = positions.filter((position) => position.r < RIM / Math.SQRT2).length;
+    expect(inner / positions.length).toBeCloseTo(0.5, 1);
+  });
+
+  it('rejects unknown distributions', () => {
+    expect(() => sampleStationPositions(1, 'grid' as never, new SeededRandom(1))).toThrow(
+      'Unknown station distribution "grid"'
+    );
+  });
+});
+
+describe('GPSSimulator', () => {
+  it('regenerates the same network from a per-run seed', () => {
+    const gps = new GPSSimulator(0.033, new SeededRandom(1));
+    gps.generateStations(30, { seed: 5, distribution: 'poisson-disk' });
+    const first = gps.getStations().map((station) => station.position);
+    gps.generateStations(30, { seed: 5, distribution: 'poisson-disk' });
+    expect(gps.getStations().map((station) => station.position)).toEqual(first);
+  });
+});
@@ -3,51 +3,109 @@
  * Generates and tracks GPS station positions and displacement vectors
  */
 
-import type { GPSStation, PolarCoord, Vector2 } from '../types';
+import type { GPSStation, LatLon, PolarCoord, Vector2 } from '../types';
 import { MODEL } from '../constants';
 import { polarToCartesian } from './geometry';
+import { ExpansionEngine } from './expansion';
+import { createRandom, randomNormal, systemRandom } from './random';
+import type { RandomSource } from './random';
+import { DEFAULT_PROJECTION } from './projection';
+import type { Projection } from './projection';
+
+/**
+ * Spatial distribution used when generating synthetic stations
+ * - uniform-area: equal station density per unit area
+ * - power-bias: r ∝ u^0.7, the original generator's bias
+ * - ring-clustered: Gaussian clusters around a set of rings
+ * - poisson-disk: blue-noise placement with a minimum spacing
+ */
+export type StationDistribution = 'uniform-area' | 'power-bias' | 'ring-clustered' | 'poisson-disk';
+
+export const STATION_DISTRIBUTIONS: StationDistribution[] = [
+  'uniform-area',
+  'power-bias',
+  'ring-clustered',
+  'poisson-disk',
+];
+
+// Reference circles used by the ring-clustered distribution (km)
+const DEFAULT_STATION_RINGS = [
+  MODEL.geometry.TROPIC_CANCER_RADIUS,
+  MODEL.geometry.TROPIC_CAPRICORN_RADIUS,
+  MODEL.geometry.EQUATOR_RADIUS,
+  12000, // Southern cooling belt
+  18000,
+];
+
+export interface StationGenerationOptions {
+  distribution?: StationDistribution;
+  seed?: number; // Overrides the simulator's random source for this run
+  rings?: number[]; // Ring radii for ring-clustered (km)
+  ringSpread?: number; // Ring standard deviation (km)
+}
 
 export class GPSSimulator {
   private stations: GPSStation[] = [];
-  private expansionRate: number;
+  private expansion: ExpansionEngine;
+  private random: RandomSource;
+  private observed: boolean = false; // Loaded from data files; velocities are measured
+  private projection: Projection = DEFAULT_PROJECTION;
+  private time: number = 0; // Current simulation time (years)
+  private referenceTime: number = 0; // Time at which initialPosition was recorded
+
+  constructor(expansionRate: number = MODEL.expansion.RATE, random: RandomSource = systemRandom) {
+    this.expansion = new ExpansionEngine(expansionRate);
+    this.random = random;
+  }
 
-  constructor(expansionRate: number = MODEL.expansion.RATE) {
-    this.expansionRate = expansionRate;
+  /**
+   * Share an expansion engine (and therefore its law) with the rest of the simulation
+   */
+  setExpansion(expansion: ExpansionEngine): void {
+    this.expansion = expansion;
+    this.setTime(this.time);
   }
 
   /**
    * Generate GPS stations distributed across the plane
    */
-  generateStations(count: number): void {
+  generateStations(count: number, options: StationGenerationOptions = {}): void {
     this.stations = [];
-    const maxRadius = MODEL.geometry.ANTARCTIC_RIM_RADIUS;
-
-    // Generate stations in roughly concentric pattern
-    for (let i = 0; i < count; i++) {
-      // Bias toward mid-latitudes (where most stations actually are)
-      const r_normalized = Math.pow(Math.random(), 0.7); // Bias toward outer regions
-      const r = r_normalized * maxRadius;
-      const theta = Math.random() * 2 * Math.PI;
-
-      const position: PolarCoord = { r, theta };
+    this.observed = false;
+    this.referenceTime = this.time;
+    const random = options.seed !== undefined ? createRandom(options.seed) : this.random;
+    const positions = sampleStationPositions(
+      count,
+      options.distribution ?? 'power-bias',
+      random,
+      MODEL.geometry.ANTARCTIC_RIM_RADIUS,
+      options
+    );
 
+    positions.forEach((position, i) => {
       this.stations.push({
         id: `GPS_${i.toString().padStart(4, '0')}`,
-        name: this.generateStationName(r, theta),
+        name: this.generateStationName(position),
         position: { ...position },
         initialPosition: { ...position },
         velocity: this.calculateVelocity(position),
         displacement: { x: 0, y: 0 },
       });
-    }
+    });
+  }
+
+  /**
+   * Set the random source used by generateStations
+   */
+  setRandom(random: RandomSource): void {
+    this.random = random;
   }
 
   /**
    * Generate realistic station name based on location
    */
-  private generateStationName(r: number, theta: number): string {
-    // Map radius to approximate latitude
-    const lat = 90 - (r / MODEL.geometry.ANTARCTIC_RIM_RADIUS) * 180;
+  private generateStationName(position: PolarCoord): string {
+    const { lat } = this.projection.inverse(position);
 
     // Determine region
     if (lat > 60) return 'Arctic Station';
@@ -62,10 +120,10 @@ export class GPSSimulator {
 
   /**
    * Calculate expansion velocity for station at position
-   * v(r) = kr (radial outward)
+   * Radial outward, from the active expansion law at the current simulation time
    */
   private calculateVelocity(pos: PolarCoord): Vector2 {
-    const speed = this.expansionRate * pos.r; // meters/year
+    const speed = this.expansion.getExpansionVelocity(pos.r, this.time); // meters/year
 
     // Velocity is purely radial
     return {
@@ -78,10 +136,22 @@ export class GPSSimulator {
    * Update all station positions based on expansion
    */
   updatePositions(deltaTime: number): void {
+    this.setTime(this.time + deltaTime);
+  }
+
+  /**
+   * Place all stations at absolute simulation time t (negative t reconstructs the past)
+   */
+  setTime(t: number): void {
+    this.time = t;
+
+    // Observed networks are a fixed record, not a model prediction
+    if (this.observed) return;
+
     for (const station of this.stations) {
-      // Update radial position
-      const expansionFactor = 1 + this.expansionRate * deltaTime * 1000 / 1000;
-      station.position.r *= expansionFactor;
+      // Radial position from the expansion law, relative to when the station was placed
+      const r0 = this.expansion.getInitialRadius(station.initialPosition.r, this.referenceTime);
+      station.position.r = this.expansion.getExpandedRadius(r0, t);
 
       // Recalculate velocity
       station.velocity = this.calculateVelocity(station.position);
@@ -198,23 +268,25 @@ export class GPSSimulator {
    */
   generateRealisticStations(): void {
     this.stations = [];
+    this.observed = false;
+    this.referenceTime = this.time;
 
     // Northern stations (uplift near center)
-    this.addStation('SVALBARD', 1000, 0.5, 0.002, 0.001); // +2mm/yr vertical
-    this.addStation('REYKJAVIK', 2000, 0.3, 0.001, 0.0005);
+    this.addStation('SVALBARD', { lat: 78.2, lon: 15.6 }, 0.002, 0.001); // +2mm/yr vertical
+    this.addStation('REYKJAVIK', { lat: 64.1, lon: -21.9 }, 0.001, 0.0005);
 
     // Mid-latitude northern
-    this.addStation('LONDON', 6000, 0.15, 0.0005, 0);
-    this.addStation('TOKYO', 6500, 2.5, 0.0004, 0);
+    this.addStation('LONDON', { lat: 51.5, lon: -0.1 }, 0.0005, 0);
+    this.addStation('TOKYO', { lat: 35.7, lon: 139.7 }, 0.0004, 0);
 
     // Equatorial
-    this.addStation('NAIROBI', 10000, 0.6, 0, -0.0005);
+    this.addStation('NAIROBI', { lat: -1.3, lon: 36.8 }, 0, -0.0005);
 
     // Southern stations (subsidence near rim)
-    this.addStation('CAPE_TOWN', 13500, 0.35, -0.03, -0.001); // -1mm/yr vertical
-    this.addStation('SYDNEY', 14000, 2.6, -0.002, -0.0015);
-    this.addStation('SANTIAGO', 15000, -1.2, -0.004, -0.002);
-    this.addStation('ANTARCTIC_BASE', 19000, 0, -0.005, -0.003); // -5mm/yr vertical
+    this.addStation('CAPE_TOWN', { lat: -33.9, lon: 18.4 }, -0.03, -0.001); // -1mm/yr vertical
+    this.addStation('SYDNEY', { lat: -33.9, lon: 151.2 }, -0.002, -0.0015);
+    this.addStation('SANTIAGO', { lat: -33.4, lon: -70.7 }, -0.004, -0.002);
+    this.addStation('ANTARCTIC_BASE', { lat: -77.8, lon: 166.7 }, -0.005, -0.003); // -5mm/yr vertical
 
     // Calculate velocities for all
     this.stations.forEach((station) => {
@@ -227,12 +299,12 @@ export class GPSSimulator {
    */
   private addStation(
     name: string,
-    r: number,
-    theta: number,
+    location: LatLon,
     radialDisp: number,
     verticalDisp: number
   ): void {
-    const position: PolarCoord = { r, theta };
+    const position = this.projection.forward(location);
+    const theta = position.theta;
 
     // Convert displacement to Cartesian
     const displacement: Vector2 = {
@@ -247,25 +319,48 @@ export class GPSSimulator {
       initialPosition: { ...position },
       velocity: { x: 0, y: 0 }, // Will be calculated
       displacement,
+      verticalDisplacement: verticalDisp,
+      location: { ...location },
     });
   }
 
+  /**
+   * Replace the network with externally loaded stations (e.g. observed data)
+   * Observed velocities and displacements are kept as-is
+   */
+  loadStations(stations: GPSStation[]): void {
+    this.observed = true;
+    this.stations = stations.map((station) => ({
+      ...station,
+      position: { ...station.position },
+      initialPosition: { ...station.initialPosition },
+      velocity: { ...station.velocity },
+      displacement: station.displacement ? { ...station.displacement } : { x: 0, y: 0 },
+    }));
+  }
+
   /**
    * Set expansion rate
    */
   setExpansionRate(rate: number): void {
-    this.expansionRate = rate;
+    this.expansion.setExpansionRate(rate);
 
-    // Recalculate velocities for all stations
-    this.stations.forEach((station) => {
-      station.velocity = this.calculateVelocity(station.position);
-    });
+    // Re-place stations under the new rate
+    this.setTime(this.time);
+  }
+
+  getTime(): number {
+    return this.time;
   }
 
   /**
    * Reset all stations to initial positions
    */
   reset(): void {
+    this.time = 0;
+    this.referenceTime = 0;
+    if (this.observed) return;
+
     this.stations.forEach((station) => {
       station.position = { ...station.initialPosition };
       station.displacement = { x: 0, y: 0 };
@@ -273,6 +368,24 @@ export class GPSSimulator {
     });
   }
 
+  /**
+   * Set the lat/lon projection used for named stations and region labels
+   */
+  setProjection(projection: Projection): void {
+    this.projection = projection;
+  }
+
+  getProjection(): Projection {
+    return this.projection;
+  }
+
+  /**
+   * Whether the current network was loaded from observed data
+   */
+  isObserved(): boolean {
+    return this.observed;
+  }
+
   /**
    * Get station count
    */
@@ -281,6 +394,168 @@ export class GPSSimulator {
   }
 }
 
+/**
+ * Sample station positions on the disk for the given distribution
+ */
+export function sampleStationPositions(
+  count: number,
+  distribution: StationDistribution,
+  random: RandomSource,
+  maxRadius: number = MODEL.geometry.ANTARCTIC_RIM_RADIUS,
+  options: Pick<StationGenerationOptions, 'rings' | 'ringSpread'> = {}
+): PolarCoord[] {
+  switch (distribution) {
+    case 'uniform-area':
+      return samplePower(count, 0.5, random, maxRadius);
+    case 'power-bias':
+      return samplePower(count, 0.7, random, maxRadius);
+    case 'ring-clustered':
+      return sampleRings(
+        count,
+        options.rings ?? DEFAULT_STATION_RINGS,
+        options.ringSpread ?? 500,
+        random,
+        maxRadius
+      );
+    case 'poisson-disk':
+      return samplePoissonDisk(count, random, maxRadius);
+    default:
+      throw new Error(`Unknown station distribution "${distribution}"`);
+  }
+}
+
+/**
+ * r = u^p · R (p = 0.5 gives uniform density per area)
+ */
+function samplePower(
+  count: number,
+  exponent: number,
+  random: RandomSource,
+  maxRadius: number
+): PolarCoord[] {
+  const positions: PolarCoord[] = [];
+  for (let i = 0; i < count; i++) {
+    const r = Math.pow(random.next(), exponent) * maxRadius;
+    const theta = random.next() * 2 * Math.PI;
+    positions.push({ r, theta });
+  }
+  return positions;
+}
+
+/**
+ * Gaussian scatter around randomly chosen rings, clamped to the disk
+ */
+function sampleRings(
+  count: number,
+  rings: number[],
+  spread: number,
+  random: RandomSource,
+  maxRadius: number
+): PolarCoord[] {
+  if (rings.length === 0) {
+    throw new Error('ring-clustered distribution needs at least one ring');
+  }
+
+  const positions: PolarCoord[] = [];
+  for (let i = 0; i < count; i++) {
+    const ring = rings[Math.floor(random.next() * rings.length)];
+    const r = Math.min(Math.abs(randomNormal(random, ring, spread)), maxRadius);
+    const theta = random.next() * 2 * Math.PI;
+    positions.push({ r, theta });
+  }
+  return positions;
+}
+
+/**
+ * Bridson Poisson-disk sampling over the whole disk
+ * Spacing is chosen so the disk fills to slightly more than `count` points;
+ * extras are dropped at random and any shortfall is topped up uniformly.
+ */
+function samplePoissonDisk(count: number, random: RandomSource, maxRadius: number): PolarCoord[] {
+  if (count <= 0) return [];
+
+  const area = Math.PI * maxRadius * maxRadius;
+  const minDist = Math.sqrt(area / count) * 0.85;
+  const cellSize = minDist / Math.SQRT2;
+  const gridSize = Math.ceil((2 * maxRadius) / cellSize);
+  const grid = new Int32Array(gridSize * gridSize).fill(-1);
+  const points: Vector2[] = [];
+  const active: number[] = [];
+  const attempts = 30;
+
+  const cellOf = (p: Vector2) => ({
+    cx: Math.floor((p.x + maxRadius) / cellSize),
+    cy: Math.floor((p.y + maxRadius) / cellSize),
+  });
+
+  const isFar = (p: Vector2): boolean => {
+    const { cx, cy } = cellOf(p);
+    for (let y = Math.max(cy - 2, 0); y <= Math.min(cy + 2, gridSize - 1); y++) {
+      for (let x = Math.max(cx - 2, 0); x <= Math.min(cx + 2, gridSize - 1); x++) {
+        const index = grid[y * gridSize + x];
+        if (index < 0) continue;
+        const dx = points[index].x - p.x;
+        const dy = points[index].y - p.y;
+        if (dx * dx + dy * dy < minDist * minDist) return false;
+      }
+    }
+    return true;
+  };
+
+  const insert = (p: Vector2): void => {
+    const { cx, cy } = cellOf(p);
+    grid[cy * gridSize + cx] = points.length;
+    active.push(points.length);
+    points.push(p);
+  };
+
+  insert(polarToCartesian(samplePower(1, 0.5, random, maxRadius)[0]));
+
+  while (active.length > 0) {
+    const slot = Math.floor(random.next() * active.length);
+    const origin = points[active[slot]];
+    let placed = false;
+
+    for (let k = 0; k < attempts; k++) {
+      const angle = random.next() * 2 * Math.PI;
+      const dist = minDist * (1 + random.next());
+      const candidate = {
+        x: origin.x + dist * Math.cos(angle),
+        y: origin.y + dist * Math.sin(angle),
+      };
+      if (Math.hypot(candidate.x, candidate.y) > maxRadius) continue;
+      if (isFar(candidate)) {
+        insert(candidate);
+        placed = true;
+        break;
+      }
+    }
+
+    if (!placed) {
+      active[slot] = active[active.length - 1];
+      active.pop();
+    }
+  }
+
+  // Partial Fisher-Yates shuffle keeps a random, still well-spaced subset
+  const take = Math.min(count, points.length);
+  for (let i = 0; i < take; i++) {
+    const j = i + Math.floor(random.next() * (points.length - i));
+    [points[i], points[j]] = [points[j], points[i]];
+  }
+
+  const positions = points.slice(0, take).map((p) => ({
+    r: Math.hypot(p.x, p.y),
+    theta: Math.atan2(p.y, p.x),
+  }));
+
+  if (positions.length < count) {
+    positions.push(...samplePower(count - positions.length, 0.5, random, maxRadius));
+  }
+
+  return positions;
+}
+
 /**
  * Validate GPS displacement against expansion model
  * Returns true if pattern matches radial expansion
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  arcLength,
+  bearing,
+  expandPoints,
+  measureChange,
+  measurePath,
+  measureRingArea,
+  pathLength,
+  polygonArea,
+  ringArea,
+} from './measurement';
+import { ExpansionEngine } from './expansion';
+import { getExpansionLaw } from './expansion-laws';
+import type { PolarCoord } from '../types';
+
+// 1000 km square centred on the pole
+const SQUARE: PolarCoord[] = [45, 135, 225, 315].map((degrees) => ({
+  r: 500 * Math.SQRT2,
+  theta: (degrees * Math.PI) / 180,
+}));
+
+describe('pathLength', () => {
+  it('sums chord lengths', () => {
+    expect(pathLength(SQUARE)).toBeCloseTo(3000, 6);
+  });
+
+  it('closes the path back to the start', () => {
+    expect(pathLength(SQUARE, true)).toBeCloseTo(4000, 6);
+  });
+});
+
+describe('polygonArea', () => {
+  it('uses the shoelace formula in either winding', () => {
+    expect(polygonArea(SQUARE)).toBeCloseTo(1e6, 3);
+    expect(polygonArea([...SQUARE].reverse())).toBeCloseTo(1e6, 3);
+  });
+
+  it('is zero for fewer than three points', () => {
+    expect(polygonArea(SQUARE.slice(0, 2))).toBe(0);
+  });
+});
+
+describe('bearing', () => {
+  const from: PolarCoord = { r: 5000, theta: 0 };
+
+  it('points north toward the pole', () => {
+    expect(bearing(from, { r: 1000, theta: 0 })).toBeCloseTo(0, 9);
+  });
+
+  it('points east along increasing θ', () => {
+    expect(bearing(from, { r: 5000, theta: 0.01 })).toBeCloseTo(90, 0);
+  });
+
+  it('points south away from the pole', () => {
+    expect(bearing(from, { r: 9000, theta: 0 })).toBeCloseTo(180, 9);
+  });
+});
+
+describe('arcLength and ringArea', () => {
+  it('measures the shorter arc', () => {
+    expect(arcLength(1000, 0.1, 2 * Math.PI - 0.1)).toBeCloseTo(200, 6);
+  });
+
+  it('measures an annulus regardless of order', () => {
+    expect(ringArea(2, 1)).toBeCloseTo(3 * Math.PI, 12);
+  });
+});
+
+describe('expandPoints', () => {
+  it('scales radii by the linear law and keeps angles', () => {
+    const expansion = new ExpansionEngine();
+    const [point] = expandPoints([{ r: 10000, theta: 1 }], expansion, 0, 10);
+    expect(point.r).toBeCloseTo(expansion.getExpandedRadius(10000, 10), 9);
+    expect(point.theta).toBe(1);
+  });
+
+  it('goes through the reference epoch under the radius-dependent law', () => {
+    const expansion = new ExpansionEngine(undefined, getExpansionLaw('radius-dependent'));
+    const r5 = expansion.getExpandedRadius(10000, 5);
+    const [point] = expandPoints([{ r: r5, theta: 0 }], expansion, 5, 10);
+    expect(point.r).toBeCloseTo(expansion.getExpandedRadius(10000, 10), 6);
+  });
+
+  it('leaves the pole fixed', () => {
+    expect(expandPoints([{ r: 0, theta: 2 }], new ExpansionEngine(), 0, 100)).toEqual([
+      { r: 0, theta: 2 },
+    ]);
+  });
+});
+
+describe('measureChange', () => {
+  it('reports absolute and percentage change', () => {
+    expect(measureChange(200, 250)).toEqual({ initial: 200, final: 250, change: 50, percent: 25 });
+  });
+
+  it('reports no percentage from zero', () => {
+    expect(measureChange(0, 5).percent).toBe(0);
+  });
+});
+
+describe('measurePath', () => {
+  const expansion = new ExpansionEngine();
+
+  it('grows lengths by the linear scale and areas by its square', () => {
+    const scale = expansion.getExpandedRadius(1, 10);
+    const result = measurePath(SQUARE, expansion, 0, 10);
+    expect(result.length.final / result.length.initial).toBeCloseTo(scale, 9);
+    expect(result.area!.final / result.area!.initial).toBeCloseTo(scale * scale, 9);
+    expect(result.years).toBe(10);
+  });
+
+  it('has no area or bearing for a single point', () => {
+    const result = measurePath(SQUARE.slice(0, 1), expansion, 0, 10);
+    expect(result.area).toBeNull();
+    expect(result.bearing).toBeNull();
+  });
+});
+
+describe('measureRingArea', () => {
+  it('grows with the square of the linear scale', () => {
+    const expansion = new ExpansionEngine();
+    const scale = expansion.getExpandedRadius(1, 10);
+    const result = measureRingArea(1000, 2000, expansion, 0, 10);
+    expect(result.final / result.initial).toBeCloseTo(scale * scale, 9);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Measurement Module
+ * Path lengths, areas and bearings on the disk, now and after expansion
+ *
+ * The disk is flat, so the shortest path between two points is a straight
+ * chord; "geodesic" lengths here are sums of chord lengths.
+ */
+
+import type { PolarCoord } from '../types';
+import { ExpansionEngine } from './expansion';
+import { angularDifference, polarDistance, polarToCartesian } from './geometry';
+
+export interface MeasurementChange {
+  initial: number;
+  final: number;
+  change: number;
+  percent: number;
+}
+
+export interface PathMeasurement {
+  length: MeasurementChange; // km
+  area: MeasurementChange | null; // km², when the path encloses a polygon
+  bearing: number | null; // degrees, first → last point
+  years: number;
+}
+
+/**
+ * Total length of a polyline (km), optionally closed back to the first point
+ */
+export function pathLength(points: PolarCoord[], closed: boolean = false): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += polarDistance(points[i - 1], points[i]);
+  }
+  if (closed && points.length > 2) {
+    length += polarDistance(points[points.length - 1], points[0]);
+  }
+  return length;
+}
+
+/**
+ * Enclosed polygon area (km², shoelace formula)
+ */
+export function polygonArea(points: PolarCoord[]): number {
+  if (points.length < 3) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = polarToCartesian(points[i]);
+    const b = polarToCartesian(points[(i + 1) % points.length]);
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+/**
+ * Bearing from one point to another in degrees clockwise from local north
+ * North points toward the pole and east follows increasing θ, matching the
+ * lat/lon projections.
+ */
+export function bearing(from: PolarCoord, to: PolarCoord): number {
+  const a = polarToCartesian(from);
+  const b = polarToCartesian(to);
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+
+  const north = { x: -Math.cos(from.theta), y: -Math.sin(from.theta) };
+  const east = { x: -Math.sin(from.theta), y: Math.cos(from.theta) };
+
+  const degrees = Math.atan2(dx * east.x + dy * east.y, dx * north.x + dy * north.y) * (180 / Math.PI);
+  return (degrees + 360) % 360;
+}
+
+/**
+ * Length of a constant-radius arc (km), along the shorter way round
+ */
+export function arcLength(r: number, theta1: number, theta2: number): number {
+  return Math.abs(angularDifference(theta1, theta2)) * r;
+}
+
+/**
+ * Area of the annulus between two radii (km²)
+ */
+export function ringArea(r1: number, r2: number): number {
+  return Math.PI * Math.abs(r2 * r2 - r1 * r1);
+}
+
+/**
+ * Move points from one simulation time to another under the expansion model
+ */
+export function expandPoints(
+  points: PolarCoord[],
+  expansion: ExpansionEngine,
+  fromTime: number,
+  toTime: number
+): PolarCoord[] {
+  return points.map((p) => {
+    if (p.r === 0) return { ...p };
+    // Back to the reference epoch first, so radius-dependent laws are exact
+    const r0 = expansion.getInitialRadius(p.r, fromTime);
+    return { r: expansion.getExpandedRadius(r0, toTime), theta: p.theta };
+  });
+}
+
+/**
+ * Compare a quantity before and after
+ */
+export function measureChange(initial: number, final: number): MeasurementChange {
+  return {
+    initial,
+    final,
+    change: final - initial,
+    percent: initial !== 0 ? ((final - initial) / initial) * 100 : 0,
+  };
+}
+
+/**
+ * Measure a path at `time` and again `years` later
+ * Three or more points are also treated as a closed polygon for area.
+ */
+export function measurePath(
+  points: PolarCoord[],
+  expansion: ExpansionEngine,
+  time: number,
+  years: number
+): PathMeasurement {
+  const future = expandPoints(points, expansion, time, time + years);
+
+  return {
+    length: measureChange(pathLength(points), pathLength(future)),
+    area: points.length >= 3 ? measureChange(polygonArea(points), polygonArea(future)) : null,
+    bearing: points.length >= 2 ? bearing(points[0], points[points.length - 1]) : null,
+    years,
+  };
+}
+
+/**
+ * Ring area between two reference radii at `time` and `years` later
+ */
+export function measureRingArea(
+  r1: number,
+  r2: number,
+  expansion: ExpansionEngine,
+  time: number,
+  years: number
+): MeasurementChange {
+  const now = [r1, r2].map((r) => expansion.getExpandedRadius(r, time));
+  const later = [r1, r2].map((r) => expansion.getExpandedRadius(r, time + years));
+  return measureChange(ringArea(now[0], now[1]), ringArea(later[0], later[1]));
+}
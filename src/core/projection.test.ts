@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PROJECTIONS,
+  PiecewiseLatitudeProjection,
+  formatLatLon,
+  getProjection,
+} from './projection';
+import { MODEL } from '../constants';
+
+const COORDS = [
+  { lat: 89, lon: 0 },
+  { lat: 51.5, lon: -0.1 },
+  { lat: 23.44, lon: 90 },
+  { lat: 0, lon: 179.5 },
+  { lat: -33.9, lon: 18.4 },
+  { lat: -89, lon: -120 },
+];
+
+describe.each(Object.keys(PROJECTIONS))('%s projection', (name) => {
+  const projection = getProjection(name);
+
+  it('round-trips through forward and inverse', () => {
+    for (const coord of COORDS) {
+      const back = projection.inverse(projection.forward(coord));
+      expect(back.lat).toBeCloseTo(coord.lat, 9);
+      expect(back.lon).toBeCloseTo(coord.lon, 9);
+    }
+  });
+
+  it('puts the north pole at the centre and the south pole on the rim', () => {
+    expect(projection.forward({ lat: 90, lon: 0 }).r).toBeCloseTo(0, 6);
+    expect(projection.forward({ lat: -90, lon: 0 }).r).toBeCloseTo(
+      MODEL.geometry.ANTARCTIC_RIM_RADIUS,
+      6
+    );
+  });
+
+  it('moves outward as latitude falls', () => {
+    const radii = [60, 30, 0, -30, -60].map((lat) => projection.forward({ lat, lon: 0 }).r);
+    for (let i = 1; i < radii.length; i++) {
+      expect(radii[i]).toBeGreaterThan(radii[i - 1]);
+    }
+  });
+
+  it('wraps longitudes into [-180, 180)', () => {
+    const back = projection.inverse(projection.forward({ lat: 10, lon: 270 }));
+    expect(back.lon).toBeCloseTo(-90, 9);
+  });
+});
+
+describe('getProjection', () => {
+  it('rejects unknown and inherited names', () => {
+    expect(() => getProjection('mercator')).toThrow('Unknown projection "mercator"');
+    expect(() => getProjection('constructor')).toThrow('Unknown projection');
+  });
+});
+
+describe('PiecewiseLatitudeProjection', () => {
+  it('requires anchors at both poles', () => {
+    expect(
+      () =>
+        new PiecewiseLatitudeProjection('test', 'Test', [
+          { lat: 90, r: 0 },
+          { lat: 0, r: 10000 },
+        ])
+    ).toThrow('must include both 90° and -90°');
+  });
+
+  it('requires radii to grow toward the south', () => {
+    expect(
+      () =>
+        new PiecewiseLatitudeProjection('test', 'Test', [
+          { lat: 90, r: 0 },
+          { lat: 0, r: 20000 },
+          { lat: -90, r: 10000 },
+        ])
+    ).toThrow('must increase in radius');
+  });
+});
+
+describe('formatLatLon', () => {
+  it('labels hemispheres', () => {
+    expect(formatLatLon({ lat: -33.92, lon: 18.42 })).toBe('33.9°S 18.4°E');
+    expect(formatLatLon({ lat: 51.5, lon: -0.13 }, 2)).toBe('51.50°N 0.13°W');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Projection Module
+ * Maps latitude/longitude to disk polar coordinates and back
+ *
+ * Longitude always becomes the polar angle (θ = lon); projections differ only
+ * in how latitude maps to radius, so every projection is azimuthal about the
+ * North Pole.
+ */
+
+import type { LatLon, PolarCoord } from '../types';
+import { MODEL } from '../constants';
+import { clamp, latitudeToRadius, radiusToLatitude } from './geometry';
+
+export interface Projection {
+  readonly name: string;
+  readonly label: string;
+  forward(coord: LatLon): PolarCoord;
+  inverse(pos: PolarCoord): LatLon;
+}
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+function lonToTheta(lon: number): number {
+  return lon * DEG_TO_RAD;
+}
+
+function thetaToLon(theta: number): number {
+  const lon = theta * RAD_TO_DEG;
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Azimuthal equidistant: radius grows linearly with colatitude
+ * 90°N → 0, 0° → rim/2, 90°S → rim
+ */
+export class AzimuthalEquidistantProjection implements Projection {
+  readonly name = 'azimuthal-equidistant';
+  readonly label = 'Azimuthal equidistant';
+  private rimRadius: number;
+
+  constructor(rimRadius: number = MODEL.geometry.ANTARCTIC_RIM_RADIUS) {
+    this.rimRadius = rimRadius;
+  }
+
+  forward(coord: LatLon): PolarCoord {
+    return {
+      r: latitudeToRadius(clamp(coord.lat, -90, 90), this.rimRadius),
+      theta: lonToTheta(coord.lon),
+    };
+  }
+
+  inverse(pos: PolarCoord): LatLon {
+    return {
+      lat: clamp(radiusToLatitude(pos.r, this.rimRadius), -90, 90),
+      lon: thetaToLon(pos.theta),
+    };
+  }
+}
+
+/**
+ * Azimuthal equal-area: r = rim · sin(colatitude / 2)
+ */
+export class AzimuthalEqualAreaProjection implements Projection {
+  readonly name = 'azimuthal-equal-area';
+  readonly label = 'Azimuthal equal-area';
+  private rimRadius: number;
+
+  constructor(rimRadius: number = MODEL.geometry.ANTARCTIC_RIM_RADIUS) {
+    this.rimRadius = rimRadius;
+  }
+
+  forward(coord: LatLon): PolarCoord {
+    const colatitude = (90 - clamp(coord.lat, -90, 90)) * DEG_TO_RAD;
+    return {
+      r: this.rimRadius * Math.sin(colatitude / 2),
+      theta: lonToTheta(coord.lon),
+    };
+  }
+
+  inverse(pos: PolarCoord): LatLon {
+    const s = clamp(pos.r / this.rimRadius, 0, 1);
+    return {
+      lat: 90 - 2 * Math.asin(s) * RAD_TO_DEG,
+      lon: thetaToLon(pos.theta),
+    };
+  }
+}
+
+export interface LatitudeAnchor {
+  lat: number; // degrees
+  r: number; // km
+}
+
+/**
+ * Piecewise-linear latitude → radius map through a set of anchors
+ * Anchors must run from the pole outward (latitude falling, radius rising).
+ */
+export class PiecewiseLatitudeProjection implements Projection {
+  readonly name: string;
+  readonly label: string;
+  private anchors: LatitudeAnchor[];
+
+  constructor(name: string, label: string, anchors: LatitudeAnchor[]) {
+    const sorted = [...anchors].sort((a, b) => b.lat - a.lat);
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].r <= sorted[i - 1].r) {
+        throw new Error(
+          `Projection anchors must increase in radius toward the south (${sorted[i].lat}° at ${sorted[i].r} km)`
+        );
+      }
+    }
+    if (sorted.length < 2 || sorted[0].lat !== 90 || sorted[sorted.length - 1].lat !== -90) {
+      throw new Error('Projection anchors must include both 90° and -90°');
+    }
+
+    this.name = name;
+    this.label = label;
+    this.anchors = sorted;
+  }
+
+  forward(coord: LatLon): PolarCoord {
+    const lat = clamp(coord.lat, -90, 90);
+    let i = 1;
+    while (i < this.anchors.length - 1 && lat < this.anchors[i].lat) i++;
+
+    const a = this.anchors[i - 1];
+    const b = this.anchors[i];
+    const t = (a.lat - lat) / (a.lat - b.lat);
+    return { r: a.r + (b.r - a.r) * t, theta: lonToTheta(coord.lon) };
+  }
+
+  inverse(pos: PolarCoord): LatLon {
+    const last = this.anchors[this.anchors.length - 1];
+    const r = clamp(pos.r, 0, last.r);
+    let i = 1;
+    while (i < this.anchors.length - 1 && r > this.anchors[i].r) i++;
+
+    const a = this.anchors[i - 1];
+    const b = this.anchors[i];
+    const t = (r - a.r) / (b.r - a.r);
+    return { lat: a.lat + (b.lat - a.lat) * t, lon: thetaToLon(pos.theta) };
+  }
+
+  getAnchors(): LatitudeAnchor[] {
+    return this.anchors.map((anchor) => ({ ...anchor }));
+  }
+}
+
+/**
+ * Piecewise map pinned to the reference circles in MODEL.geometry
+ * TROPIC_CAPRICORN_RADIUS (4100 km) lies inside the equator, so it describes
+ * the sun's turning circle rather than a latitude and is not used as an anchor.
+ */
+export function createTropicAnchoredProjection(): PiecewiseLatitudeProjection {
+  return new PiecewiseLatitudeProjection('tropic-anchored', 'Tropic-anchored', [
+    { lat: 90, r: MODEL.geometry.NORTH_POLE_CENTER.r },
+    { lat: 23.44, r: MODEL.geometry.TROPIC_CANCER_RADIUS },
+    { lat: 0, r: MODEL.geometry.EQUATOR_RADIUS },
+    { lat: -90, r: MODEL.geometry.ANTARCTIC_RIM_RADIUS },
+  ]);
+}
+
+/**
+ * Built-in projections by name
+ */
+export const PROJECTIONS: Record<string, () => Projection> = {
+  'azimuthal-equidistant': () => new AzimuthalEquidistantProjection(),
+  'azimuthal-equal-area': () => new AzimuthalEqualAreaProjection(),
+  'tropic-anchored': () => createTropicAnchoredProjection(),
+};
+
+export const DEFAULT_PROJECTION: Projection = new AzimuthalEquidistantProjection();
+
+/**
+ * Create a built-in projection by name
+ */
+export function getProjection(name: string): Projection {
+  if (!Object.prototype.hasOwnProperty.call(PROJECTIONS, name)) {
+    throw new Error(`Unknown projection "${name}"`);
+  }
+  return PROJECTIONS[name]();
+}
+
+/**
+ * Format a latitude/longitude for readouts, e.g. "33.9°S 18.4°E"
+ */
+export function formatLatLon(coord: LatLon, digits: number = 1): string {
+  const lat = `${Math.abs(coord.lat).toFixed(digits)}°${coord.lat >= 0 ? 'N' : 'S'}`;
+  const lon = `${Math.abs(coord.lon).toFixed(digits)}°${coord.lon >= 0 ? 'E' : 'W'}`;
+  return `${lat} ${lon}`;
+}
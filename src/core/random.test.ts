@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { SeededRandom, createRandom, randomNormal, randomRange, systemRandom } from './random';
+
+const take = (random: { next(): number }, count: number): number[] =>
+  Array.from({ length: count }, () => random.next());
+
+describe('SeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(take(new SeededRandom(42), 10)).toEqual(take(new SeededRandom(42), 10));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(take(new SeededRandom(1), 10)).not.toEqual(take(new SeededRandom(2), 10));
+  });
+
+  it('stays in [0, 1)', () => {
+    for (const value of take(new SeededRandom(7), 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('restarts from the seed on reset', () => {
+    const random = new SeededRandom(99);
+    const first = take(random, 5);
+    random.reset();
+    expect(take(random, 5)).toEqual(first);
+  });
+
+  it('stores seeds as unsigned 32-bit integers', () => {
+    expect(new SeededRandom(-1).getSeed()).toBe(4294967295);
+  });
+});
+
+describe('createRandom', () => {
+  it('returns the system source without a seed', () => {
+    expect(createRandom()).toBe(systemRandom);
+  });
+
+  it('returns a seeded source with a seed', () => {
+    expect(take(createRandom(5), 3)).toEqual(take(new SeededRandom(5), 3));
+  });
+});
+
+describe('randomRange', () => {
+  it('maps samples into [min, max)', () => {
+    const random = new SeededRandom(3);
+    for (let i = 0; i < 100; i++) {
+      const value = randomRange(random, -5, 5);
+      expect(value).toBeGreaterThanOrEqual(-5);
+      expect(value).toBeLessThan(5);
+    }
+  });
+});
+
+describe('randomNormal', () => {
+  it('has roughly the requested mean and spread', () => {
+    const random = new SeededRandom(11);
+    const samples = Array.from({ length: 5000 }, () => randomNormal(random, 10, 2));
+    const mean = samples.reduce((sum, x) => sum + x, 0) / samples.length;
+    const variance = samples.reduce((sum, x) => sum + (x - mean) ** 2, 0) / samples.length;
+    expect(mean).toBeCloseTo(10, 1);
+    expect(Math.sqrt(variance)).toBeCloseTo(2, 1);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Random Number Module
+ * Pluggable, seedable pseudo-random sources for reproducible runs
+ */
+
+export interface RandomSource {
+  /**
+   * Next value in [0, 1)
+   */
+  next(): number;
+}
+
+/**
+ * Non-reproducible source backed by Math.random()
+ */
+export const systemRandom: RandomSource = {
+  next: () => Math.random(),
+};
+
+/**
+ * Mulberry32 generator
+ * Small, fast 32-bit PRNG; the same seed always yields the same sequence
+ */
+export class SeededRandom implements RandomSource {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Restart the sequence from the original seed
+   */
+  reset(): void {
+    this.state = this.seed;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+}
+
+/**
+ * Create a seeded source, or the system source when no seed is given
+ */
+export function createRandom(seed?: number): RandomSource {
+  return seed === undefined ? systemRandom : new SeededRandom(seed);
+}
+
+/**
+ * Pick a fresh 32-bit seed (for runs that should still be replayable later)
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Uniform value in [min, max)
+ */
+export function randomRange(random: RandomSource, min: number, max: number): number {
+  return min + (max - min) * random.next();
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+export function randomNormal(random: RandomSource, mean: number = 0, stdDev: number = 1): number {
+  const u1 = Math.max(random.next(), Number.EPSILON);
+  const u2 = random.next();
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
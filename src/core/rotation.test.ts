@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { PHYSICS } from '../constants';
+import { ExpansionEngine } from './expansion';
+import { MASS_PROFILES, RotationModel, compareLOD } from './rotation';
+
+describe('RotationModel', () => {
+  it('starts from the base day length', () => {
+    const rotation = new RotationModel(new ExpansionEngine());
+    expect(rotation.getInertiaScale(0)).toBeCloseTo(1, 12);
+    expect(rotation.getDayLength(0)).toBeCloseTo(PHYSICS.DAY_LENGTH_BASE, 9);
+    expect(rotation.getLODChange(0)).toBeCloseTo(0, 6);
+  });
+
+  it.each(Object.keys(MASS_PROFILES))('lengthens the day as the %s disk expands', (name) => {
+    const rotation = new RotationModel(new ExpansionEngine(), {
+      profile: MASS_PROFILES[name],
+      tidalBraking: false,
+    });
+    expect(rotation.getInertiaScale(10)).toBeGreaterThan(1);
+    expect(rotation.getDayLength(10)).toBeGreaterThan(PHYSICS.DAY_LENGTH_BASE);
+    expect(rotation.getLODRate(0)).toBeGreaterThan(0);
+  });
+
+  it('applies tidal braking at the calibrated rate without expansion', () => {
+    const rotation = new RotationModel(new ExpansionEngine(0));
+    expect(rotation.getLODChange(100)).toBeCloseTo(100 * PHYSICS.DAY_LENGTH_INCREASE * 1000, 4);
+
+    rotation.setTidalBraking(false);
+    expect(rotation.isTidalBraking()).toBe(false);
+    expect(rotation.getLODChange(100)).toBeCloseTo(0, 9);
+  });
+
+  it('samples a series across the span', () => {
+    const rotation = new RotationModel(new ExpansionEngine());
+    const series = rotation.getSeries(-10, 10, 4);
+    expect(series.map((state) => state.time)).toEqual([-10, -5, 0, 5, 10]);
+    expect(series[2].lodChange).toBeCloseTo(0, 6);
+  });
+});
+
+describe('compareLOD', () => {
+  it('measures both series from the first record', () => {
+    const rotation = new RotationModel(new ExpansionEngine(0));
+    const comparison = compareLOD(rotation, [
+      { year: 1990, lod: 2 },
+      { year: 2000, lod: 1.5 },
+    ]);
+    expect(comparison[0]).toEqual({ year: 1990, observed: 0, model: 0 });
+    expect(comparison[1].observed).toBeCloseTo(-0.5, 12);
+    expect(comparison[1].model).toBeCloseTo(rotation.getLODChange(10), 12);
+  });
+
+  it('returns nothing for an empty record', () => {
+    expect(compareLOD(new RotationModel(new ExpansionEngine()), [])).toEqual([]);
+  });
+});
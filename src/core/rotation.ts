@@ -0,0 +1,189 @@
+/**
+ * Rotation Module
+ * Day length from conservation of angular momentum as the disk expands
+ *
+ * L = Iω. Expansion raises I, and tidal braking removes angular momentum at a
+ * constant torque calibrated so that, without expansion, the day lengthens by
+ * PHYSICS.DAY_LENGTH_INCREASE per year. Integrating dL/dt = τ gives
+ * L(t) = L₀ + τt, so ω(t) = (L₀ + τt) / I(t).
+ */
+
+import type { LODRecord } from '../types';
+import { MODEL, PHYSICS } from '../constants';
+import { ExpansionEngine } from './expansion';
+
+/**
+ * Surface mass density as a function of normalized initial radius (0 = pole, 1 = rim)
+ */
+export interface MassProfile {
+  readonly name: string;
+  readonly label: string;
+  density(x: number): number;
+}
+
+export const MASS_PROFILES: Record<string, MassProfile> = {
+  uniform: {
+    name: 'uniform',
+    label: 'Uniform disk',
+    density: () => 1,
+  },
+  'center-weighted': {
+    name: 'center-weighted',
+    label: 'Center-weighted (1 − x²)',
+    density: (x) => 1 - x * x,
+  },
+  'rim-weighted': {
+    name: 'rim-weighted',
+    label: 'Rim-weighted (ice wall)',
+    density: (x) => 0.2 + Math.exp(-((x - 0.95) ** 2) / 0.002),
+  },
+};
+
+export interface RotationOptions {
+  profile?: MassProfile;
+  tidalBraking?: boolean; // Apply PHYSICS.DAY_LENGTH_INCREASE as a constant torque
+  samples?: number; // Radial rings used to integrate I
+}
+
+export interface RotationState {
+  time: number; // years
+  inertiaScale: number; // I / I₀
+  angularVelocity: number; // rad/s
+  dayLength: number; // hours
+  lodChange: number; // ms relative to t = 0
+}
+
+export interface LODComparison {
+  year: number;
+  observed: number; // ms relative to the reference year
+  model: number; // ms relative to the reference year
+}
+
+const SECONDS_PER_HOUR = 3600;
+const LOD_RATE_STEP = 0.5; // years, for the numerical derivative
+
+export class RotationModel {
+  private expansion: ExpansionEngine;
+  private profile: MassProfile;
+  private tidalBraking: boolean;
+  private samples: number;
+
+  constructor(expansion: ExpansionEngine, options: RotationOptions = {}) {
+    this.expansion = expansion;
+    this.profile = options.profile ?? MASS_PROFILES.uniform;
+    this.tidalBraking = options.tidalBraking ?? true;
+    this.samples = options.samples ?? 64;
+  }
+
+  /**
+   * Moment of inertia relative to t = 0 for the configured mass profile
+   */
+  getInertiaScale(t: number): number {
+    const rim = MODEL.geometry.ANTARCTIC_RIM_RADIUS;
+    const dx = 1 / this.samples;
+    let initial = 0;
+    let current = 0;
+
+    // dm = σ(r₀)·r₀·dr₀, and each ring moves to r(r₀, t)
+    for (let i = 0; i < this.samples; i++) {
+      const x = (i + 0.5) * dx;
+      const r0 = x * rim;
+      const r = this.expansion.getExpandedRadius(r0, t);
+      const mass = this.profile.density(x) * r0;
+      initial += mass * r0 * r0;
+      current += mass * r * r;
+    }
+
+    return current / initial;
+  }
+
+  /**
+   * Angular velocity ω(t) in rad/s
+   */
+  getAngularVelocity(t: number): number {
+    const omega0 = (2 * Math.PI) / (PHYSICS.DAY_LENGTH_BASE * SECONDS_PER_HOUR);
+
+    // Torque per unit I₀ that lengthens a rigid day by DAY_LENGTH_INCREASE per year
+    const braking = this.tidalBraking
+      ? (omega0 * omega0 * PHYSICS.DAY_LENGTH_INCREASE) / (2 * Math.PI)
+      : 0;
+
+    return (omega0 - braking * t) / this.getInertiaScale(t);
+  }
+
+  /**
+   * Day length in hours
+   */
+  getDayLength(t: number): number {
+    return (2 * Math.PI) / this.getAngularVelocity(t) / SECONDS_PER_HOUR;
+  }
+
+  /**
+   * Length-of-day change relative to t = 0, in milliseconds
+   */
+  getLODChange(t: number): number {
+    return (this.getDayLength(t) - PHYSICS.DAY_LENGTH_BASE) * SECONDS_PER_HOUR * 1000;
+  }
+
+  /**
+   * Instantaneous LOD trend in ms per century
+   */
+  getLODRate(t: number): number {
+    const h = LOD_RATE_STEP;
+    return ((this.getLODChange(t + h) - this.getLODChange(t - h)) / (2 * h)) * 100;
+  }
+
+  getState(t: number): RotationState {
+    const angularVelocity = this.getAngularVelocity(t);
+    const dayLength = (2 * Math.PI) / angularVelocity / SECONDS_PER_HOUR;
+    return {
+      time: t,
+      inertiaScale: this.getInertiaScale(t),
+      angularVelocity,
+      dayLength,
+      lodChange: (dayLength - PHYSICS.DAY_LENGTH_BASE) * SECONDS_PER_HOUR * 1000,
+    };
+  }
+
+  /**
+   * Sample the rotation state across a time span
+   */
+  getSeries(start: number, end: number, samples: number = 100): RotationState[] {
+    const series: RotationState[] = [];
+    for (let i = 0; i <= samples; i++) {
+      series.push(this.getState(start + ((end - start) * i) / samples));
+    }
+    return series;
+  }
+
+  setProfile(profile: MassProfile): void {
+    this.profile = profile;
+  }
+
+  getProfile(): MassProfile {
+    return this.profile;
+  }
+
+  setTidalBraking(enabled: boolean): void {
+    this.tidalBraking = enabled;
+  }
+
+  isTidalBraking(): boolean {
+    return this.tidalBraking;
+  }
+}
+
+/**
+ * Line up an observed LOD record with the model
+ * Both series are expressed as change since the first record (t = 0 in the model).
+ */
+export function compareLOD(rotation: RotationModel, records: LODRecord[]): LODComparison[] {
+  if (records.length === 0) return [];
+
+  const reference = records[0];
+  return records.map((record) => ({
+    year: record.year,
+    observed: record.lod - reference.lod,
+    model: rotation.getLODChange(record.year - reference.year),
+  }));
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SCENARIO_VERSION,
+  applyScenario,
+  captureScenario,
+  decodeScenarioHash,
+  encodeScenarioHash,
+  parseScenario,
+  serializeScenario,
+} from './scenario';
+import type { ScenarioDocument, ScenarioView } from './scenario';
+import { Simulation } from './simulation';
+import { getExpansionLaw } from './expansion-laws';
+import { getProjection } from './projection';
+import { ViewMode } from '../types';
+
+const VIEW: ScenarioView = {
+  camera: { x: 120, y: -40, zoom: 2, rotation: 0.5 },
+  view: ViewMode.GPS,
+  layers: [
+    { name: 'earth', enabled: true, opacity: 1, blendMode: 'alpha' },
+    { name: 'gps', enabled: false, opacity: 0.5, blendMode: 'additive' },
+  ],
+};
+
+function createScenario(): ScenarioDocument {
+  const simulation = new Simulation({
+    seed: 321,
+    stationCount: 25,
+    distribution: 'ring-clustered',
+    law: getExpansionLaw('exponential'),
+    projection: getProjection('azimuthal-equal-area'),
+  });
+  simulation.step(12);
+  return captureScenario(simulation, VIEW);
+}
+
+/**
+ * A valid scenario as JSON with some fields replaced
+ */
+function withChanges(changes: Record<string, unknown>): string {
+  const scenario = createScenario();
+  const simulation = { ...scenario.simulation, ...(changes.simulation as object) };
+  return JSON.stringify({ ...scenario, ...changes, simulation });
+}
+
+describe('captureScenario', () => {
+  it('records the simulation and view', () => {
+    const scenario = createScenario();
+    expect(scenario.version).toBe(SCENARIO_VERSION);
+    expect(scenario.simulation).toMatchObject({
+      time: 12,
+      seed: 321,
+      stationCount: 25,
+      distribution: 'ring-clustered',
+      law: { name: 'exponential' },
+      projection: 'azimuthal-equal-area',
+    });
+    expect(scenario.camera).toEqual(VIEW.camera);
+    expect(scenario.layers).toEqual(VIEW.layers);
+  });
+});
+
+describe('parseScenario', () => {
+  it('round-trips a serialized scenario', () => {
+    const scenario = createScenario();
+    expect(parseScenario(serializeScenario(scenario))).toEqual(scenario);
+  });
+
+  it('fills in missing simulation fields', () => {
+    const scenario = parseScenario(
+      JSON.stringify({ version: 1, simulation: { seed: 5 }, camera: VIEW.camera, view: 'gps' })
+    );
+    expect(scenario.simulation).toMatchObject({
+      time: 0,
+      law: { name: 'linear' },
+      projection: 'azimuthal-equidistant',
+      distribution: 'power-bias',
+      massProfile: 'uniform',
+      tidalBraking: true,
+    });
+    expect(scenario.layers).toEqual([]);
+  });
+
+  it('draws a seed when none is given', () => {
+    const scenario = parseScenario(
+      JSON.stringify({ version: 1, simulation: {}, camera: VIEW.camera, view: 'gps' })
+    );
+    expect(Number.isInteger(scenario.simulation.seed)).toBe(true);
+  });
+
+  it('accepts a bare expansion law name', () => {
+    const scenario = parseScenario(withChanges({ simulation: { law: 'piecewise' } }));
+    expect(scenario.simulation.law).toEqual({ name: 'piecewise' });
+  });
+
+  it('rejects an invalid expansion law', () => {
+    expect(() =>
+      parseScenario(withChanges({ simulation: { law: { name: 'custom', expression: 'r0 *' } } }))
+    ).toThrow('Scenario expansion law is invalid');
+  });
+
+  it('falls back to the earth view', () => {
+    expect(parseScenario(withChanges({ view: 'map' })).view).toBe(ViewMode.EARTH);
+  });
+
+  it('rejects malformed documents', () => {
+    expect(() => parseScenario('{')).toThrow('Scenario is not valid JSON');
+    expect(() => parseScenario('{}')).toThrow('Scenario has no version');
+    expect(() => parseScenario(withChanges({ version: SCENARIO_VERSION + 1 }))).toThrow(
+      'newer than supported'
+    );
+  });
+
+  it.each([
+    [{ simulation: { time: 'soon' } }, 'simulation.time must be a number'],
+    [{ simulation: { seed: 1.5 } }, 'simulation.seed must be an integer'],
+    [{ simulation: { reversed: 'no' } }, 'simulation.reversed must be true or false'],
+    [{ simulation: { stationCount: -1 } }, 'simulation.stationCount must be an integer'],
+    [{ simulation: { stationCount: 2.5 } }, 'simulation.stationCount must be an integer'],
+    [{ simulation: { stationCount: 1e9 } }, 'simulation.stationCount must be an integer'],
+    [{ simulation: { law: 'toString' } }, 'Scenario expansion law is invalid'],
+    [{ simulation: { projection: 'mercator' } }, 'Scenario projection is invalid'],
+    [{ simulation: { field: { name: 'monopole' } } }, 'Scenario field model is invalid'],
+    [{ simulation: { field: { name: 'valueOf' } } }, 'Scenario field model is invalid'],
+    [{ simulation: { distribution: 'grid' } }, 'Scenario station distribution "grid"'],
+    [{ simulation: { massProfile: 'constructor' } }, 'Scenario mass profile "constructor"'],
+    [{ camera: { x: 0, y: 0, zoom: 'far', rotation: 0 } }, 'camera must have numeric'],
+    [{ camera: { x: 0, y: 0, zoom: 0, rotation: 0 } }, 'camera zoom must be positive'],
+    [{ layers: {} }, 'Scenario layers must be a list'],
+    [{ layers: [null] }, 'Scenario layer 1 must have a name'],
+    [
+      { layers: [{ name: 'gps', enabled: 1, opacity: 1, blendMode: 'alpha' }] },
+      'enabled must be true or false',
+    ],
+    [
+      { layers: [{ name: 'gps', enabled: true, opacity: 1.5, blendMode: 'alpha' }] },
+      'opacity must be between 0 and 1',
+    ],
+    [
+      { layers: [{ name: 'gps', enabled: true, opacity: 1, blendMode: 'screen' }] },
+      'unknown blend mode "screen"',
+    ],
+  ])('rejects %j', (changes, message) => {
+    expect(() => parseScenario(withChanges(changes))).toThrow(message);
+  });
+});
+
+describe('scenario hash', () => {
+  it('round-trips through the URL hash', () => {
+    const scenario = createScenario();
+    const hash = encodeScenarioHash(scenario);
+    expect(hash).toMatch(/^#scenario=[\w-]+$/);
+    expect(decodeScenarioHash(hash)).toEqual(scenario);
+  });
+
+  it('returns null when the hash holds no scenario', () => {
+    expect(decodeScenarioHash('#other=1')).toBeNull();
+  });
+
+  it('reports corrupted links', () => {
+    expect(() => decodeScenarioHash('#scenario=@@@')).toThrow('Scenario link is corrupted');
+  });
+});
+
+describe('applyScenario', () => {
+  it('reproduces the captured simulation', () => {
+    const scenario = createScenario();
+    const simulation = new Simulation({ seed: 1, stationCount: 5 });
+    applyScenario(simulation, scenario.simulation);
+
+    expect(captureScenario(simulation, VIEW)).toEqual(scenario);
+  });
+
+  it('restores parameterized expansion laws', () => {
+    const law = { name: 'custom', expression: 'r0 * (1 + k * t)^2' };
+    const scenario = parseScenario(withChanges({ simulation: { law } }));
+    const simulation = new Simulation({ seed: 1, stationCount: 5 });
+    applyScenario(simulation, scenario.simulation);
+
+    expect(simulation.getExpansionLaw().toSpec()).toEqual(law);
+  });
+});
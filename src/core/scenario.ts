@@ -0,0 +1,284 @@
+/**
+ * Scenario Module
+ * Versioned, serializable snapshot of a simulation setup and the view onto it
+ *
+ * A scenario captures parameters, not data: observed GPS/LOD files and
+ * imported overlays must be loaded again by the recipient.
+ */
+
+import type { BlendMode, CameraState, SimulationState } from '../types';
+import { BLEND_MODES, ViewMode } from '../types';
+import type { Simulation } from './simulation';
+import { STATION_DISTRIBUTIONS } from './gps';
+import type { StationDistribution } from './gps';
+import { createDefaultState } from './simulation';
+import { createExpansionLaw } from './expansion-laws';
+import type { ExpansionLawSpec } from './expansion-laws';
+import { createFieldModel } from './field-models';
+import type { FieldModelSpec } from './field-models';
+import { getProjection } from './projection';
+import { MASS_PROFILES } from './rotation';
+import { randomSeed } from './random';
+import { MODEL, RENDER_CONFIG } from '../constants';
+
+export const SCENARIO_VERSION = 1;
+const HASH_KEY = 'scenario';
+const MAX_STATION_COUNT = 100000; // More would stall the page generating them
+
+export interface ScenarioLayer {
+  name: string;
+  enabled: boolean;
+  opacity: number;
+  blendMode: BlendMode;
+}
+
+export interface ScenarioSimulation extends SimulationState {
+  reversed: boolean;
+  law: ExpansionLawSpec; // A bare law name is accepted when parsing
+  field: FieldModelSpec;
+  projection: string;
+  seed: number;
+  distribution: StationDistribution;
+  stationCount: number;
+  massProfile: string;
+  tidalBraking: boolean;
+}
+
+export interface ScenarioDocument {
+  version: number;
+  simulation: ScenarioSimulation;
+  camera: CameraState;
+  view: ViewMode;
+  layers: ScenarioLayer[]; // Draw order, bottom first
+}
+
+/**
+ * View-side state the simulation does not own
+ */
+export interface ScenarioView {
+  camera: CameraState;
+  view: ViewMode;
+  layers: ScenarioLayer[];
+}
+
+/**
+ * Capture the current simulation and view as a scenario document
+ */
+export function captureScenario(simulation: Simulation, view: ScenarioView): ScenarioDocument {
+  const rotation = simulation.getRotation();
+
+  return {
+    version: SCENARIO_VERSION,
+    simulation: {
+      ...simulation.getState(),
+      reversed: simulation.isReversed(),
+      law: simulation.getExpansionLaw().toSpec(),
+      field: simulation.getFieldModel().toSpec(),
+      projection: simulation.getProjection().name,
+      seed: simulation.getSeed(),
+      distribution: simulation.getDistribution(),
+      stationCount: simulation.getGPS().getStationCount(),
+      massProfile: rotation.getProfile().name,
+      tidalBraking: rotation.isTidalBraking(),
+    },
+    camera: { ...view.camera },
+    view: view.view,
+    layers: view.layers.map((layer) => ({ ...layer })),
+  };
+}
+
+/**
+ * Apply the simulation part of a scenario
+ * Projection changes are applied here too; callers re-place their own renderers.
+ */
+export function applyScenario(simulation: Simulation, scenario: ScenarioSimulation): void {
+  simulation.setExpansionLaw(createExpansionLaw(scenario.law));
+  simulation.setFieldModel(createFieldModel(scenario.field));
+  if (simulation.getProjection().name !== scenario.projection) {
+    simulation.setProjection(getProjection(scenario.projection));
+  }
+
+  simulation.setExpansionRate(scenario.expansionRate);
+  simulation.setFieldStrength(scenario.fieldStrength);
+  simulation.setTimeScale(scenario.timeScale);
+  simulation.setPaused(scenario.isPaused);
+  simulation.setReversed(scenario.reversed);
+
+  const rotation = simulation.getRotation();
+  rotation.setProfile(MASS_PROFILES[scenario.massProfile]);
+  rotation.setTidalBraking(scenario.tidalBraking);
+
+  simulation.regenerateStations(scenario.seed, scenario.distribution, scenario.stationCount);
+  simulation.setTime(scenario.time);
+}
+
+export function serializeScenario(scenario: ScenarioDocument): string {
+  return JSON.stringify(scenario, null, 2);
+}
+
+/**
+ * Parse and validate a scenario; missing simulation fields take their defaults
+ * (a missing seed is drawn fresh, as for a new simulation)
+ */
+export function parseScenario(text: string): ScenarioDocument {
+  let data: Partial<ScenarioDocument>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Scenario is not valid JSON');
+  }
+
+  if (typeof data?.version !== 'number') {
+    throw new Error('Scenario has no version');
+  }
+  if (data.version > SCENARIO_VERSION) {
+    throw new Error(
+      `Scenario version ${data.version} is newer than supported (${SCENARIO_VERSION})`
+    );
+  }
+  // Older versions are migrated here as the schema evolves
+
+  const simulation = { ...createDefaultState(), ...data.simulation } as ScenarioSimulation;
+  const numeric: Array<keyof SimulationState> = [
+    'time',
+    'timeScale',
+    'expansionRate',
+    'fieldStrength',
+  ];
+  for (const key of numeric) {
+    if (!Number.isFinite(simulation[key])) {
+      throw new Error(`Scenario field simulation.${key} must be a number`);
+    }
+  }
+  const seed = simulation.seed ?? randomSeed();
+  if (!Number.isInteger(seed)) {
+    throw new Error('Scenario field simulation.seed must be an integer');
+  }
+  const flags: Array<keyof ScenarioSimulation> = ['isPaused', 'reversed', 'tidalBraking'];
+  for (const key of flags) {
+    if (simulation[key] !== undefined && typeof simulation[key] !== 'boolean') {
+      throw new Error(`Scenario field simulation.${key} must be true or false`);
+    }
+  }
+
+  const stationCount = simulation.stationCount ?? RENDER_CONFIG.GPS_STATION_COUNT;
+  if (!Number.isInteger(stationCount) || stationCount < 0 || stationCount > MAX_STATION_COUNT) {
+    throw new Error(
+      `Scenario field simulation.stationCount must be an integer from 0 to ${MAX_STATION_COUNT}`
+    );
+  }
+
+  // Resolve every name now so a bad scenario cannot half-apply
+  const field: FieldModelSpec = simulation.field ?? { name: MODEL.electromagnetic.FIELD_TYPE };
+  const rawLaw: ExpansionLawSpec | string | undefined = simulation.law;
+  const law = typeof rawLaw === 'string' ? { name: rawLaw } : (rawLaw ?? { name: 'linear' });
+  const projection = simulation.projection ?? 'azimuthal-equidistant';
+  const distribution = simulation.distribution ?? 'power-bias';
+  const massProfile = simulation.massProfile ?? 'uniform';
+  resolveName('field model', () => createFieldModel(field));
+  resolveName('expansion law', () => createExpansionLaw(law));
+  resolveName('projection', () => getProjection(projection));
+  if (!STATION_DISTRIBUTIONS.includes(distribution)) {
+    throw new Error(`Scenario station distribution "${distribution}" is unknown`);
+  }
+  if (!Object.prototype.hasOwnProperty.call(MASS_PROFILES, massProfile)) {
+    throw new Error(`Scenario mass profile "${massProfile}" is unknown`);
+  }
+
+  const camera = data.camera;
+  if (!camera || ![camera.x, camera.y, camera.zoom, camera.rotation].every(Number.isFinite)) {
+    throw new Error('Scenario camera must have numeric x, y, zoom and rotation');
+  }
+  if (camera.zoom <= 0) {
+    throw new Error('Scenario camera zoom must be positive');
+  }
+
+  const layers = data.layers ?? [];
+  if (!Array.isArray(layers)) {
+    throw new Error('Scenario layers must be a list');
+  }
+  layers.forEach(validateLayer);
+
+  const view = Object.values(ViewMode).includes(data.view as ViewMode)
+    ? (data.view as ViewMode)
+    : ViewMode.EARTH;
+
+  return {
+    version: SCENARIO_VERSION,
+    simulation: {
+      ...simulation,
+      isPaused: Boolean(simulation.isPaused),
+      reversed: Boolean(simulation.reversed),
+      seed,
+      law,
+      field,
+      projection,
+      distribution,
+      stationCount,
+      massProfile,
+      tidalBraking: simulation.tidalBraking ?? true,
+    },
+    camera,
+    view,
+    layers,
+  };
+}
+
+/**
+ * Run a registry lookup, reporting failures as an invalid scenario
+ */
+function resolveName(label: string, resolve: () => unknown): void {
+  try {
+    resolve();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Scenario ${label} is invalid: ${reason}`);
+  }
+}
+
+function validateLayer(layer: ScenarioLayer, index: number): void {
+  const where = `Scenario layer ${index + 1}`;
+  if (typeof layer !== 'object' || layer === null || typeof layer.name !== 'string') {
+    throw new Error(`${where} must have a name`);
+  }
+  if (typeof layer.enabled !== 'boolean') {
+    throw new Error(`${where} (${layer.name}) enabled must be true or false`);
+  }
+  if (!Number.isFinite(layer.opacity) || layer.opacity < 0 || layer.opacity > 1) {
+    throw new Error(`${where} (${layer.name}) opacity must be between 0 and 1`);
+  }
+  if (!BLEND_MODES.includes(layer.blendMode)) {
+    throw new Error(`${where} (${layer.name}) has unknown blend mode "${layer.blendMode}"`);
+  }
+}
+
+/**
+ * Encode a scenario for the URL hash (base64url JSON)
+ */
+export function encodeScenarioHash(scenario: ScenarioDocument): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(scenario));
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  const encoded = btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `#${HASH_KEY}=${encoded}`;
+}
+
+/**
+ * Decode a scenario from a URL hash; returns null when the hash holds none
+ */
+export function decodeScenarioHash(hash: string): ScenarioDocument | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(HASH_KEY);
+  if (!encoded) return null;
+
+  let binary: string;
+  try {
+    binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  } catch {
+    throw new Error('Scenario link is corrupted');
+  }
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return parseScenario(new TextDecoder().decode(bytes));
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { Simulation, createDefaultState } from './simulation';
+import type { SimulationSnapshot } from '../types';
+import { MODEL, PHYSICS } from '../constants';
+
+const positions = (simulation: Simulation) =>
+  simulation
+    .getGPS()
+    .getStations()
+    .map((station) => ({ ...station.position }));
+
+describe('Simulation', () => {
+  it('generates the same station network for the same seed', () => {
+    const a = new Simulation({ seed: 1234, stationCount: 50 });
+    const b = new Simulation({ seed: 1234, stationCount: 50 });
+    expect(a.getSeed()).toBe(1234);
+    expect(positions(a)).toEqual(positions(b));
+  });
+
+  it('generates a different network for a different seed', () => {
+    const a = new Simulation({ seed: 1, stationCount: 50 });
+    const b = new Simulation({ seed: 2, stationCount: 50 });
+    expect(positions(a)).not.toEqual(positions(b));
+  });
+
+  it('steps deterministically with a fixed seed', () => {
+    const a = new Simulation({ seed: 7, stationCount: 20 });
+    const b = new Simulation({ seed: 7, stationCount: 20 });
+    for (let i = 0; i < 10; i++) {
+      a.step(0.5);
+      b.step(0.5);
+    }
+    expect(a.getSnapshot()).toEqual(b.getSnapshot());
+    expect(positions(a)).toEqual(positions(b));
+  });
+
+  it('ends a seeded run where the same number of steps would', () => {
+    const stepped = new Simulation({ seed: 7, stationCount: 20 });
+    for (let i = 0; i < 4; i++) stepped.step(2.5);
+
+    const ran = new Simulation({ seed: 7, stationCount: 20 });
+    ran.run(10, 2.5);
+    expect(ran.getSnapshot()).toEqual(stepped.getSnapshot());
+  });
+
+  it('steps by a fixed number of years', () => {
+    const simulation = new Simulation({ stationCount: 10 });
+    simulation.step(2.5);
+    simulation.step(2.5);
+    expect(simulation.getState().time).toBeCloseTo(5, 12);
+  });
+
+  it('reports one snapshot per step of a run', () => {
+    const snapshots: SimulationSnapshot[] = [];
+    const simulation = new Simulation({ stationCount: 10 });
+    simulation.run(10, 2.5, (snapshot) => snapshots.push(snapshot));
+
+    expect(snapshots.map((snapshot) => snapshot.time)).toEqual([2.5, 5, 7.5, 10]);
+    expect(snapshots[3].stationCount).toBe(10);
+  });
+
+  it('shortens the last step to end exactly at the run length', () => {
+    const snapshots: SimulationSnapshot[] = [];
+    const simulation = new Simulation({ stationCount: 10 });
+    simulation.run(10, 4, (snapshot) => snapshots.push(snapshot));
+
+    expect(snapshots.map((snapshot) => snapshot.time)).toEqual([4, 8, 10]);
+  });
+
+  it('does not add a sliver step for inexact step sizes', () => {
+    const simulation = new Simulation({ stationCount: 0 });
+    let steps = 0;
+    simulation.run(0.3, 0.1, () => steps++);
+
+    expect(steps).toBe(3);
+    expect(simulation.getState().time).toBeCloseTo(0.3, 12);
+  });
+
+  it('gives the same model quantities for the same run', () => {
+    const a = new Simulation({ stationCount: 10 });
+    const b = new Simulation({ stationCount: 10 });
+    a.run(50, 5);
+    b.run(50, 5);
+
+    const { rimRadius, dayLength, sunPosition } = a.getSnapshot();
+    expect(b.getSnapshot()).toMatchObject({ rimRadius, dayLength, sunPosition });
+  });
+
+  it('grows the rim radius as time runs forward', () => {
+    const simulation = new Simulation({ stationCount: 10 });
+    const before = simulation.getSnapshot().rimRadius;
+    expect(before).toBeCloseTo(MODEL.geometry.ANTARCTIC_RIM_RADIUS, 9);
+
+    simulation.run(100, 10);
+    expect(simulation.getSnapshot().rimRadius).toBeGreaterThan(before);
+  });
+
+  it('rejects non-positive run steps', () => {
+    const simulation = new Simulation({ stationCount: 10 });
+    expect(() => simulation.run(10, 0)).toThrow('Simulation step must be positive');
+  });
+
+  it('advances by wall-clock time unless paused', () => {
+    const simulation = new Simulation({ stationCount: 10, state: { timeScale: 2 } });
+    const years = simulation.advance(1000);
+    expect(years).toBeCloseTo(2 * PHYSICS.SECONDS_TO_YEARS, 15);
+
+    simulation.setPaused(true);
+    expect(simulation.advance(1000)).toBe(0);
+    expect(simulation.getState().time).toBe(years);
+  });
+
+  it('rewinds to a smaller disk and returns stations on the way back', () => {
+    const simulation = new Simulation({ seed: 3, stationCount: 20 });
+    const start = positions(simulation);
+
+    simulation.rewind(500);
+    expect(simulation.getState().time).toBe(-500);
+    const rim = simulation.getSnapshot().rimRadius;
+    expect(rim).toBeGreaterThan(0);
+    expect(rim).toBeLessThan(MODEL.geometry.ANTARCTIC_RIM_RADIUS);
+
+    simulation.run(500, 50);
+    positions(simulation).forEach((position, i) => {
+      expect(position.r).toBeCloseTo(start[i].r, 6);
+      expect(position.theta).toBeCloseTo(start[i].theta, 12);
+    });
+  });
+
+  it('runs the clock backwards when reversed', () => {
+    const simulation = new Simulation({ stationCount: 10 });
+    simulation.setReversed(true);
+    expect(simulation.isReversed()).toBe(true);
+    expect(simulation.advance(1000)).toBeCloseTo(-PHYSICS.SECONDS_TO_YEARS, 15);
+    expect(simulation.getState().time).toBeLessThan(0);
+  });
+
+  it('reports zero displacement statistics without stations', () => {
+    const simulation = new Simulation({ stationCount: 0 });
+    simulation.step(10);
+    expect(simulation.getSnapshot().displacement).toEqual({ mean: 0, max: 0, min: 0, stdDev: 0 });
+  });
+
+  it('returns to the defaults on reset', () => {
+    const simulation = new Simulation({ stationCount: 10 });
+    simulation.setExpansionRate(10);
+    simulation.step(20);
+    simulation.reset();
+
+    expect(simulation.getState()).toEqual(createDefaultState());
+  });
+});
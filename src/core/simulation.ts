@@ -0,0 +1,337 @@
+/**
+ * Simulation Module
+ * Headless façade that owns the simulation state and advances every core module
+ */
+
+import type { PolarCoord, ProbeSample, SimulationState, SimulationSnapshot } from '../types';
+import { MODEL, PHYSICS, RENDER_CONFIG } from '../constants';
+import { ExpansionEngine } from './expansion';
+import type { ExpansionLaw } from './expansion-laws';
+import { RotationModel } from './rotation';
+import { EMFieldSolver } from './em-field';
+import type { FieldModel } from './field-models';
+import { SolarSimulator } from './solar';
+import { ClimateModel } from './climate';
+import { GPSSimulator } from './gps';
+import type { StationDistribution } from './gps';
+import { SeededRandom, randomSeed } from './random';
+import { DEFAULT_PROJECTION } from './projection';
+import { polarToCartesian } from './geometry';
+import type { Projection } from './projection';
+
+const RUN_TOLERANCE = 1e-9; // Fraction of a step ignored when counting run steps
+
+export interface SimulationOptions {
+  state?: Partial<SimulationState>;
+  stationCount?: number;
+  seed?: number; // Station network seed (random but recorded when omitted)
+  distribution?: StationDistribution;
+  projection?: Projection; // lat/lon ⇄ disk mapping shared by all modules
+  law?: ExpansionLaw; // Defaults to the linear law
+  fieldModel?: FieldModel; // Defaults to MODEL.electromagnetic.FIELD_TYPE
+}
+
+/**
+ * Create the default simulation state
+ */
+export function createDefaultState(): SimulationState {
+  return {
+    time: 0,
+    timeScale: 1.0,
+    expansionRate: MODEL.expansion.RATE * 100,
+    fieldStrength: 1.0,
+    isPaused: false,
+  };
+}
+
+export class Simulation {
+  private state: SimulationState;
+  private seed: number;
+  private distribution: StationDistribution;
+  private projection: Projection;
+  private direction: 1 | -1 = 1; // -1 runs the clock backwards
+
+  private expansion: ExpansionEngine;
+  private rotation: RotationModel;
+  private emField: EMFieldSolver;
+  private solar: SolarSimulator;
+  private climate: ClimateModel;
+  private gps: GPSSimulator;
+
+  constructor(options: SimulationOptions = {}) {
+    this.state = { ...createDefaultState(), ...options.state };
+    this.seed = options.seed ?? randomSeed();
+    this.distribution = options.distribution ?? 'power-bias';
+    this.projection = options.projection ?? DEFAULT_PROJECTION;
+
+    const k = this.state.expansionRate / 100; // cm/yr to m/yr
+    this.expansion = new ExpansionEngine(k, options.law);
+    this.rotation = new RotationModel(this.expansion);
+    this.emField = new EMFieldSolver(
+      MODEL.electromagnetic.VORTEX_STRENGTH_B0 * this.state.fieldStrength,
+      options.fieldModel
+    );
+    this.solar = new SolarSimulator();
+    this.climate = new ClimateModel(this.projection);
+    this.gps = new GPSSimulator(k, new SeededRandom(this.seed));
+    this.gps.setExpansion(this.expansion);
+    this.gps.setProjection(this.projection);
+
+    this.gps.generateStations(options.stationCount ?? RENDER_CONFIG.GPS_STATION_COUNT, {
+      distribution: this.distribution,
+    });
+    if (this.state.time !== 0) {
+      this.gps.setTime(this.state.time);
+    }
+  }
+
+  /**
+   * Advance all modules by a fixed number of simulated years
+   * Ignores pause and time scale so runs are deterministic
+   */
+  step(dtYears: number): void {
+    this.setTime(this.state.time + dtYears);
+  }
+
+  /**
+   * Advance by wall-clock milliseconds, honouring pause, time scale and direction
+   * Returns the number of simulated years that elapsed (negative when reversed)
+   */
+  advance(deltaMs: number): number {
+    if (this.state.isPaused) return 0;
+
+    const dtYears =
+      (deltaMs / 1000) * this.state.timeScale * PHYSICS.SECONDS_TO_YEARS * this.direction;
+    this.step(dtYears);
+    return dtYears;
+  }
+
+  /**
+   * Run a fixed-step loop, calling back after each step
+   * A final shorter step lands exactly on `years` when dtYears does not divide it.
+   */
+  run(years: number, dtYears: number, onStep?: (snapshot: SimulationSnapshot) => void): void {
+    if (dtYears <= 0) {
+      throw new Error('Simulation step must be positive');
+    }
+
+    const steps = Math.ceil(years / dtYears - RUN_TOLERANCE);
+    for (let i = 0; i < steps; i++) {
+      this.step(Math.min(dtYears, years - i * dtYears));
+      if (onStep) onStep(this.getSnapshot());
+    }
+  }
+
+  /**
+   * Capture derived quantities at the current time
+   */
+  getSnapshot(): SimulationSnapshot {
+    const time = this.state.time;
+    const stats =
+      this.gps.getStationCount() > 0
+        ? this.gps.getDisplacementStats()
+        : { mean: 0, max: 0, min: 0, stdDev: 0 };
+
+    return {
+      time,
+      expansionRate: this.state.expansionRate,
+      fieldStrength: this.emField.getFieldStrength(),
+      rimRadius: this.expansion.getExpandedRadius(MODEL.geometry.ANTARCTIC_RIM_RADIUS, time),
+      dayLength: this.rotation.getDayLength(time),
+      lodRate: this.rotation.getLODRate(time),
+      sunPosition: this.solar.getSunPositionPolar(this.getTimeInDays()),
+      stationCount: this.gps.getStationCount(),
+      displacement: stats,
+    };
+  }
+
+  /**
+   * Sample every module at a single point on the disk
+   */
+  probe(position: PolarCoord): ProbeSample {
+    const cart = polarToCartesian(position);
+    const days = this.getTimeInDays();
+
+    return {
+      position: { ...position },
+      location: this.projection.inverse(position),
+      fieldMagnitude: this.emField.getFieldMagnitude(position),
+      illumination: this.solar.getIlluminationIntensity(cart, days),
+      dayLength: this.solar.getDayLengthHours(cart, days),
+      climateZone: this.climate.getClimateZone(position.r),
+      temperatureAnomaly: this.climate.getTemperatureAnomaly(position.r, this.state.time),
+      expansionVelocity: this.expansion.getExpansionVelocity(position.r, this.state.time),
+    };
+  }
+
+  /**
+   * Simulation time expressed in days (used by the solar module)
+   */
+  getTimeInDays(): number {
+    return this.state.time * MODEL.solar.ORBITAL_PERIOD;
+  }
+
+  getState(): Readonly<SimulationState> {
+    return this.state;
+  }
+
+  /**
+   * Seed of the station network (pass back in to replay the run)
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getDistribution(): StationDistribution {
+    return this.distribution;
+  }
+
+  getExpansionLaw(): ExpansionLaw {
+    return this.expansion.getLaw();
+  }
+
+  setExpansionLaw(law: ExpansionLaw): void {
+    this.expansion.setLaw(law);
+    this.gps.setTime(this.state.time);
+  }
+
+  getFieldModel(): FieldModel {
+    return this.emField.getModel();
+  }
+
+  /**
+   * Switch the EM field model; streamlines and field textures must be
+   * regenerated by the caller
+   */
+  setFieldModel(model: FieldModel): void {
+    this.emField.setModel(model);
+  }
+
+  getProjection(): Projection {
+    return this.projection;
+  }
+
+  /**
+   * Switch the lat/lon projection for every module
+   * Event markers and imported data must be regenerated by the caller
+   */
+  setProjection(projection: Projection): void {
+    this.projection = projection;
+    this.climate.setProjection(projection);
+    this.gps.setProjection(projection);
+  }
+
+  /**
+   * Regenerate the station network from a seed and distribution
+   * Stations start at the current time with zero displacement
+   */
+  regenerateStations(
+    seed: number,
+    distribution: StationDistribution = this.distribution,
+    count: number = this.gps.getStationCount()
+  ): void {
+    this.seed = seed;
+    this.distribution = distribution;
+    this.gps.setRandom(new SeededRandom(seed));
+    this.gps.generateStations(count, { distribution });
+  }
+
+  /**
+   * Jump to an absolute time; negative times reconstruct the past
+   */
+  setTime(time: number): void {
+    this.state.time = time;
+    this.gps.setTime(time);
+  }
+
+  /**
+   * Jump to `years` before the reference epoch
+   */
+  rewind(years: number): void {
+    this.setTime(-Math.abs(years));
+  }
+
+  setReversed(reversed: boolean): void {
+    this.direction = reversed ? -1 : 1;
+  }
+
+  isReversed(): boolean {
+    return this.direction === -1;
+  }
+
+  setTimeScale(timeScale: number): void {
+    this.state.timeScale = timeScale;
+  }
+
+  /**
+   * Set expansion rate (cm/year)
+   */
+  setExpansionRate(rate: number): void {
+    this.state.expansionRate = rate;
+    this.expansion.setExpansionRate(rate / 100);
+    this.gps.setExpansionRate(rate / 100);
+  }
+
+  /**
+   * Set field strength as a multiple of B₀
+   */
+  setFieldStrength(multiplier: number): void {
+    this.state.fieldStrength = multiplier;
+    this.emField.setFieldStrength(MODEL.electromagnetic.VORTEX_STRENGTH_B0 * multiplier);
+  }
+
+  setPaused(paused: boolean): void {
+    this.state.isPaused = paused;
+  }
+
+  togglePause(): boolean {
+    this.state.isPaused = !this.state.isPaused;
+    return this.state.isPaused;
+  }
+
+  /**
+   * Restore default parameters and return stations to their initial positions
+   */
+  reset(): void {
+    const defaults = createDefaultState();
+    this.state.time = defaults.time;
+    this.state.timeScale = defaults.timeScale;
+    this.setExpansionRate(defaults.expansionRate);
+    this.setFieldStrength(defaults.fieldStrength);
+    this.direction = 1;
+    this.gps.reset();
+  }
+
+  /**
+   * Current rim radius relative to the reference epoch
+   * Exact at the rim only; geometry inside it should expand with getExpandedRadius
+   */
+  getExpansionScale(): number {
+    const rim = MODEL.geometry.ANTARCTIC_RIM_RADIUS;
+    return this.expansion.getExpandedRadius(rim, this.state.time) / rim;
+  }
+
+  getExpansion(): ExpansionEngine {
+    return this.expansion;
+  }
+
+  getRotation(): RotationModel {
+    return this.rotation;
+  }
+
+  getEMField(): EMFieldSolver {
+    return this.emField;
+  }
+
+  getSolar(): SolarSimulator {
+    return this.solar;
+  }
+
+  getClimate(): ClimateModel {
+    return this.climate;
+  }
+
+  getGPS(): GPSSimulator {
+    return this.gps;
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { Vector2 } from '../types';
+import { traceStreamlines } from './streamlines';
+
+const OPTIONS = { maxRadius: 1000, separation: 100, minLength: 100 };
+
+const radius = (p: Vector2) => Math.hypot(p.x, p.y);
+
+describe('traceStreamlines', () => {
+  it('traces straight, evenly spaced lines through a uniform field', () => {
+    const lines = traceStreamlines(() => ({ x: 1, y: 0 }), OPTIONS);
+    expect(lines.length).toBeGreaterThanOrEqual(15);
+
+    const heights = lines.map((line) => line.points[0].y).sort((a, b) => a - b);
+    for (const line of lines) {
+      for (const point of line.points) {
+        expect(point.y).toBeCloseTo(line.points[0].y, 6);
+        expect(radius(point)).toBeLessThanOrEqual(1000 + 1e-6);
+      }
+    }
+    for (let i = 1; i < heights.length; i++) {
+      expect(heights[i] - heights[i - 1]).toBeGreaterThanOrEqual(50);
+    }
+  });
+
+  it('ends lines on the rim', () => {
+    const lines = traceStreamlines(() => ({ x: 1, y: 0 }), OPTIONS);
+    const ends = lines.flatMap((line) => [line.points[0], line.points.at(-1)!]);
+    ends.forEach((point) => expect(radius(point)).toBeCloseTo(1000, 6));
+  });
+
+  it('closes loops around a vortex', () => {
+    const lines = traceStreamlines((x, y) => ({ x: -y, y: x }), OPTIONS);
+    expect(lines.length).toBeGreaterThan(3);
+
+    for (const line of lines) {
+      const r = radius(line.points[0]);
+      line.points.forEach((point) => expect(radius(point)).toBeCloseTo(r, 0));
+      expect(line.points.at(-1)).toEqual(line.points[0]);
+    }
+  });
+
+  it('draws nothing where the field vanishes', () => {
+    expect(traceStreamlines(() => ({ x: 0, y: 0 }), OPTIONS)).toEqual([]);
+  });
+
+  it('rejects a non-positive separation', () => {
+    expect(() => traceStreamlines(() => ({ x: 1, y: 0 }), { separation: 0 })).toThrow(
+      'Streamline separation must be positive'
+    );
+  });
+});
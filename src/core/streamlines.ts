@@ -0,0 +1,339 @@
+/**
+ * Streamlines Module
+ * Evenly-spaced field lines (Jobard & Lefer, 1997) over the whole disk
+ *
+ * Lines are traced both ways from a seed with adaptive Dormand–Prince RK45
+ * steps along the unit field direction, and stop at the rim, where the field
+ * vanishes, or when they come within `testRatio × separation` of another line
+ * (or of themselves, which closes loops). New seeds are placed one separation
+ * either side of every finished line, then a sweep over the disk fills any
+ * region the seed queue never reached.
+ */
+
+import type { Vector2, Streamline } from '../types';
+import { MODEL, RENDER_CONFIG } from '../constants';
+
+export type FieldFunction = (x: number, y: number) => Vector2;
+
+export interface StreamlineOptions {
+  separation: number; // km between neighbouring lines
+  testRatio: number; // Lines stop at testRatio × separation from others (0–1)
+  maxRadius: number; // km; lines are clipped at the rim
+  tolerance: number; // km of local error allowed per step
+  minStep: number; // km
+  maxStep: number; // km; capped below the test distance so lines cannot skip past each other
+  minLength: number; // km; shorter lines are dropped
+  maxPoints: number; // Per line, each direction
+  seeds: Vector2[]; // Tried first (e.g. vortex centres); a disk sweep follows
+}
+
+export const DEFAULT_STREAMLINE_OPTIONS: StreamlineOptions = {
+  separation: RENDER_CONFIG.STREAMLINE_SEPARATION,
+  testRatio: 0.5,
+  maxRadius: MODEL.geometry.ANTARCTIC_RIM_RADIUS,
+  tolerance: 0.5,
+  minStep: 0.5,
+  maxStep: 400,
+  minLength: RENDER_CONFIG.STREAMLINE_SEPARATION,
+  maxPoints: 4000,
+  seeds: [{ x: 0, y: 0 }],
+};
+
+// Dormand–Prince 5(4) tableau
+const A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+const MIN_FIELD = 1e-30; // Below this the direction is undefined
+const SEED_SLACK = 0.99; // Seeds may sit this fraction of a separation from a line
+
+interface GridPoint {
+  x: number;
+  y: number;
+  line: number;
+  s: number; // Arc length along the line (negative on the backward half)
+}
+
+/**
+ * Uniform grid over the disk for nearest-line queries
+ */
+class PointGrid {
+  private cells: Map<number, GridPoint[]> = new Map();
+  private cellSize: number;
+  private size: number;
+  private origin: number;
+
+  constructor(extent: number, cellSize: number) {
+    this.cellSize = cellSize;
+    this.origin = -extent;
+    this.size = Math.ceil((2 * extent) / cellSize) + 1;
+  }
+
+  add(point: GridPoint): void {
+    const key = this.key(this.cell(point.x), this.cell(point.y));
+    const cell = this.cells.get(key);
+    if (cell) cell.push(point);
+    else this.cells.set(key, [point]);
+  }
+
+  removeLine(line: number, points: Vector2[]): void {
+    for (const point of points) {
+      const key = this.key(this.cell(point.x), this.cell(point.y));
+      const cell = this.cells.get(key);
+      if (cell) this.cells.set(key, cell.filter((p) => p.line !== line));
+    }
+  }
+
+  /**
+   * Closest point within `radius` that passes `accept`, or null
+   */
+  nearest(
+    x: number,
+    y: number,
+    radius: number,
+    accept?: (p: GridPoint) => boolean
+  ): GridPoint | null {
+    const reach = Math.ceil(radius / this.cellSize);
+    const cx = this.cell(x);
+    const cy = this.cell(y);
+    let best: GridPoint | null = null;
+    let bestDistance = radius;
+
+    for (let j = cy - reach; j <= cy + reach; j++) {
+      for (let i = cx - reach; i <= cx + reach; i++) {
+        const cell = this.cells.get(this.key(i, j));
+        if (!cell) continue;
+        for (const p of cell) {
+          const distance = Math.hypot(p.x - x, p.y - y);
+          if (distance < bestDistance && (!accept || accept(p))) {
+            best = p;
+            bestDistance = distance;
+          }
+        }
+      }
+    }
+    return best;
+  }
+
+  private cell(value: number): number {
+    return Math.floor((value - this.origin) / this.cellSize);
+  }
+
+  private key(i: number, j: number): number {
+    return j * this.size + i;
+  }
+}
+
+/**
+ * Trace evenly-spaced streamlines of a field
+ */
+export function traceStreamlines(
+  field: FieldFunction,
+  options: Partial<StreamlineOptions> = {}
+): Streamline[] {
+  const opts = { ...DEFAULT_STREAMLINE_OPTIONS, ...options };
+  const separation = opts.separation;
+  if (!(separation > 0)) {
+    throw new Error('Streamline separation must be positive');
+  }
+  const testDistance = separation * Math.min(1, Math.max(0, opts.testRatio));
+  const maxStep = Math.min(opts.maxStep, testDistance * 0.5);
+  const minStep = Math.min(opts.minStep, maxStep);
+  // Own points closer than this along the line never count as a collision
+  const selfGap = Math.PI * testDistance;
+  const rim = opts.maxRadius;
+
+  const grid = new PointGrid(rim, separation);
+  const lines: Vector2[][] = [];
+  const queue: Vector2[][] = [];
+  let lineId = 0;
+
+  const direction = (x: number, y: number, sign: number): Vector2 | null => {
+    const b = field(x, y);
+    const length = Math.hypot(b.x, b.y);
+    if (!(length > MIN_FIELD) || !Number.isFinite(length)) return null;
+    return { x: (sign * b.x) / length, y: (sign * b.y) / length };
+  };
+
+  const isFree = (p: Vector2, distance: number): boolean =>
+    Math.hypot(p.x, p.y) < rim &&
+    direction(p.x, p.y, 1) !== null &&
+    grid.nearest(p.x, p.y, distance) === null;
+
+  /**
+   * One adaptive RK45 step; returns the new point and the next step size
+   */
+  const step = (p: Vector2, h: number, sign: number): { point: Vector2; next: number } | null => {
+    for (;;) {
+      const k: Vector2[] = [];
+      for (let stage = 0; stage < 7; stage++) {
+        let x = p.x;
+        let y = p.y;
+        A[stage].forEach((a, j) => {
+          x += h * a * k[j].x;
+          y += h * a * k[j].y;
+        });
+        const d = direction(x, y, sign);
+        if (!d) return null;
+        k.push(d);
+      }
+
+      let errX = 0;
+      let errY = 0;
+      let x = p.x;
+      let y = p.y;
+      for (let i = 0; i < 7; i++) {
+        x += h * B5[i] * k[i].x;
+        y += h * B5[i] * k[i].y;
+        errX += h * (B5[i] - B4[i]) * k[i].x;
+        errY += h * (B5[i] - B4[i]) * k[i].y;
+      }
+      const error = Math.hypot(errX, errY);
+      const scale = error > 0 ? 0.9 * Math.pow(opts.tolerance / error, 0.2) : 5;
+      const next = Math.min(maxStep, Math.max(minStep, h * Math.min(5, Math.max(0.2, scale))));
+
+      if (error <= opts.tolerance || h <= minStep) {
+        return { point: { x, y }, next };
+      }
+      h = next;
+    }
+  };
+
+  /**
+   * Integrate one way from the seed; returns points after the seed and whether the line closed
+   */
+  const integrate = (
+    seed: Vector2,
+    id: number,
+    sign: number
+  ): { points: Vector2[]; closed: boolean } => {
+    const points: Vector2[] = [];
+    let p = seed;
+    let s = 0;
+    let h = maxStep;
+
+    while (points.length < opts.maxPoints) {
+      const result = step(p, h, sign);
+      if (!result) break;
+      const q = result.point;
+      const length = Math.hypot(q.x - p.x, q.y - p.y);
+      if (length === 0) break;
+      s += length;
+      h = result.next;
+
+      if (Math.hypot(q.x, q.y) >= rim) {
+        points.push(clipToRim(p, q, rim));
+        break;
+      }
+
+      const hit = grid.nearest(q.x, q.y, testDistance, (other) =>
+        other.line !== id || Math.abs(other.s - sign * s) > selfGap
+      );
+      if (hit) {
+        // Forward line meeting its own seed: a closed loop
+        const closed = hit.line === id && sign > 0 && Math.abs(hit.s) <= testDistance;
+        if (closed) points.push({ ...seed });
+        return { points, closed };
+      }
+
+      points.push(q);
+      grid.add({ x: q.x, y: q.y, line: id, s: sign * s });
+      p = q;
+    }
+    return { points, closed: false };
+  };
+
+  const traceFrom = (seed: Vector2): void => {
+    const id = lineId++;
+    grid.add({ x: seed.x, y: seed.y, line: id, s: 0 });
+
+    const forward = integrate(seed, id, 1);
+    const backward = forward.closed ? { points: [] } : integrate(seed, id, -1);
+    const points = [...backward.points.reverse(), seed, ...forward.points];
+
+    if (polylineLength(points) < opts.minLength) {
+      grid.removeLine(id, points);
+      return;
+    }
+    lines.push(points);
+    queue.push(points);
+  };
+
+  /**
+   * Seed new lines one separation either side of each queued line
+   */
+  const drainQueue = (): void => {
+    while (queue.length > 0) {
+      const line = queue.shift()!;
+      let travelled = separation;
+      for (let i = 1; i < line.length; i++) {
+        const a = line[i - 1];
+        const b = line[i];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        travelled += length;
+        if (travelled < separation * 0.5 || length === 0) continue;
+        travelled = 0;
+
+        const nx = -(b.y - a.y) / length;
+        const ny = (b.x - a.x) / length;
+        for (const side of [1, -1]) {
+          const candidate = { x: b.x + side * nx * separation, y: b.y + side * ny * separation };
+          if (isFree(candidate, separation * SEED_SLACK)) traceFrom(candidate);
+        }
+      }
+    }
+  };
+
+  for (const seed of opts.seeds) {
+    // Start just off each centre, where the field direction is defined
+    const start = { x: seed.x + testDistance, y: seed.y };
+    if (isFree(start, separation * SEED_SLACK)) traceFrom(start);
+    drainQueue();
+  }
+
+  // Sweep the disk for regions the queue never reached
+  for (let y = -rim + separation / 2; y < rim; y += separation) {
+    for (let x = -rim + separation / 2; x < rim; x += separation) {
+      const candidate = { x, y };
+      if (isFree(candidate, separation * SEED_SLACK)) {
+        traceFrom(candidate);
+        drainQueue();
+      }
+    }
+  }
+
+  return lines.map((points, i) => ({
+    points,
+    color: `rgba(92, 107, 192, ${0.3 + (i % 3) * 0.2})`,
+    thickness: 1,
+  }));
+}
+
+function polylineLength(points: Vector2[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+/**
+ * Point where segment p → q (p inside, q outside) crosses the rim circle
+ */
+function clipToRim(p: Vector2, q: Vector2, rim: number): Vector2 {
+  const dx = q.x - p.x;
+  const dy = q.y - p.y;
+  const a = dx * dx + dy * dy;
+  const b = 2 * (p.x * dx + p.y * dy);
+  const c = p.x * p.x + p.y * p.y - rim * rim;
+  const t = (-b + Math.sqrt(Math.max(0, b * b - 4 * a * c))) / (2 * a);
+  return { x: p.x + t * dx, y: p.y + t * dy };
+}
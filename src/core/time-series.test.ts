@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { runTimeSeries, timeSeriesToCSV } from './time-series';
+import { NAMED_LOCATIONS } from '../data/locations';
+
+describe('runTimeSeries', () => {
+  it('samples t = 0 and every step after it', () => {
+    const result = runTimeSeries({ years: 10, step: 2, stationCount: 5 });
+    expect(result.samples.map((sample) => sample.time)).toEqual([0, 2, 4, 6, 8, 10]);
+    expect(result.parameters).toMatchObject({ years: 10, step: 2, stationCount: 5 });
+  });
+
+  it('ends on the requested year when the step does not divide it', () => {
+    const result = runTimeSeries({
+      years: 10,
+      step: 4,
+      stationCount: 0,
+      locations: NAMED_LOCATIONS.slice(0, 1),
+    });
+    expect(result.samples.map((sample) => sample.time)).toEqual([0, 4, 8, 10]);
+    expect(result.climate[0].trend.map((point) => point.time)).toEqual([0, 4, 8, 10]);
+  });
+
+  it('grows the rim faster at a higher expansion rate', () => {
+    const slow = runTimeSeries({ years: 100, step: 100, stationCount: 0, expansionRate: 1 });
+    const fast = runTimeSeries({ years: 100, step: 100, stationCount: 0, expansionRate: 10 });
+    expect(fast.samples[1].rimRadius).toBeGreaterThan(slow.samples[1].rimRadius);
+    expect(fast.parameters.expansionRate).toBe(10);
+  });
+
+  it('gives each location one climate sample per row', () => {
+    const result = runTimeSeries({
+      years: 6,
+      step: 2,
+      stationCount: 0,
+      locations: NAMED_LOCATIONS.slice(0, 2),
+    });
+    expect(result.climate).toHaveLength(2);
+    for (const series of result.climate) {
+      expect(series.trend.map((point) => point.time)).toEqual([0, 2, 4, 6]);
+    }
+  });
+
+  it('rejects non-positive steps', () => {
+    expect(() => runTimeSeries({ years: 10, step: 0 })).toThrow(
+      'Time series step must be positive'
+    );
+  });
+});
+
+describe('timeSeriesToCSV', () => {
+  it('writes one row per sample with per-location columns', () => {
+    const result = runTimeSeries({
+      years: 2,
+      step: 1,
+      stationCount: 0,
+      locations: NAMED_LOCATIONS.slice(0, 1),
+    });
+    const lines = timeSeriesToCSV(result).trimEnd().split('\n');
+    const id = NAMED_LOCATIONS[0].id;
+
+    expect(lines[0]).toBe(
+      'time,rimRadius,dayLength,lodRate,displacementMean,displacementMax,displacementMin,' +
+        `displacementStdDev,${id}_anomaly,${id}_zone`
+    );
+    expect(lines).toHaveLength(4);
+    expect(lines[1].split(',')).toHaveLength(10);
+  });
+});
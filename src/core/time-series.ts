@@ -0,0 +1,163 @@
+/**
+ * Time Series Module
+ * Drives a headless simulation at a fixed step and collects derived quantities
+ */
+
+import type { PolarCoord, SimulationState } from '../types';
+import { ClimateZone } from '../types';
+import { Simulation } from './simulation';
+import type { StationDistribution } from './gps';
+import { locationPosition } from '../data/locations';
+import type { NamedLocation } from '../data/locations';
+import type { Projection } from './projection';
+import type { ExpansionLaw } from './expansion-laws';
+
+export interface TimeSeriesOptions {
+  years: number;
+  step: number; // years per sample
+  expansionRate?: number; // cm/year
+  fieldStrength?: number; // B0 multiplier
+  stationCount?: number;
+  seed?: number;
+  distribution?: StationDistribution;
+  projection?: Projection;
+  law?: ExpansionLaw;
+  locations?: NamedLocation[];
+}
+
+export interface TimeSeriesSample {
+  time: number;
+  rimRadius: number;
+  dayLength: number;
+  lodRate: number;
+  displacementMean: number;
+  displacementMax: number;
+  displacementMin: number;
+  displacementStdDev: number;
+}
+
+export interface ClimateSeries {
+  location: NamedLocation;
+  position: PolarCoord;
+  trend: Array<{ time: number; anomaly: number; zone: ClimateZone }>;
+}
+
+export interface TimeSeriesResult {
+  parameters: Pick<SimulationState, 'expansionRate' | 'fieldStrength'> & {
+    years: number;
+    step: number;
+    stationCount: number;
+    seed: number;
+    distribution: StationDistribution;
+    projection: string;
+    law: string;
+  };
+  samples: TimeSeriesSample[];
+  climate: ClimateSeries[];
+}
+
+/**
+ * Run a scenario and collect one sample per step (including t = 0)
+ */
+export function runTimeSeries(options: TimeSeriesOptions): TimeSeriesResult {
+  if (options.step <= 0) {
+    throw new Error('Time series step must be positive');
+  }
+
+  const state: Partial<SimulationState> = {};
+  if (options.expansionRate !== undefined) state.expansionRate = options.expansionRate;
+  if (options.fieldStrength !== undefined) state.fieldStrength = options.fieldStrength;
+
+  const simulation = new Simulation({
+    state,
+    stationCount: options.stationCount,
+    seed: options.seed,
+    distribution: options.distribution,
+    projection: options.projection,
+    law: options.law,
+  });
+
+  const samples: TimeSeriesSample[] = [toSample(simulation)];
+  simulation.run(options.years, options.step, () => {
+    samples.push(toSample(simulation));
+  });
+
+  // One climate sample per simulation sample so rows line up
+  const model = simulation.getClimate();
+  const climate = (options.locations ?? []).map((location) => {
+    const position = locationPosition(location, simulation.getProjection());
+    return {
+      location,
+      position,
+      trend: samples.map(({ time }) => ({
+        time,
+        anomaly: model.getTemperatureAnomaly(position.r, time),
+        zone: model.getClimateZone(position.r),
+      })),
+    };
+  });
+
+  const finalState = simulation.getState();
+  return {
+    parameters: {
+      expansionRate: finalState.expansionRate,
+      fieldStrength: finalState.fieldStrength,
+      years: options.years,
+      step: options.step,
+      stationCount: simulation.getGPS().getStationCount(),
+      seed: simulation.getSeed(),
+      distribution: simulation.getDistribution(),
+      projection: simulation.getProjection().name,
+      law: simulation.getExpansionLaw().name,
+    },
+    samples,
+    climate,
+  };
+}
+
+function toSample(simulation: Simulation): TimeSeriesSample {
+  const snapshot = simulation.getSnapshot();
+  return {
+    time: snapshot.time,
+    rimRadius: snapshot.rimRadius,
+    dayLength: snapshot.dayLength,
+    lodRate: snapshot.lodRate,
+    displacementMean: snapshot.displacement.mean,
+    displacementMax: snapshot.displacement.max,
+    displacementMin: snapshot.displacement.min,
+    displacementStdDev: snapshot.displacement.stdDev,
+  };
+}
+
+/**
+ * Flatten a time series into CSV, one row per sample
+ * Climate anomalies and zones are appended as per-location columns
+ */
+export function timeSeriesToCSV(result: TimeSeriesResult): string {
+  const columns: Array<keyof TimeSeriesSample> = [
+    'time',
+    'rimRadius',
+    'dayLength',
+    'lodRate',
+    'displacementMean',
+    'displacementMax',
+    'displacementMin',
+    'displacementStdDev',
+  ];
+
+  const header: string[] = [...columns];
+  for (const series of result.climate) {
+    header.push(`${series.location.id}_anomaly`, `${series.location.id}_zone`);
+  }
+
+  const rows = result.samples.map((sample, i) => {
+    const cells = columns.map((column) => String(sample[column]));
+    for (const series of result.climate) {
+      const point = series.trend[i];
+      cells.push(point ? String(point.anomaly) : '', point ? ClimateZone[point.zone] : '');
+    }
+    return cells.join(',');
+  });
+
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
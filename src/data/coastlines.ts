@@ -0,0 +1,92 @@
+/**
+ * Coarse Continent Outlines
+ * Hand-simplified (~2–5°) landmass outlines for orientation when no detailed
+ * GeoJSON has been loaded. Positions are [longitude, latitude].
+ */
+
+import type { GeoJSONFeature, GeoJSONFeatureCollection, GeoJSONPosition } from './geojson';
+
+function landmass(name: string, ring: GeoJSONPosition[]): GeoJSONFeature {
+  return {
+    type: 'Feature',
+    properties: { name },
+    geometry: { type: 'Polygon', coordinates: [ring] },
+  };
+}
+
+export const COARSE_COASTLINES: GeoJSONFeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    landmass('Africa', [
+      [-17, 21], [-16, 28], [-10, 32], [-6, 36], [10, 37], [11, 33], [20, 31], [32, 31],
+      [35, 28], [43, 12], [51, 12], [51, 10], [40, -3], [40, -15], [35, -24], [32, -29],
+      [27, -34], [20, -35], [18, -33], [15, -27], [12, -17], [13, -6], [9, -1], [9, 4],
+      [4, 6], [-4, 5], [-8, 4], [-13, 8], [-17, 14], [-17, 21],
+    ]),
+    landmass('Eurasia', [
+      [-10, 36], [-9, 43], [-2, 44], [-5, 48], [2, 51], [8, 54], [10, 58], [5, 62],
+      [15, 69], [25, 71], [40, 68], [60, 70], [80, 73], [105, 78], [140, 72], [170, 70],
+      [180, 66], [160, 60], [155, 58], [142, 53], [140, 48], [132, 43], [128, 39], [127, 35],
+      [121, 31], [122, 25], [110, 21], [108, 16], [109, 11], [105, 9], [100, 13], [99, 8],
+      [103, 1], [98, 8], [98, 16], [94, 17], [91, 22], [86, 20], [80, 15], [77, 8],
+      [73, 16], [72, 21], [67, 25], [57, 25], [56, 27], [50, 30], [48, 30], [51, 24],
+      [56, 26], [59, 22], [52, 16], [43, 13], [39, 21], [35, 28], [34, 31], [36, 36],
+      [30, 36], [27, 37], [26, 40], [23, 40], [22, 37], [19, 40], [13, 45], [18, 40],
+      [16, 38], [12, 42], [8, 44], [3, 43], [0, 39], [-2, 37], [-6, 37], [-10, 36],
+    ]),
+    landmass('North America', [
+      [-168, 66], [-162, 70], [-140, 70], [-125, 70], [-110, 68], [-95, 72], [-82, 70],
+      [-80, 63], [-95, 58], [-90, 55], [-80, 52], [-78, 58], [-70, 60], [-64, 60], [-56, 52],
+      [-60, 47], [-66, 44], [-70, 42], [-74, 40], [-76, 35], [-81, 31], [-80, 25], [-82, 28],
+      [-84, 30], [-90, 30], [-97, 27], [-97, 21], [-92, 19], [-87, 21], [-88, 16], [-84, 15],
+      [-83, 10], [-80, 9], [-78, 8], [-80, 7], [-86, 12], [-92, 14], [-96, 16], [-105, 20],
+      [-106, 23], [-112, 29], [-109, 23], [-112, 25], [-115, 30], [-117, 33], [-121, 35],
+      [-124, 40], [-124, 47], [-130, 55], [-140, 60], [-150, 61], [-158, 58], [-165, 60],
+      [-168, 66],
+    ]),
+    landmass('South America', [
+      [-78, 8], [-72, 12], [-62, 11], [-52, 5], [-50, 0], [-44, -2], [-35, -5], [-39, -13],
+      [-41, -22], [-48, -26], [-53, -34], [-58, -38], [-63, -41], [-65, -45], [-68, -50],
+      [-69, -55], [-74, -52], [-73, -42], [-71, -30], [-70, -18], [-76, -14], [-81, -6],
+      [-80, -2], [-77, 4], [-78, 8],
+    ]),
+    landmass('Australia', [
+      [114, -22], [114, -26], [115, -34], [118, -35], [124, -34], [131, -31], [138, -35],
+      [140, -38], [146, -39], [150, -37], [153, -32], [153, -25], [146, -19], [142, -11],
+      [141, -17], [136, -12], [132, -11], [129, -15], [122, -18], [114, -22],
+    ]),
+    landmass('Greenland', [
+      [-73, 78], [-60, 82], [-30, 83], [-20, 80], [-20, 70], [-30, 68], [-43, 60], [-50, 64],
+      [-55, 70], [-60, 76], [-73, 78],
+    ]),
+    landmass('Great Britain', [
+      [-5, 50], [1, 51], [2, 53], [0, 54], [-2, 56], [-2, 58], [-5, 58.5], [-6, 56], [-5, 55],
+      [-3, 54], [-4.5, 52], [-5, 50],
+    ]),
+    landmass('Japan', [
+      [130, 31], [132, 34], [135, 34], [140, 35], [141, 38], [142, 42], [145, 44], [141, 45],
+      [140, 42], [139, 38], [136, 36], [132, 35], [130, 33], [130, 31],
+    ]),
+    landmass('Madagascar', [[49, -12], [50, -16], [47, -25], [44, -24], [44, -17], [49, -12]]),
+    landmass('New Zealand', [
+      [172, -34], [175, -37], [178, -38], [175, -41], [172, -41], [168, -46], [167, -45],
+      [171, -42], [172, -34],
+    ]),
+    landmass('Borneo', [
+      [109, 2], [111, -3], [116, -4], [118, 1], [119, 5], [117, 7], [113, 3], [109, 2],
+    ]),
+    landmass('Sumatra', [[95, 5], [98, 4], [104, -2], [106, -6], [102, -4], [98, 0], [95, 5]]),
+    {
+      type: 'Feature',
+      properties: { name: 'Antarctic coast' },
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [-180, -78], [-150, -76], [-120, -73], [-90, -72], [-70, -68], [-60, -64], [-60, -70],
+          [-40, -78], [-20, -73], [0, -70], [30, -69], [60, -67], [90, -66], [120, -66],
+          [150, -68], [170, -72], [180, -78],
+        ],
+      },
+    },
+  ],
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { GPSStation } from '../types';
+import { getProjection } from '../core/projection';
+import { ClimateModel } from '../core/climate';
+import {
+  climateZonesToGeoJSON,
+  geoJSONToOverlays,
+  mergeCollections,
+  stationsToGeoJSON,
+  streamlinesToGeoJSON,
+} from './geojson-adapter';
+import { parseGeoJSON } from './geojson';
+
+const projection = getProjection('azimuthal-equidistant');
+
+function station(): GPSStation {
+  const position = projection.forward({ lat: 45, lon: 30 });
+  return {
+    id: 'GPS001',
+    position,
+    initialPosition: position,
+    velocity: { x: 0.02 * Math.cos(position.theta), y: 0.02 * Math.sin(position.theta) },
+    displacement: { x: -0.001 * Math.cos(position.theta), y: -0.001 * Math.sin(position.theta) },
+  };
+}
+
+describe('stationsToGeoJSON', () => {
+  it('places stations at their projected lat/lon', () => {
+    const [feature] = stationsToGeoJSON([station()], projection, 5).features;
+    expect(feature.id).toBe('GPS001');
+    expect(feature.geometry).toEqual({ type: 'Point', coordinates: [30, 45] });
+    expect(feature.properties).toMatchObject({ layer: 'gps-stations', name: 'GPS001', time: 5 });
+  });
+
+  it('reports outward motion as southward velocity and displacement in metres', () => {
+    const [feature] = stationsToGeoJSON([station()], projection).features;
+    expect(feature.properties?.velocity_north).toBeCloseTo(-0.02, 6);
+    expect(feature.properties?.velocity_east).toBeCloseTo(0, 6);
+    expect(feature.properties?.displacement_north).toBeCloseTo(1, 3);
+    expect(feature.properties).not.toHaveProperty('velocity_up');
+  });
+});
+
+describe('overlay exports', () => {
+  it('drops streamlines shorter than two points', () => {
+    const data = streamlinesToGeoJSON(
+      [
+        { points: [{ x: 1000, y: 0 }] },
+        {
+          points: [
+            { x: 1000, y: 0 },
+            { x: 2000, y: 0 },
+          ],
+        },
+      ],
+      projection
+    );
+    expect(data.features).toHaveLength(1);
+    expect(data.features[0].geometry?.type).toBe('LineString');
+  });
+
+  it('closes each climate zone ring', () => {
+    const climate = new ClimateModel(projection);
+    const data = climateZonesToGeoJSON(climate, projection);
+    expect(data.features).toHaveLength(climate.getZoneBoundaries().length);
+
+    const geometry = data.features[0].geometry;
+    if (geometry?.type !== 'LineString') throw new Error('expected a LineString');
+    expect(geometry.coordinates[0][0]).toBeCloseTo(geometry.coordinates.at(-1)![0], 5);
+    expect(geometry.coordinates[0][1]).toBeCloseTo(geometry.coordinates.at(-1)![1], 5);
+  });
+
+  it('merges collections in order', () => {
+    const a = stationsToGeoJSON([station()], projection);
+    const b = climateZonesToGeoJSON(new ClimateModel(projection), projection);
+    expect(mergeCollections(a, b).features).toEqual([...a.features, ...b.features]);
+  });
+});
+
+describe('geoJSONToOverlays', () => {
+  it('turns drawable features into named overlays', () => {
+    const data = parseGeoJSON(
+      JSON.stringify({
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            properties: { name: 'Route' },
+            geometry: {
+              type: 'LineString',
+              coordinates: [
+                [0, 0],
+                [10, 10],
+              ],
+            },
+          },
+          {
+            type: 'Feature',
+            id: 7,
+            properties: null,
+            geometry: {
+              type: 'MultiPoint',
+              coordinates: [
+                [1, 2],
+                [3, 4],
+              ],
+            },
+          },
+          { type: 'Feature', properties: {}, geometry: null },
+        ],
+      })
+    );
+    const overlays = geoJSONToOverlays(data);
+
+    expect(overlays.map((overlay) => [overlay.id, overlay.name])).toEqual([
+      ['overlay-0', 'Route'],
+      ['7', '7'],
+    ]);
+    expect(overlays[1].points).toEqual([
+      { lat: 2, lon: 1 },
+      { lat: 4, lon: 3 },
+    ]);
+  });
+});
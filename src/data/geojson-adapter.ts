@@ -0,0 +1,251 @@
+/**
+ * GeoJSON Adapter
+ * Exports simulation overlays as GeoJSON for GIS tools and imports user
+ * features back as custom overlays
+ *
+ * Disk positions are converted to lat/lon with the active projection; every
+ * feature also carries its disk coordinates (`disk_r` km, `disk_theta` degrees)
+ * so exports from different projections can be reconciled.
+ */
+
+import type {
+  ClimateEvent,
+  GPSStation,
+  LatLon,
+  PolarCoord,
+  Streamline,
+  Vector2,
+  Vector3,
+} from '../types';
+import type { Projection } from '../core/projection';
+import type { ClimateModel } from '../core/climate';
+import { cartesianToPolar, normalizeAngle } from '../core/geometry';
+import { PHYSICS } from '../constants';
+import { geometryToPaths, geometryToPoints, latLonToPosition } from './geojson';
+import type { GeoJSONFeature, GeoJSONFeatureCollection, GeoJSONPosition } from './geojson';
+
+const COORDINATE_DIGITS = 5; // ~1 m at the equator
+const RING_SEGMENTS = 180;
+
+export interface CustomOverlay {
+  id: string;
+  name: string;
+  points: LatLon[];
+  paths: LatLon[][]; // Lines and polygon rings
+  properties: Record<string, unknown>;
+}
+
+function round(value: number, digits: number = COORDINATE_DIGITS): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function toPosition(pos: PolarCoord, projection: Projection): GeoJSONPosition {
+  const [lon, lat] = latLonToPosition(projection.inverse(pos));
+  return [round(lon), round(lat)];
+}
+
+function diskProperties(pos: PolarCoord): Record<string, number> {
+  return {
+    disk_r: round(pos.r, 3),
+    disk_theta: round((normalizeAngle(pos.theta) * 180) / Math.PI, 3),
+  };
+}
+
+/**
+ * Split a disk vector into local north/east components
+ * North points toward the pole (−r̂), east along +θ
+ */
+function toNorthEast(vec: Vector2, theta: number): { north: number; east: number } {
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  return {
+    north: -(vec.x * cos + vec.y * sin),
+    east: -vec.x * sin + vec.y * cos,
+  };
+}
+
+function collection(features: GeoJSONFeature[]): GeoJSONFeatureCollection {
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * GPS stations as Points with velocity (m/yr) and displacement (m) properties
+ */
+export function stationsToGeoJSON(
+  stations: GPSStation[],
+  projection: Projection,
+  time: number = 0
+): GeoJSONFeatureCollection {
+  return collection(
+    stations.map((station) => {
+      const velocity = toNorthEast(station.velocity, station.position.theta);
+      const displacement = toNorthEast(
+        station.displacement ?? { x: 0, y: 0 },
+        station.position.theta
+      );
+      const properties: Record<string, unknown> = {
+        layer: 'gps-stations',
+        name: station.name ?? station.id,
+        time,
+        ...diskProperties(station.position),
+        velocity_north: round(velocity.north, 6),
+        velocity_east: round(velocity.east, 6),
+        speed: round(Math.hypot(velocity.north, velocity.east), 6),
+        displacement_north: round(displacement.north * PHYSICS.KM_TO_METERS, 3),
+        displacement_east: round(displacement.east * PHYSICS.KM_TO_METERS, 3),
+      };
+      if (station.verticalVelocity !== undefined) {
+        properties.velocity_up = station.verticalVelocity;
+      }
+      if (station.verticalDisplacement !== undefined) {
+        properties.displacement_up = station.verticalDisplacement;
+      }
+
+      return {
+        type: 'Feature',
+        id: station.id,
+        geometry: { type: 'Point', coordinates: toPosition(station.position, projection) },
+        properties,
+      };
+    })
+  );
+}
+
+/**
+ * Field-line streamlines (disk km) as LineStrings
+ */
+export function streamlinesToGeoJSON(
+  streamlines: Streamline[],
+  projection: Projection
+): GeoJSONFeatureCollection {
+  return collection(
+    streamlines
+      .filter((streamline) => streamline.points.length >= 2)
+      .map((streamline, index) => ({
+        type: 'Feature',
+        id: `streamline-${index}`,
+        geometry: {
+          type: 'LineString',
+          coordinates: streamline.points.map((p) => toPosition(cartesianToPolar(p), projection)),
+        },
+        properties: { layer: 'streamlines', index },
+      }))
+  );
+}
+
+/**
+ * Sun track as a LineString; points are sub-solar disk positions
+ */
+export function sunPathToGeoJSON(
+  path: Vector3[],
+  projection: Projection,
+  name: string = 'annual'
+): GeoJSONFeatureCollection {
+  const coordinates = path.map((p) => toPosition(cartesianToPolar(p), projection));
+  if (coordinates.length > 1) coordinates.push(coordinates[0]);
+
+  return collection([
+    {
+      type: 'Feature',
+      id: `sun-path-${name}`,
+      geometry: { type: 'LineString', coordinates },
+      properties: {
+        layer: 'sun-path',
+        name,
+        altitude: path.length > 0 ? round(path[0].z, 1) : null,
+      },
+    },
+  ]);
+}
+
+/**
+ * Climate zone boundaries as closed LineString rings
+ */
+export function climateZonesToGeoJSON(
+  climate: ClimateModel,
+  projection: Projection
+): GeoJSONFeatureCollection {
+  return collection(
+    climate.getZoneBoundaries().map(({ name, radius }) => {
+      const coordinates: GeoJSONPosition[] = [];
+      for (let i = 0; i <= RING_SEGMENTS; i++) {
+        const theta = (i / RING_SEGMENTS) * 2 * Math.PI;
+        coordinates.push(toPosition({ r: radius, theta }, projection));
+      }
+      return {
+        type: 'Feature',
+        id: `climate-${name}`,
+        geometry: { type: 'LineString', coordinates },
+        properties: { layer: 'climate-zones', name, disk_r: radius },
+      };
+    })
+  );
+}
+
+/**
+ * Climate events as Points; geographic sites are kept when known
+ */
+export function climateEventsToGeoJSON(
+  events: ClimateEvent[],
+  projection: Projection
+): GeoJSONFeatureCollection {
+  return collection(
+    events.map((event) => {
+      const coordinates = event.coordinates
+        ? latLonToPosition(event.coordinates)
+        : toPosition(event.location, projection);
+      return {
+        type: 'Feature',
+        id: event.id,
+        geometry: { type: 'Point', coordinates },
+        properties: {
+          layer: 'climate-events',
+          type: event.type,
+          date: event.date.toISOString().slice(0, 10),
+          severity: event.severity,
+          description: event.description ?? null,
+          rarity: event.rarity ?? null,
+          ...diskProperties(event.location),
+        },
+      };
+    })
+  );
+}
+
+/**
+ * Concatenate several collections into one
+ */
+export function mergeCollections(
+  ...collections: GeoJSONFeatureCollection[]
+): GeoJSONFeatureCollection {
+  return collection(collections.flatMap((c) => c.features));
+}
+
+/**
+ * Serialize a collection for download
+ */
+export function stringifyGeoJSON(data: GeoJSONFeatureCollection): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Turn user Point / LineString / Polygon features into custom overlays
+ * Features without drawable geometry are skipped.
+ */
+export function geoJSONToOverlays(data: GeoJSONFeatureCollection): CustomOverlay[] {
+  const overlays: CustomOverlay[] = [];
+
+  data.features.forEach((feature, index) => {
+    const points = geometryToPoints(feature.geometry);
+    const paths = geometryToPaths(feature.geometry).filter((path) => path.length >= 2);
+    if (points.length === 0 && paths.length === 0) return;
+
+    const properties = feature.properties ?? {};
+    const id = feature.id !== undefined ? String(feature.id) : `overlay-${index}`;
+    const name = typeof properties.name === 'string' ? properties.name : id;
+    overlays.push({ id, name, points, paths, properties });
+  });
+
+  return overlays;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { collectionToPaths, densifyPath, geometryToPaths, parseGeoJSON } from './geojson';
+import { COARSE_COASTLINES } from './coastlines';
+
+describe('parseGeoJSON', () => {
+  it('returns feature collections as they are', () => {
+    const collection = parseGeoJSON('{"type":"FeatureCollection","features":[]}');
+    expect(collection).toEqual({ type: 'FeatureCollection', features: [] });
+  });
+
+  it('wraps single features and bare geometries', () => {
+    const feature = parseGeoJSON(
+      '{"type":"Feature","geometry":{"type":"Point","coordinates":[1,2]},"properties":{}}'
+    );
+    expect(feature.features).toHaveLength(1);
+
+    const geometry = parseGeoJSON('{"type":"LineString","coordinates":[[0,0],[1,1]]}');
+    expect(geometry.features[0]).toEqual({
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [1, 1],
+        ],
+      },
+      properties: null,
+    });
+  });
+
+  it('rejects invalid input', () => {
+    expect(() => parseGeoJSON('{')).toThrow('GeoJSON file is not valid JSON');
+    expect(() => parseGeoJSON('{"type":"FeatureCollection"}')).toThrow(
+      'FeatureCollection has no features array'
+    );
+    expect(() => parseGeoJSON('{"type":"Topology"}')).toThrow(
+      'Unsupported GeoJSON type "Topology"'
+    );
+  });
+});
+
+describe('geometryToPaths', () => {
+  it('collects lines and rings as lat/lon paths', () => {
+    const paths = geometryToPaths({
+      type: 'GeometryCollection',
+      geometries: [
+        { type: 'Point', coordinates: [5, 5] },
+        {
+          type: 'LineString',
+          coordinates: [
+            [10, 20],
+            [11, 21],
+          ],
+        },
+        {
+          type: 'MultiPolygon',
+          coordinates: [
+            [
+              [
+                [0, 0],
+                [1, 0],
+                [1, 1],
+                [0, 0],
+              ],
+            ],
+            [
+              [
+                [2, 2],
+                [3, 2],
+                [2, 2],
+              ],
+            ],
+          ],
+        },
+      ],
+    });
+    expect(paths).toHaveLength(3);
+    expect(paths[0]).toEqual([
+      { lat: 20, lon: 10 },
+      { lat: 21, lon: 11 },
+    ]);
+    expect(geometryToPaths(null)).toEqual([]);
+  });
+
+  it('finds paths in the bundled coastlines', () => {
+    expect(collectionToPaths(COARSE_COASTLINES).length).toBeGreaterThan(0);
+  });
+});
+
+describe('densifyPath', () => {
+  it('splits long segments into steps no wider than maxStep', () => {
+    const path = densifyPath([
+      { lat: 0, lon: 0 },
+      { lat: 0, lon: 10 },
+    ]);
+    expect(path).toHaveLength(11);
+    expect(path[5]).toEqual({ lat: 0, lon: 5 });
+  });
+
+  it('crosses the antimeridian the short way', () => {
+    const path = densifyPath(
+      [
+        { lat: 0, lon: 170 },
+        { lat: 0, lon: -170 },
+      ],
+      5
+    );
+    expect(path.map((point) => point.lon)).toEqual([170, 175, 180, 185, 190]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * GeoJSON Types and Helpers
+ * Minimal RFC 7946 subset used for geography layers and overlays
+ *
+ * Positions are [longitude, latitude] in degrees; altitude is ignored.
+ */
+
+import type { LatLon } from '../types';
+
+export type GeoJSONPosition = [number, number] | [number, number, number];
+
+export type GeoJSONGeometry =
+  | { type: 'Point'; coordinates: GeoJSONPosition }
+  | { type: 'MultiPoint'; coordinates: GeoJSONPosition[] }
+  | { type: 'LineString'; coordinates: GeoJSONPosition[] }
+  | { type: 'MultiLineString'; coordinates: GeoJSONPosition[][] }
+  | { type: 'Polygon'; coordinates: GeoJSONPosition[][] }
+  | { type: 'MultiPolygon'; coordinates: GeoJSONPosition[][][] }
+  | { type: 'GeometryCollection'; geometries: GeoJSONGeometry[] };
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  geometry: GeoJSONGeometry | null;
+  properties: Record<string, unknown> | null;
+  id?: string | number;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
+const GEOMETRY_TYPES = new Set([
+  'Point',
+  'MultiPoint',
+  'LineString',
+  'MultiLineString',
+  'Polygon',
+  'MultiPolygon',
+  'GeometryCollection',
+]);
+
+/**
+ * Parse GeoJSON text into a FeatureCollection
+ * Bare geometries and single features are wrapped.
+ */
+export function parseGeoJSON(text: string): GeoJSONFeatureCollection {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('GeoJSON file is not valid JSON');
+  }
+
+  const object = data as { type?: string };
+  if (object?.type === 'FeatureCollection') {
+    const collection = data as GeoJSONFeatureCollection;
+    if (!Array.isArray(collection.features)) {
+      throw new Error('FeatureCollection has no features array');
+    }
+    return collection;
+  }
+  if (object?.type === 'Feature') {
+    return { type: 'FeatureCollection', features: [data as GeoJSONFeature] };
+  }
+  if (object?.type && GEOMETRY_TYPES.has(object.type)) {
+    return {
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', geometry: data as GeoJSONGeometry, properties: null }],
+    };
+  }
+
+  throw new Error(`Unsupported GeoJSON type "${object?.type}"`);
+}
+
+export function positionToLatLon(position: GeoJSONPosition): LatLon {
+  return { lat: position[1], lon: position[0] };
+}
+
+export function latLonToPosition(coord: LatLon): GeoJSONPosition {
+  return [coord.lon, coord.lat];
+}
+
+/**
+ * Collect every line and polygon ring in a geometry as lat/lon paths
+ */
+export function geometryToPaths(geometry: GeoJSONGeometry | null): LatLon[][] {
+  if (!geometry) return [];
+
+  switch (geometry.type) {
+    case 'LineString':
+      return [geometry.coordinates.map(positionToLatLon)];
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates.map((line) => line.map(positionToLatLon));
+    case 'MultiPolygon':
+      return geometry.coordinates.flatMap((polygon) =>
+        polygon.map((ring) => ring.map(positionToLatLon))
+      );
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(geometryToPaths);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Collect every Point and MultiPoint position in a geometry
+ */
+export function geometryToPoints(geometry: GeoJSONGeometry | null): LatLon[] {
+  if (!geometry) return [];
+
+  switch (geometry.type) {
+    case 'Point':
+      return [positionToLatLon(geometry.coordinates)];
+    case 'MultiPoint':
+      return geometry.coordinates.map(positionToLatLon);
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(geometryToPoints);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Collect every line and polygon ring in a collection
+ */
+export function collectionToPaths(collection: GeoJSONFeatureCollection): LatLon[][] {
+  return collection.features.flatMap((feature) => geometryToPaths(feature.geometry));
+}
+
+/**
+ * Insert points so no segment spans more than maxStep degrees
+ * Keeps long edges curved once projected onto the disk.
+ */
+export function densifyPath(path: LatLon[], maxStep: number = 1): LatLon[] {
+  if (path.length < 2) return [...path];
+
+  const result: LatLon[] = [path[0]];
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    let dLon = b.lon - a.lon;
+    // Cross the antimeridian the short way
+    if (dLon > 180) dLon -= 360;
+    if (dLon < -180) dLon += 360;
+    const dLat = b.lat - a.lat;
+
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(dLat), Math.abs(dLon)) / maxStep));
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      result.push({ lat: a.lat + dLat * t, lon: a.lon + dLon * t });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectStationFormat,
+  loadStationFile,
+  parseSinexVelocities,
+  parseStationCSV,
+  parseTenv3,
+  recordsToStations,
+} from './gps-loader';
+import { MODEL } from '../constants';
+
+// Two epochs one year apart: 10 mm/yr east, 20 mm/yr north, 1 mm/yr up
+const TENV3 = [
+  'site YYMMMDD yyyy.yyyy __MJD week d reflon _e0(m) __east(m) ____n0(m) _north(m) u0(m) ____up(m) _ant(m) sig_e(m) sig_n(m) sig_u(m) __corr_en __corr_eu __corr_nu _latitude(deg) _longitude(deg) __height(m)',
+  'ABCD 20JAN01 2020.0000 58849 2086 3 0 1000 0.500 2000 0.250 10 0.100 0.0 0.001 0.001 0.003 0.0 0.0 0.0 -33.9 378.4 10.0',
+  'ABCD 21JAN01 2021.0000 59215 2138 5 0 1000 0.510 2000 0.270 10 0.101 0.0 0.001 0.001 0.003 0.0 0.0 0.0 -33.9 378.4 10.0',
+].join('\n');
+
+// A station on the equator at 0° longitude moving 20 mm/yr east and 10 mm/yr north
+const SINEX = [
+  '%=SNX 2.01 TST 20:001:00000 TST 20:001:00000 20:001:00000 P 00006 2 S V',
+  '+SITE/ID',
+  '*CODE PT __DOMES__ T _STATION DESCRIPTION__',
+  ' EQTR  A 00000M000 P Equator Test Station  ',
+  '-SITE/ID',
+  '+SOLUTION/ESTIMATE',
+  '*INDEX TYPE__ CODE PT SOLN _REF_EPOCH__ UNIT S __ESTIMATED VALUE____ _STD_DEV___',
+  '     1 STAX   EQTR  A    1 20:001:00000 m    2  6.37813700000000e+06 1.0e-03',
+  '     2 STAY   EQTR  A    1 20:001:00000 m    2  0.00000000000000e+00 1.0e-03',
+  '     3 STAZ   EQTR  A    1 20:001:00000 m    2  0.00000000000000e+00 1.0e-03',
+  '     4 VELX   EQTR  A    1 20:001:00000 m/y  2  0.00000000000000e+00 1.0e-04',
+  '     5 VELY   EQTR  A    1 20:001:00000 m/y  2  2.00000000000000e-02 1.0e-04',
+  '     6 VELZ   EQTR  A    1 20:001:00000 m/y  2  1.00000000000000e-02 1.0e-04',
+  '-SOLUTION/ESTIMATE',
+  '%ENDSNX',
+].join('\n');
+
+const CSV = [
+  '# Test network',
+  'site,name,lat,lon,ve,vn,vu,span',
+  'AAAA,Alpha,10,20,0.01,0.02,0.003,5',
+  ',,-45,190,0,0.01,,',
+].join('\n');
+
+describe('detectStationFormat', () => {
+  it('recognises each format', () => {
+    expect(detectStationFormat(TENV3)).toBe('tenv3');
+    expect(detectStationFormat(SINEX)).toBe('sinex');
+    expect(detectStationFormat(CSV.split('\n').slice(1).join('\n'))).toBe('csv');
+  });
+
+  it('rejects unknown content', () => {
+    expect(() => detectStationFormat('hello world')).toThrow('Could not detect');
+  });
+});
+
+describe('parseTenv3', () => {
+  it('fits velocities to the time series', () => {
+    const [record] = parseTenv3(TENV3);
+    expect(record.id).toBe('ABCD');
+    expect(record.ve).toBeCloseTo(0.01, 9);
+    expect(record.vn).toBeCloseTo(0.02, 9);
+    expect(record.vu).toBeCloseTo(0.001, 9);
+    expect(record.span).toBeCloseTo(1, 9);
+    expect(record.location.lat).toBeCloseTo(-33.9, 9);
+    expect(record.location.lon).toBeCloseTo(18.4, 9);
+  });
+
+  it('needs two epochs per site', () => {
+    expect(() => parseTenv3(TENV3.split('\n').slice(0, 2).join('\n'))).toThrow(
+      'need at least two epochs'
+    );
+  });
+});
+
+describe('parseSinexVelocities', () => {
+  it('converts ECEF estimates to local velocities', () => {
+    const [record] = parseSinexVelocities(SINEX);
+    expect(record.id).toBe('EQTR');
+    expect(record.name).toBe('Equator Test Station');
+    expect(record.location.lat).toBeCloseTo(0, 9);
+    expect(record.location.lon).toBeCloseTo(0, 9);
+    expect(record.ve).toBeCloseTo(0.02, 9);
+    expect(record.vn).toBeCloseTo(0.01, 9);
+    expect(record.vu).toBeCloseTo(0, 9);
+  });
+
+  it('needs complete estimates', () => {
+    const partial = SINEX.split('\n')
+      .filter((line) => !line.includes('VELZ'))
+      .join('\n');
+    expect(() => parseSinexVelocities(partial)).toThrow('No SOLUTION/ESTIMATE entries');
+  });
+});
+
+describe('parseStationCSV', () => {
+  it('reads columns by header name', () => {
+    const [alpha, second] = parseStationCSV(CSV);
+    expect(alpha).toEqual({
+      id: 'AAAA',
+      name: 'Alpha',
+      location: { lat: 10, lon: 20 },
+      ve: 0.01,
+      vn: 0.02,
+      vu: 0.003,
+      span: 5,
+    });
+    expect(second.id).toBe('ROW_2');
+    expect(second.name).toBeUndefined();
+    expect(second.location.lon).toBeCloseTo(-170, 9);
+    expect(second.vu).toBe(0);
+    expect(second.span).toBeUndefined();
+  });
+
+  it('requires the velocity columns', () => {
+    expect(() => parseStationCSV('lat,lon,ve\n1,2,3')).toThrow('must include lat, lon, ve and vn');
+  });
+
+  it('reports the row of a bad value', () => {
+    expect(() => parseStationCSV('lat,lon,ve,vn\n1,2,3,4\n1,x,3,4')).toThrow('CSV row 3');
+  });
+});
+
+describe('recordsToStations', () => {
+  const record = { id: 'TEST', location: { lat: 0, lon: 0 }, ve: 0, vn: 0.02, vu: 0.004 };
+
+  it('places stations on the disk', () => {
+    const [station] = recordsToStations([record]);
+    expect(station.position.r).toBeCloseTo(MODEL.geometry.ANTARCTIC_RIM_RADIUS / 2, 6);
+    expect(station.position.theta).toBeCloseTo(0, 9);
+    expect(station.initialPosition).toEqual(station.position);
+    expect(station.name).toBe('TEST');
+  });
+
+  it('points north toward the pole', () => {
+    const [station] = recordsToStations([record]);
+    expect(station.velocity.x).toBeCloseTo(-0.02, 9);
+    expect(station.velocity.y).toBeCloseTo(0, 9);
+  });
+
+  it('stores displacement in km and vertical displacement in m', () => {
+    const [station] = recordsToStations([{ ...record, span: 10 }]);
+    expect(station.displacement!.x).toBeCloseTo(-0.0002, 12);
+    expect(station.verticalDisplacement).toBeCloseTo(0.04, 12);
+  });
+});
+
+describe('loadStationFile', () => {
+  it('detects the format and converts records', () => {
+    const stations = loadStationFile(CSV.split('\n').slice(1).join('\n'), { span: 2 });
+    expect(stations).toHaveLength(2);
+    expect(stations[0].id).toBe('AAAA');
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * GPS Data Loader
+ * Parses station velocity/time-series files into GPSStation objects
+ *
+ * Supported formats:
+ * - NGL .tenv3 daily time series (velocities fitted by least squares)
+ * - SINEX-lite: SITE/ID and SOLUTION/ESTIMATE blocks with STA[XYZ]/VEL[XYZ]
+ * - CSV with a header row: id, lat, lon, ve, vn, vu (m/yr)
+ */
+
+import type { GPSStation, LatLon, PolarCoord, Vector2 } from '../types';
+import { polarToCartesian, normalize } from '../core/geometry';
+import { PHYSICS } from '../constants';
+import { DEFAULT_PROJECTION } from '../core/projection';
+import type { Projection } from '../core/projection';
+
+export type StationFileFormat = 'tenv3' | 'sinex' | 'csv';
+
+/**
+ * Station velocity record in local east/north/up components
+ */
+export interface StationRecord {
+  id: string;
+  name?: string;
+  location: LatLon;
+  ve: number; // m/yr
+  vn: number; // m/yr
+  vu: number; // m/yr
+  span?: number; // Observation span (years)
+}
+
+export interface StationLoadOptions {
+  format?: StationFileFormat; // Detected from content when omitted
+  projection?: Projection;
+  span?: number; // Years of displacement for velocity-only records (default 1)
+}
+
+// WGS84 ellipsoid
+const WGS84_A = 6378137.0;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+
+/**
+ * Parse a station file and convert it to GPS stations
+ */
+export function loadStationFile(text: string, options: StationLoadOptions = {}): GPSStation[] {
+  const format = options.format ?? detectStationFormat(text);
+  let records: StationRecord[];
+
+  switch (format) {
+    case 'tenv3':
+      records = parseTenv3(text);
+      break;
+    case 'sinex':
+      records = parseSinexVelocities(text);
+      break;
+    case 'csv':
+      records = parseStationCSV(text);
+      break;
+    default:
+      throw new Error(`Unsupported station file format "${format}"`);
+  }
+
+  return recordsToStations(records, options);
+}
+
+/**
+ * Guess the format from file content
+ */
+export function detectStationFormat(text: string): StationFileFormat {
+  if (/^%=SNX/m.test(text) || /\+SOLUTION\/ESTIMATE/.test(text)) {
+    return 'sinex';
+  }
+
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim().length > 0) ?? '';
+  if (/^\s*site\s+YYMMMDD/i.test(firstLine) || /^\s*\w{4}\s+\d{2}[A-Z]{3}\d{2}\s/.test(firstLine)) {
+    return 'tenv3';
+  }
+
+  if (firstLine.includes(',')) {
+    return 'csv';
+  }
+
+  throw new Error('Could not detect station file format');
+}
+
+/**
+ * Parse NGL .tenv3 time series (one or more sites)
+ * Columns: site YYMMMDD yyyy.yyyy MJD week d reflon e0 east n0 north u0 up ant
+ *          sig_e sig_n sig_u corr_en corr_eu corr_nu lat lon height
+ */
+export function parseTenv3(text: string): StationRecord[] {
+  const series = new Map<
+    string,
+    { t: number[]; e: number[]; n: number[]; u: number[]; lat: number; lon: number }
+  >();
+
+  for (const line of text.split(/\r?\n/)) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 22 || fields[0].toLowerCase() === 'site') continue;
+
+    const values = fields.slice(2).map(Number);
+    if (values.some((v) => !Number.isFinite(v))) continue;
+
+    // values[] is offset by two from the column list above
+    const [t, , , , , e0, east, n0, north, u0, up] = values;
+    const lat = values[18];
+    const lon = values[19];
+
+    const site = fields[0];
+    let entry = series.get(site);
+    if (!entry) {
+      entry = { t: [], e: [], n: [], u: [], lat, lon };
+      series.set(site, entry);
+    }
+    entry.t.push(t);
+    entry.e.push(e0 + east);
+    entry.n.push(n0 + north);
+    entry.u.push(u0 + up);
+  }
+
+  const records: StationRecord[] = [];
+  for (const [site, entry] of series) {
+    if (entry.t.length < 2) continue;
+
+    records.push({
+      id: site,
+      location: { lat: entry.lat, lon: wrapLongitude(entry.lon) },
+      ve: linearTrend(entry.t, entry.e),
+      vn: linearTrend(entry.t, entry.n),
+      vu: linearTrend(entry.t, entry.u),
+      span: Math.max(...entry.t) - Math.min(...entry.t),
+    });
+  }
+
+  if (records.length === 0) {
+    throw new Error('No usable .tenv3 time series found (need at least two epochs per site)');
+  }
+
+  return records;
+}
+
+/**
+ * Parse station positions and velocities from a SINEX file
+ * Only SITE/ID (names) and SOLUTION/ESTIMATE STAX..VELZ entries are read
+ */
+export function parseSinexVelocities(text: string): StationRecord[] {
+  const names = new Map<string, string>();
+  const estimates = new Map<string, Record<string, number>>();
+  let block = '';
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith('+')) {
+      block = line.slice(1).trim();
+      continue;
+    }
+    if (line.startsWith('-')) {
+      block = '';
+      continue;
+    }
+    if (line.startsWith('*') || line.trim().length === 0) continue;
+
+    if (block === 'SITE/ID') {
+      const code = line.slice(1, 5).trim();
+      const description = line.slice(21, 43).trim();
+      if (code && description) names.set(code, description);
+    } else if (block === 'SOLUTION/ESTIMATE') {
+      const fields = line.trim().split(/\s+/);
+      if (fields.length < 9) continue;
+
+      const [, type, code] = fields;
+      const value = Number(fields[8]);
+      if (!Number.isFinite(value)) continue;
+
+      const entry = estimates.get(code) ?? {};
+      entry[type] = value;
+      estimates.set(code, entry);
+    }
+  }
+
+  const records: StationRecord[] = [];
+  for (const [code, entry] of estimates) {
+    const { STAX, STAY, STAZ, VELX, VELY, VELZ } = entry;
+    if ([STAX, STAY, STAZ, VELX, VELY, VELZ].some((v) => v === undefined)) continue;
+
+    const location = ecefToLatLon(STAX, STAY, STAZ);
+    const enu = ecefVelocityToENU(location, VELX, VELY, VELZ);
+
+    records.push({ id: code, name: names.get(code), location, ...enu });
+  }
+
+  if (records.length === 0) {
+    throw new Error('No SOLUTION/ESTIMATE entries with STA[XYZ] and VEL[XYZ] found');
+  }
+
+  return records;
+}
+
+/**
+ * Parse a CSV file with a header row
+ * Required columns: lat, lon, ve, vn; optional: id/site, name, vu, span
+ */
+export function parseStationCSV(text: string): StationRecord[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+
+  if (lines.length < 2) {
+    throw new Error('CSV needs a header row and at least one station');
+  }
+
+  const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
+  const column = (...aliases: string[]) => header.findIndex((h) => aliases.includes(h));
+
+  const idCol = column('id', 'site', 'station', 'code');
+  const nameCol = column('name');
+  const latCol = column('lat', 'latitude');
+  const lonCol = column('lon', 'lng', 'longitude');
+  const veCol = column('ve', 'v_e', 'east');
+  const vnCol = column('vn', 'v_n', 'north');
+  const vuCol = column('vu', 'v_u', 'up');
+  const spanCol = column('span', 'years');
+
+  if ([latCol, lonCol, veCol, vnCol].some((c) => c < 0)) {
+    throw new Error('CSV header must include lat, lon, ve and vn columns');
+  }
+
+  return lines.slice(1).map((line, i) => {
+    const cells = line.split(',').map((c) => c.trim());
+    const num = (col: number) => (col >= 0 && cells[col] !== '' ? Number(cells[col]) : undefined);
+
+    const lat = num(latCol);
+    const lon = num(lonCol);
+    const ve = num(veCol);
+    const vn = num(vnCol);
+    if ([lat, lon, ve, vn].some((v) => v === undefined || !Number.isFinite(v))) {
+      throw new Error(`Invalid numeric value on CSV row ${i + 2}`);
+    }
+
+    return {
+      id: idCol >= 0 && cells[idCol] ? cells[idCol] : `ROW_${i + 1}`,
+      name: nameCol >= 0 ? cells[nameCol] || undefined : undefined,
+      location: { lat: lat!, lon: wrapLongitude(lon!) },
+      ve: ve!,
+      vn: vn!,
+      vu: num(vuCol) ?? 0,
+      span: num(spanCol),
+    };
+  });
+}
+
+/**
+ * Convert ENU velocity records into stations on the disk
+ * The local east/north axes are taken from the projection itself, so any
+ * projection keeps velocity directions consistent with station positions.
+ */
+export function recordsToStations(
+  records: StationRecord[],
+  options: StationLoadOptions = {}
+): GPSStation[] {
+  const projection = options.projection ?? DEFAULT_PROJECTION;
+
+  return records.map((record) => {
+    const position = projection.forward(record.location);
+    const { east, north } = localAxes(record.location, position, projection);
+
+    const velocity: Vector2 = {
+      x: record.ve * east.x + record.vn * north.x,
+      y: record.ve * east.y + record.vn * north.y,
+    };
+    const span = record.span ?? options.span ?? 1;
+    const spanKm = span / PHYSICS.KM_TO_METERS; // Velocities are m/yr; displacements are km
+
+    return {
+      id: record.id,
+      name: record.name ?? record.id,
+      position: { ...position },
+      initialPosition: { ...position },
+      velocity,
+      displacement: { x: velocity.x * spanKm, y: velocity.y * spanKm },
+      verticalVelocity: record.vu,
+      verticalDisplacement: record.vu * span,
+      location: { ...record.location },
+    };
+  });
+}
+
+/**
+ * Unit vectors on the disk pointing locally east and north
+ */
+function localAxes(
+  location: LatLon,
+  position: PolarCoord,
+  projection: Projection
+): { east: Vector2; north: Vector2 } {
+  const delta = 1e-3; // degrees
+  const origin = polarToCartesian(position);
+
+  // Step toward the equator so the probe stays valid at the poles
+  const northSign = location.lat > 89 ? -1 : 1;
+  const northPoint = polarToCartesian(
+    projection.forward({ lat: location.lat + northSign * delta, lon: location.lon })
+  );
+  const eastPoint = polarToCartesian(projection.forward({ lat: location.lat, lon: location.lon + delta }));
+
+  const north = normalize({
+    x: (northPoint.x - origin.x) * northSign,
+    y: (northPoint.y - origin.y) * northSign,
+  });
+  const east = normalize({ x: eastPoint.x - origin.x, y: eastPoint.y - origin.y });
+
+  return { east, north };
+}
+
+/**
+ * Least-squares slope of y against t
+ */
+function linearTrend(t: number[], y: number[]): number {
+  const n = t.length;
+  const meanT = t.reduce((a, b) => a + b, 0) / n;
+  const meanY = y.reduce((a, b) => a + b, 0) / n;
+
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (t[i] - meanT) * (y[i] - meanY);
+    den += (t[i] - meanT) ** 2;
+  }
+
+  return den === 0 ? 0 : num / den;
+}
+
+function wrapLongitude(lon: number): number {
+  if (lon >= -180 && lon < 180) return lon;
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * ECEF (m) to geodetic latitude/longitude on WGS84
+ */
+function ecefToLatLon(x: number, y: number, z: number): LatLon {
+  const lon = Math.atan2(y, x);
+  const p = Math.sqrt(x * x + y * y);
+
+  let lat = Math.atan2(z, p * (1 - WGS84_E2));
+  for (let i = 0; i < 5; i++) {
+    const sinLat = Math.sin(lat);
+    const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+    lat = Math.atan2(z + WGS84_E2 * n * sinLat, p);
+  }
+
+  return { lat: (lat * 180) / Math.PI, lon: (lon * 180) / Math.PI };
+}
+
+/**
+ * Rotate an ECEF velocity into local east/north/up
+ */
+function ecefVelocityToENU(
+  location: LatLon,
+  vx: number,
+  vy: number,
+  vz: number
+): { ve: number; vn: number; vu: number } {
+  const lat = (location.lat * Math.PI) / 180;
+  const lon = (location.lon * Math.PI) / 180;
+  const sinLat = Math.sin(lat);
+  const cosLat = Math.cos(lat);
+  const sinLon = Math.sin(lon);
+  const cosLon = Math.cos(lon);
+
+  return {
+    ve: -sinLon * vx + cosLon * vy,
+    vn: -sinLat * cosLon * vx - sinLat * sinLon * vy + cosLat * vz,
+    vu: cosLat * cosLon * vx + cosLat * sinLon * vy + sinLat * vz,
+  };
+}
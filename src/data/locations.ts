@@ -0,0 +1,41 @@
+/**
+ * Named reference locations on the disk
+ * Used by the scenario runner and readouts to label well-known places
+ */
+
+import type { LatLon, PolarCoord } from '../types';
+import { DEFAULT_PROJECTION } from '../core/projection';
+import type { Projection } from '../core/projection';
+
+export interface NamedLocation {
+  id: string;
+  name: string;
+  coordinates: LatLon;
+}
+
+export const NAMED_LOCATIONS: NamedLocation[] = [
+  { id: 'arabia', name: 'Arabian Peninsula', coordinates: { lat: 24.7, lon: 46.7 } },
+  { id: 'london', name: 'London', coordinates: { lat: 51.5, lon: -0.1 } },
+  { id: 'nairobi', name: 'Nairobi', coordinates: { lat: -1.3, lon: 36.8 } },
+  { id: 'south_africa', name: 'South Africa', coordinates: { lat: -33.3, lon: 20.05 } },
+  { id: 'sydney', name: 'Sydney', coordinates: { lat: -33.9, lon: 151.2 } },
+  { id: 'argentina', name: 'Argentina', coordinates: { lat: -34.6, lon: -58.4 } },
+];
+
+/**
+ * Disk position of a named location under the given projection
+ */
+export function locationPosition(
+  location: NamedLocation,
+  projection: Projection = DEFAULT_PROJECTION
+): PolarCoord {
+  return projection.forward(location.coordinates);
+}
+
+/**
+ * Look up a named location by id (case-insensitive)
+ */
+export function findLocation(id: string): NamedLocation | undefined {
+  const key = id.toLowerCase();
+  return NAMED_LOCATIONS.find((location) => location.id === key);
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseLODFile } from './lod-loader';
+
+describe('parseLODFile', () => {
+  it('reads a CSV with year and LOD columns', () => {
+    const records = parseLODFile('# IERS\nyear,lod_ms\n2001.5,1.2\n2000.5,1.8\n');
+    expect(records).toEqual([
+      { year: 2000.5, lod: 1.8 },
+      { year: 2001.5, lod: 1.2 },
+    ]);
+  });
+
+  it('reads MJD and year/month/day dates from semicolon CSV', () => {
+    const [byMjd] = parseLODFile('MJD;LOD\n51544.5;1.0\n');
+    expect(byMjd.year).toBeCloseTo(2000, 12);
+
+    const [byDate] = parseLODFile('year;month;day;lod\n2001;7;2;0.5\n');
+    expect(byDate.year).toBeCloseTo(2001.5, 2);
+  });
+
+  it('reads IERS C04 rows', () => {
+    const row = '2000  1  1  51544  0.043  0.378  0.355  0.000915  0.0  0.0';
+    const [record] = parseLODFile(row);
+    expect(record.year).toBeCloseTo(2000 - 0.5 / 365.25, 9);
+    expect(record.lod).toBeCloseTo(0.915, 9);
+  });
+
+  it('reads two whitespace-separated columns', () => {
+    expect(parseLODFile('1990.0 2.5\n1995.0 2.0')).toEqual([
+      { year: 1990, lod: 2.5 },
+      { year: 1995, lod: 2 },
+    ]);
+  });
+
+  it('takes the unit from the LOD column header', () => {
+    const ms = parseLODFile('year,lod_ms\n2000,0.02\n2001,0.05\n');
+    expect(ms.map((record) => record.lod)).toEqual([0.02, 0.05]);
+
+    const seconds = parseLODFile('year;LOD (s)\n2000;0.15\n2001;0.0012\n');
+    expect(seconds.map((record) => record.lod)).toEqual([150, 1.2]);
+  });
+
+  it('converts small values from seconds to ms when the unit is not given', () => {
+    const records = parseLODFile('1990 0.0025\n1995 0.002');
+    expect(records.map((record) => record.lod)).toEqual([2.5, 2]);
+  });
+
+  it('rejects files without usable values', () => {
+    expect(() => parseLODFile('# nothing\n\n')).toThrow('LOD file is empty');
+    expect(() => parseLODFile('1990 2000 2010')).toThrow('No LOD values found');
+    expect(() => parseLODFile('year,value\n2000,1')).toThrow('must include an LOD column');
+  });
+});
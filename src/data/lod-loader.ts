@@ -0,0 +1,137 @@
+/**
+ * Length-of-Day Loader
+ * Parses IERS-style LOD records for comparison with the rotation model
+ *
+ * Supported layouts:
+ * - CSV with a header row (`,` or `;`): a date column (year / decimal year,
+ *   MJD, or year+month+day) and an LOD column
+ * - IERS EOP C04 text: YR MM DD MJD x y UT1-UTC LOD ... (LOD in seconds)
+ * - Two whitespace-separated columns: decimal year, LOD
+ *
+ * LOD is converted to ms. The unit comes from the header (`lod_ms`, `lod_s`, ...)
+ * or the C04 layout; otherwise values below 0.1 in magnitude are taken to be seconds.
+ */
+
+import type { LODRecord } from '../types';
+
+const MJD_J2000 = 51544.5;
+const DAYS_PER_YEAR = 365.25;
+const C04_LOD_COLUMN = 7;
+
+type LODUnit = 'ms' | 's';
+
+// LOD column headers, with the unit they declare
+const LOD_COLUMNS: Record<string, LODUnit | undefined> = {
+  lod: undefined,
+  lod_ms: 'ms',
+  'lod (ms)': 'ms',
+  lod_s: 's',
+  'lod (s)': 's',
+  excess: undefined,
+};
+
+interface ParsedLOD {
+  records: LODRecord[];
+  unit?: LODUnit; // Guessed from the values when undefined
+}
+
+/**
+ * Parse an LOD file into records sorted by date
+ */
+export function parseLODFile(text: string): LODRecord[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+
+  if (lines.length === 0) {
+    throw new Error('LOD file is empty');
+  }
+
+  const headerIndex = lines.findIndex((line) => /[a-z]/i.test(line) && /[,;]/.test(line));
+  const { records, unit } =
+    headerIndex >= 0 ? parseLODCSV(lines.slice(headerIndex)) : parseLODColumns(lines);
+
+  if (records.length === 0) {
+    throw new Error('No LOD values found');
+  }
+
+  return toMilliseconds(records, unit ?? guessUnit(records)).sort((a, b) => a.year - b.year);
+}
+
+function parseLODCSV(lines: string[]): ParsedLOD {
+  const delimiter = lines[0].includes(';') ? ';' : ',';
+  const header = lines[0].split(delimiter).map((h) => h.trim().toLowerCase());
+  const column = (...aliases: string[]) => header.findIndex((h) => aliases.includes(h));
+
+  const yearCol = column('year', 'yr', 'epoch', 'decimal_year');
+  const monthCol = column('month', 'mm');
+  const dayCol = column('day', 'dd');
+  const mjdCol = column('mjd');
+  const lodCol = column(...Object.keys(LOD_COLUMNS));
+
+  if (lodCol < 0 || (yearCol < 0 && mjdCol < 0)) {
+    throw new Error('LOD CSV header must include an LOD column and a year or MJD column');
+  }
+
+  const records: LODRecord[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = line.split(delimiter).map((c) => c.trim());
+    const num = (col: number) => (col >= 0 && cells[col] !== '' ? Number(cells[col]) : NaN);
+
+    const lod = num(lodCol);
+    let year: number;
+    if (mjdCol >= 0 && Number.isFinite(num(mjdCol))) {
+      year = mjdToYear(num(mjdCol));
+    } else if (monthCol >= 0 && dayCol >= 0) {
+      year = dateToYear(num(yearCol), num(monthCol), num(dayCol));
+    } else {
+      year = num(yearCol);
+    }
+
+    if (Number.isFinite(year) && Number.isFinite(lod)) {
+      records.push({ year, lod });
+    }
+  }
+  return { records, unit: LOD_COLUMNS[header[lodCol]] };
+}
+
+function parseLODColumns(lines: string[]): ParsedLOD {
+  const records: LODRecord[] = [];
+  let unit: LODUnit | undefined;
+  for (const line of lines) {
+    const cells = line.split(/\s+/).map(Number);
+    if (cells.some((v) => !Number.isFinite(v))) continue;
+
+    if (cells.length > C04_LOD_COLUMN) {
+      records.push({ year: mjdToYear(cells[3]), lod: cells[C04_LOD_COLUMN] });
+      unit = 's';
+    } else if (cells.length === 2) {
+      records.push({ year: cells[0], lod: cells[1] });
+    }
+  }
+  return { records, unit };
+}
+
+/**
+ * Unit of a record that does not declare one: seconds if every value is below 0.1
+ */
+function guessUnit(records: LODRecord[]): LODUnit {
+  const maxAbs = Math.max(...records.map((record) => Math.abs(record.lod)));
+  return maxAbs < 0.1 ? 's' : 'ms';
+}
+
+function toMilliseconds(records: LODRecord[], unit: LODUnit): LODRecord[] {
+  if (unit === 'ms') return records;
+  return records.map((record) => ({ year: record.year, lod: record.lod * 1000 }));
+}
+
+function mjdToYear(mjd: number): number {
+  return 2000 + (mjd - MJD_J2000) / DAYS_PER_YEAR;
+}
+
+function dateToYear(year: number, month: number, day: number): number {
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (Date.UTC(year, month - 1, day) - start) / (end - start);
+}
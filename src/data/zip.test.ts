@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text) as Uint8Array<ArrayBuffer>;
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores entries with local headers and a central directory', async () => {
+    const entries = [
+      { name: 'a.txt', data: bytes('hello') },
+      { name: 'frames/b.txt', data: bytes('world!') },
+    ];
+    const blob = createZip(entries);
+    expect(blob.type).toBe('application/zip');
+
+    const view = new DataView(await blob.arrayBuffer());
+    const secondOffset = 30 + 'a.txt'.length + 5;
+    const centralOffset = secondOffset + 30 + 'frames/b.txt'.length + 6;
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(bytes('hello')));
+    expect(view.getUint32(secondOffset, true)).toBe(0x04034b50);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+
+    const end = view.byteLength - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    expect(view.getUint32(end + 12, true)).toBe(end - centralOffset);
+    expect(view.getUint32(end + 16, true)).toBe(centralOffset);
+  });
+
+  it('writes an empty archive as just the end record', () => {
+    expect(createZip([]).size).toBe(22);
+  });
+});
@@ -3,22 +3,85 @@
  * Entry point with specialized renderers
  */
 
-import { WebGLContext, FPSCounter, generateCircleVertices, createBuffer, createVertexArray } from './rendering/webgl-utils';
+import { WebGLContext, FPSCounter, generateDiskVertices, createBuffer, createVertexArray } from './rendering/webgl-utils';
 import { Camera } from './rendering/camera';
 import { ShaderManager } from './rendering/shader-loader';
 import { EarthRenderer } from './rendering/earth-renderer';
 import { EMFieldRenderer } from './rendering/field-renderer';
+import type { FieldOverlayMode } from './rendering/field-renderer';
+import { ParticleRenderer } from './rendering/particle-renderer';
 import { SolarRenderer } from './rendering/solar-renderer';
 import { GPSRenderer } from './rendering/gps-renderer';
 import { ClimateRenderer } from './rendering/climate-renderer';
-import { ExpansionEngine } from './core/expansion';
-import { EMFieldSolver } from './core/em-field';
-import { SolarSimulator } from './core/solar';
-import { ClimateModel } from './core/climate';
-import { GPSSimulator } from './core/gps';
-import { MODEL } from './constants';
-import type { SimulationState } from './types';
+import { RulerRenderer } from './rendering/ruler-renderer';
+import { CoastlineRenderer } from './rendering/coastline-renderer';
+import { OverlayRenderer } from './rendering/overlay-renderer';
+import { LayerManager } from './rendering/layer-manager';
+import { FrameRecorder } from './rendering/frame-recorder';
+import type { RecordingFormat } from './rendering/frame-recorder';
+import { buildSVG } from './rendering/svg-export';
+import { TourPlayer, createTour, parseTour, serializeTour } from './rendering/camera-tour';
+import type { EasingName, Tour } from './rendering/camera-tour';
+import type { SVGLayer } from './rendering/svg-export';
+import { ProbeTooltip } from './ui/probe-tooltip';
+import { LODChart } from './ui/lod-chart';
+import { LayerPanel } from './ui/layer-panel';
+import { CameraControls } from './ui/camera-controls';
+import { CameraFollow } from './rendering/camera-follow';
+import type { FollowTarget } from './rendering/camera-follow';
+import { Simulation } from './core/simulation';
+import { validateExpansionPattern } from './core/gps';
+import type { StationDistribution } from './core/gps';
+import { loadStationFile } from './data/gps-loader';
+import { parseLODFile } from './data/lod-loader';
+import { collectionToPaths, parseGeoJSON } from './data/geojson';
+import { COARSE_COASTLINES } from './data/coastlines';
+import {
+  climateEventsToGeoJSON,
+  climateZonesToGeoJSON,
+  geoJSONToOverlays,
+  mergeCollections,
+  stationsToGeoJSON,
+  streamlinesToGeoJSON,
+  stringifyGeoJSON,
+  sunPathToGeoJSON,
+} from './data/geojson-adapter';
+import type { GeoJSONFeatureCollection } from './data/geojson';
+import { MASS_PROFILES, compareLOD } from './core/rotation';
+import { MultiVortexFieldModel, createFieldModel } from './core/field-models';
+import { profileToCSV } from './core/field-analysis';
+import type { FieldModel } from './core/field-models';
+import { formatLatLon, getProjection } from './core/projection';
+import { expandPoints, measurePath } from './core/measurement';
+import {
+  applyScenario,
+  captureScenario,
+  decodeScenarioHash,
+  encodeScenarioHash,
+  parseScenario,
+  serializeScenario,
+} from './core/scenario';
+import type { ScenarioDocument } from './core/scenario';
+import { cartesianToPolar, polarDistance, polarToCartesian } from './core/geometry';
+import { COLORS, MODEL, RENDER_CONFIG } from './constants';
 import { ViewMode } from './types';
+import type { GPSStation, LODRecord, PolarCoord, ProbeSample, RenderPass, Vector2 } from './types';
+
+// Thematic layers shown by each view tab
+const VIEW_PRESETS: Record<ViewMode, string[]> = {
+  [ViewMode.EARTH]: [],
+  [ViewMode.EM_FIELD]: ['field', 'streamlines', 'particles'],
+  [ViewMode.SOLAR]: ['illumination', 'sun-path', 'sun'],
+  [ViewMode.CLIMATE]: ['climate', 'climate-events'],
+  [ViewMode.GPS]: ['gps', 'gps-vectors'],
+};
+
+/**
+ * Time-scale readout, e.g. "10.0x" or "25kx"
+ */
+function formatTimeScale(timeScale: number): string {
+  return timeScale >= 1000 ? `${(timeScale / 1000).toFixed(0)}kx` : `${timeScale.toFixed(1)}x`;
+}
 
 class FlatEarthEngine {
   private canvas: HTMLCanvasElement;
@@ -31,32 +94,51 @@ class FlatEarthEngine {
   // Specialized renderers
   private earthRenderer: EarthRenderer | null = null;
   private fieldRenderer: EMFieldRenderer | null = null;
+  private particleRenderer: ParticleRenderer | null = null;
   private solarRenderer: SolarRenderer | null = null;
   private gpsRenderer: GPSRenderer | null = null;
   private climateRenderer: ClimateRenderer | null = null;
+  private rulerRenderer: RulerRenderer | null = null;
+  private coastlineRenderer: CoastlineRenderer | null = null;
+  private overlayRenderer: OverlayRenderer | null = null;
+  private probeRenderer: RulerRenderer | null = null;
+  private probeTooltip: ProbeTooltip | null = null;
+
+  // Headless simulation (state + core modules)
+  private simulation: Simulation;
+
+  // Layer stack; view tabs are presets over the thematic layers
+  private layers: LayerManager | null = null;
+  private layerPanel: LayerPanel | null = null;
+  private viewMode: ViewMode = ViewMode.EARTH;
 
-  // Simulation modules
-  private expansion: ExpansionEngine;
-  private emField: EMFieldSolver;
-  private solar: SolarSimulator;
-  private climate: ClimateModel;
-  private gps: GPSSimulator;
-
-  // Simulation state
-  private state: SimulationState = {
-    time: 0,
-    timeScale: 1.0,
-    expansionRate: MODEL.expansion.RATE,
-    fieldStrength: 1.0,
-    isPaused: false,
-  };
+  // Offline video / PNG-sequence export
+  private recorder: FrameRecorder | null = null;
 
-  // View mode and options
-  private viewMode: ViewMode = ViewMode.EARTH;
-  private showStreamlines: boolean = false;
-  private showSunPath: boolean = false;
-  private showGPSVectors: boolean = false;
-  private showClimateEvents: boolean = false;
+  // Scripted camera tours (keyframes being edited, and playback)
+  private tour: Tour = createTour();
+  private tourPlayer: TourPlayer | null = null;
+  private pausedBeforeTour: boolean = false;
+  private observedGPSText: string | null = null;
+
+  // Pointer, touch and keyboard navigation; lock-on to moving targets
+  private cameraControls: CameraControls | null = null;
+  private cameraFollow: CameraFollow;
+  private pickingStation: boolean = false;
+
+  // Canvas click tool (drag always pans)
+  private toolMode: 'pan' | 'probe' | 'ruler' | 'vortex' = 'pan';
+
+  // Ruler tool (points stored at reference time t = 0)
+  private rulerPoints: PolarCoord[] = [];
+  private rulerYears: number = 100;
+
+  // Observed length-of-day record for the comparison chart
+  private lodRecords: LODRecord[] = [];
+  private lodChart: LODChart | null = null;
+
+  // Probe tool: the previous sample anchors a two-click distance
+  private probeAnchor: ProbeSample | null = null;
 
   // Animation
   private lastTime: number = 0;
@@ -81,15 +163,12 @@ class FlatEarthEngine {
     const aspect = this.canvas.width / this.canvas.height;
     this.camera = new Camera(aspect);
     this.camera.fitEarth(MODEL.geometry.ANTARCTIC_RIM_RADIUS);
+    this.cameraFollow = new CameraFollow(this.camera);
 
     this.shaders = new ShaderManager(this.gl);
     this.fpsCounter = new FPSCounter();
 
-    this.expansion = new ExpansionEngine(this.state.expansionRate);
-    this.emField = new EMFieldSolver(MODEL.electromagnetic.VORTEX_STRENGTH_B0 * this.state.fieldStrength);
-    this.solar = new SolarSimulator();
-    this.climate = new ClimateModel();
-    this.gps = new GPSSimulator(this.state.expansionRate);
+    this.simulation = new Simulation();
 
     this.uiElements = {
       controls: document.getElementById('controls'),
@@ -107,7 +186,11 @@ class FlatEarthEngine {
       this.shaders.loadAll();
 
       // Initialize renderers with shared geometry
-      const earthGeom = generateCircleVertices(128, MODEL.geometry.ANTARCTIC_RIM_RADIUS);
+      const earthGeom = generateDiskVertices(
+        RENDER_CONFIG.DISK_RINGS,
+        RENDER_CONFIG.RADIAL_SEGMENTS,
+        MODEL.geometry.ANTARCTIC_RIM_RADIUS
+      );
       const gl = this.gl;
       const posBuffer = createBuffer(gl, earthGeom.positions);
       const indexBuffer = createBuffer(gl, earthGeom.indices, gl.ELEMENT_ARRAY_BUFFER);
@@ -128,12 +211,23 @@ class FlatEarthEngine {
       this.fieldRenderer = new EMFieldRenderer(
         gl,
         this.shaders.getProgram('field'),
+        this.shaders.getProgram('field-lic'),
+        this.shaders.getProgram('field-scalar'),
         this.shaders.getProgram('line'),
         earthVAO!,
         earthGeom.indices.length
       );
       console.log('✓ EM Field renderer initialized');
 
+      this.particleRenderer = new ParticleRenderer(
+        gl,
+        this.shaders.getProgram('particle-update'),
+        this.shaders.getProgram('particle'),
+        this.shaders.getProgram('particle-trail'),
+        this.shaders.getProgram('composite')
+      );
+      console.log('✓ Particle renderer initialized');
+
       this.solarRenderer = new SolarRenderer(
         gl,
         this.shaders.getProgram('solar'),
@@ -158,24 +252,43 @@ class FlatEarthEngine {
       );
       console.log('✓ Climate renderer initialized');
 
+      this.coastlineRenderer = new CoastlineRenderer(gl, this.shaders.getProgram('line'));
+      this.coastlineRenderer.setPaths(
+        collectionToPaths(COARSE_COASTLINES),
+        this.simulation.getProjection()
+      );
+      console.log('✓ Coastline renderer initialized');
+
+      this.overlayRenderer = new OverlayRenderer(gl, this.shaders.getProgram('line'));
+
+      this.rulerRenderer = new RulerRenderer(gl, this.shaders.getProgram('line'));
+      this.probeRenderer = new RulerRenderer(gl, this.shaders.getProgram('line'));
+      this.probeTooltip = new ProbeTooltip(document.getElementById('app') ?? document.body);
+
       // Setup data
-      this.gps.generateStations(1000);
-      console.log('✓ Generated 1000 GPS stations');
+      this.gpsRenderer.updateStations(this.simulation.getGPS());
+      console.log(
+        `✓ Generated ${this.simulation.getGPS().getStationCount()} GPS stations (seed ${this.simulation.getSeed()})`
+      );
 
-      // Generate EM streamlines
-      this.fieldRenderer.generateStreamlines(this.emField, 24);
+      // Generate EM streamlines and the field texture
+      this.refreshField();
       console.log('✓ Generated EM field streamlines');
 
       // Generate sun path
-      this.solarRenderer.updateSunPath(this.solar, 0);
+      this.solarRenderer.updateSunPath(this.simulation.getSolar(), 0);
       console.log('✓ Generated sun path');
 
       // Generate climate event markers
-      this.climateRenderer.generateEventMarkers(this.climate);
+      this.climateRenderer.generateEventMarkers(this.simulation.getClimate());
       console.log('✓ Generated climate event markers');
 
+      this.setupLayers();
+      console.log(`✓ Layer stack ready (${this.layers!.getLayers().length} layers)`);
+
       this.setupUI();
       this.setupEventListeners();
+      this.loadScenarioFromHash();
 
       if (this.uiElements.loading) {
         this.uiElements.loading.classList.add('hidden');
@@ -210,10 +323,9 @@ class FlatEarthEngine {
     const timeScaleValue = document.getElementById('timeScaleValue');
     if (timeScaleSlider && timeScaleValue) {
       timeScaleSlider.addEventListener('input', () => {
-        this.state.timeScale = Math.pow(10, parseFloat(timeScaleSlider.value));
-        timeScaleValue.textContent = this.state.timeScale >= 1000
-          ? `${(this.state.timeScale / 1000).toFixed(0)}kx`
-          : `${this.state.timeScale.toFixed(1)}x`;
+        const timeScale = Math.pow(10, parseFloat(timeScaleSlider.value));
+        this.simulation.setTimeScale(timeScale);
+        timeScaleValue.textContent = formatTimeScale(timeScale);
       });
       timeScaleSlider.dispatchEvent(new Event('input'));
     }
@@ -223,10 +335,10 @@ class FlatEarthEngine {
     const expansionRateValue = document.getElementById('expansionRateValue');
     if (expansionRateSlider && expansionRateValue) {
       expansionRateSlider.addEventListener('input', () => {
-        this.state.expansionRate = parseFloat(expansionRateSlider.value);
-        this.expansion.setExpansionRate(this.state.expansionRate / 100);
-        this.gps.setExpansionRate(this.state.expansionRate / 100);
-        expansionRateValue.textContent = `${this.state.expansionRate.toFixed(1)} cm/yr`;
+        const expansionRate = parseFloat(expansionRateSlider.value);
+        this.simulation.setExpansionRate(expansionRate);
+        expansionRateValue.textContent = `${expansionRate.toFixed(1)} cm/yr`;
+        this.updateLODChart();
       });
     }
 
@@ -235,39 +347,258 @@ class FlatEarthEngine {
     const fieldStrengthValue = document.getElementById('fieldStrengthValue');
     if (fieldStrengthSlider && fieldStrengthValue) {
       fieldStrengthSlider.addEventListener('input', () => {
-        this.state.fieldStrength = parseFloat(fieldStrengthSlider.value);
-        this.emField.setFieldStrength(MODEL.electromagnetic.VORTEX_STRENGTH_B0 * this.state.fieldStrength);
-
-        // Regenerate streamlines with new field strength
-        if (this.fieldRenderer) {
-          this.fieldRenderer.generateStreamlines(this.emField, 24);
-        }
-
-        fieldStrengthValue.textContent = this.state.fieldStrength.toFixed(1);
+        const fieldStrength = parseFloat(fieldStrengthSlider.value);
+        // Streamlines follow the field direction only, so they stay as they are
+        this.simulation.setFieldStrength(fieldStrength);
+        fieldStrengthValue.textContent = fieldStrength.toFixed(1);
       });
     }
 
+    this.setupFieldModelControls();
+
     // Simulation time
     const simTimeSlider = document.getElementById('simTime') as HTMLInputElement;
     const simTimeValue = document.getElementById('simTimeValue');
     if (simTimeSlider && simTimeValue) {
       simTimeSlider.addEventListener('input', () => {
-        this.state.time = parseFloat(simTimeSlider.value);
-        simTimeValue.textContent = `${this.state.time.toFixed(0)} years`;
+        this.simulation.setTime(parseFloat(simTimeSlider.value));
+        simTimeValue.textContent = `${this.simulation.getState().time.toFixed(0)} years`;
+        this.gpsRenderer?.updateStations(this.simulation.getGPS());
 
         // Update sun path when time changes significantly
         if (this.solarRenderer) {
-          this.solarRenderer.updateSunPath(this.solar, this.state.time * 365.24);
+          this.solarRenderer.updateSunPath(this.simulation.getSolar(), this.simulation.getTimeInDays());
+        }
+      });
+    }
+
+    // Lat/lon projection
+    const projectionSelect = document.getElementById('projection') as HTMLSelectElement;
+    if (projectionSelect) {
+      projectionSelect.value = this.simulation.getProjection().name;
+      projectionSelect.addEventListener('change', () => {
+        this.setProjection(projectionSelect.value);
+      });
+    }
+
+    // Station network (seed + distribution)
+    const distributionSelect = document.getElementById('stationDistribution') as HTMLSelectElement;
+    const seedInput = document.getElementById('stationSeed') as HTMLInputElement;
+    const regenerateBtn = document.getElementById('regenerateStations');
+    if (distributionSelect && seedInput && regenerateBtn) {
+      distributionSelect.value = this.simulation.getDistribution();
+      seedInput.value = this.simulation.getSeed().toString();
+
+      regenerateBtn.addEventListener('click', () => {
+        const seed = parseInt(seedInput.value, 10);
+        this.simulation.regenerateStations(
+          Number.isFinite(seed) ? seed : this.simulation.getSeed(),
+          distributionSelect.value as StationDistribution
+        );
+        seedInput.value = this.simulation.getSeed().toString();
+
+        if (this.gpsRenderer) {
+          this.gpsRenderer.updateStations(this.simulation.getGPS());
+        }
+        console.log(`✓ Regenerated stations (seed ${this.simulation.getSeed()})`);
+      });
+    }
+
+    // Observed GPS data
+    const gpsFileInput = document.getElementById('gpsFile') as HTMLInputElement;
+    const gpsStatus = document.getElementById('gpsStatus');
+    if (gpsFileInput && gpsStatus) {
+      gpsFileInput.addEventListener('change', async () => {
+        const file = gpsFileInput.files?.[0];
+        if (!file) return;
+
+        try {
+          const text = await file.text();
+          const stations = loadStationFile(text, { projection: this.simulation.getProjection() });
+          this.simulation.getGPS().loadStations(stations);
+          this.observedGPSText = text;
+          if (this.gpsRenderer) {
+            this.gpsRenderer.updateStations(this.simulation.getGPS());
+          }
+
+          const validation = validateExpansionPattern(stations);
+          gpsStatus.textContent =
+            `${stations.length} stations · ${(validation.confidence * 100).toFixed(0)}% radial (${validation.pattern})`;
+          console.log(`✓ Loaded ${stations.length} observed stations from ${file.name}`);
+        } catch (error) {
+          gpsStatus.textContent = error instanceof Error ? error.message : 'Failed to load file';
+          console.error('❌ GPS data import failed:', error);
+        }
+      });
+    }
+
+    // Coastlines (built-in outlines or a GeoJSON file)
+    const coastlineFileInput = document.getElementById('coastlineFile') as HTMLInputElement;
+    const coastlineStatus = document.getElementById('coastlineStatus');
+    if (coastlineFileInput && coastlineStatus) {
+      coastlineFileInput.addEventListener('change', async () => {
+        const file = coastlineFileInput.files?.[0];
+        if (!file || !this.coastlineRenderer) return;
+
+        try {
+          const paths = collectionToPaths(parseGeoJSON(await file.text()));
+          if (paths.length === 0) {
+            throw new Error('No lines or polygons found');
+          }
+          this.coastlineRenderer.setPaths(paths, this.simulation.getProjection());
+          coastlineStatus.textContent = `${paths.length} outlines from ${file.name}`;
+          console.log(`✓ Loaded ${paths.length} coastline paths from ${file.name}`);
+        } catch (error) {
+          coastlineStatus.textContent = error instanceof Error ? error.message : 'Failed to load file';
+          console.error('❌ Coastline import failed:', error);
+        }
+      });
+    }
+
+    // GeoJSON export / custom overlay import
+    const exportLayerSelect = document.getElementById('exportLayer') as HTMLSelectElement;
+    const exportBtn = document.getElementById('exportGeoJSON');
+    const overlayFileInput = document.getElementById('overlayFile') as HTMLInputElement;
+    const overlayClear = document.getElementById('overlayClear');
+    const overlayStatus = document.getElementById('overlayStatus');
+    if (exportLayerSelect && exportBtn) {
+      exportBtn.addEventListener('click', () => {
+        const layer = exportLayerSelect.value;
+        const text = stringifyGeoJSON(this.exportGeoJSON(layer));
+        this.downloadFile(
+          new Blob([text], { type: 'application/geo+json' }),
+          `flat-earth-${layer}-${Date.now()}.geojson`
+        );
+      });
+    }
+    if (overlayFileInput && overlayStatus) {
+      overlayFileInput.addEventListener('change', async () => {
+        const file = overlayFileInput.files?.[0];
+        if (!file || !this.overlayRenderer) return;
+
+        try {
+          const overlays = geoJSONToOverlays(parseGeoJSON(await file.text()));
+          if (overlays.length === 0) {
+            throw new Error('No Point, LineString or Polygon features found');
+          }
+          this.overlayRenderer.setOverlays(
+            [...this.overlayRenderer.getOverlays(), ...overlays],
+            this.simulation.getProjection()
+          );
+          overlayStatus.textContent = `${this.overlayRenderer.getOverlays().length} overlays`;
+          console.log(`✓ Imported ${overlays.length} overlays from ${file.name}`);
+        } catch (error) {
+          overlayStatus.textContent = error instanceof Error ? error.message : 'Failed to load file';
+          console.error('❌ Overlay import failed:', error);
+        }
+      });
+    }
+    overlayClear?.addEventListener('click', () => {
+      this.overlayRenderer?.clear();
+      if (overlayStatus) overlayStatus.textContent = '';
+    });
+
+    // Canvas tools (probe / ruler / vortex)
+    const probeToggle = document.getElementById('probeToggle');
+    const rulerToggle = document.getElementById('rulerToggle');
+    const vortexToggle = document.getElementById('vortexToggle');
+    const setToolMode = (mode: 'pan' | 'probe' | 'ruler' | 'vortex') => {
+      this.toolMode = this.toolMode === mode ? 'pan' : mode;
+      probeToggle?.classList.toggle('active', this.toolMode === 'probe');
+      rulerToggle?.classList.toggle('active', this.toolMode === 'ruler');
+      vortexToggle?.classList.toggle('active', this.toolMode === 'vortex');
+      if (this.toolMode !== 'probe') this.clearProbe();
+    };
+    probeToggle?.addEventListener('click', () => setToolMode('probe'));
+    rulerToggle?.addEventListener('click', () => setToolMode('ruler'));
+    vortexToggle?.addEventListener('click', () => setToolMode('vortex'));
+
+    // Ruler
+    const rulerClear = document.getElementById('rulerClear');
+    const rulerYearsInput = document.getElementById('rulerYears') as HTMLInputElement;
+    if (rulerClear && rulerYearsInput) {
+      rulerClear.addEventListener('click', () => {
+        this.rulerPoints = [];
+      });
+
+      rulerYearsInput.addEventListener('input', () => {
+        const years = parseFloat(rulerYearsInput.value);
+        this.rulerYears = Number.isFinite(years) ? Math.max(0, years) : 0;
+      });
+    }
+
+    // Rotation: mass distribution and observed LOD
+    const massProfileSelect = document.getElementById('massProfile') as HTMLSelectElement;
+    const lodFileInput = document.getElementById('lodFile') as HTMLInputElement;
+    const lodStatus = document.getElementById('lodStatus');
+    const lodCanvas = document.getElementById('lodChart') as HTMLCanvasElement;
+    if (lodCanvas) {
+      this.lodChart = new LODChart(lodCanvas);
+    }
+    if (massProfileSelect) {
+      massProfileSelect.addEventListener('change', () => {
+        this.simulation.getRotation().setProfile(MASS_PROFILES[massProfileSelect.value]);
+        this.updateLODChart();
+      });
+    }
+    if (lodFileInput && lodStatus) {
+      lodFileInput.addEventListener('change', async () => {
+        const file = lodFileInput.files?.[0];
+        if (!file) return;
+
+        try {
+          this.lodRecords = parseLODFile(await file.text());
+          const first = this.lodRecords[0].year;
+          const last = this.lodRecords[this.lodRecords.length - 1].year;
+          lodStatus.textContent = `${this.lodRecords.length} values · ${first.toFixed(1)}–${last.toFixed(1)}`;
+          this.updateLODChart();
+          console.log(`✓ Loaded ${this.lodRecords.length} LOD values from ${file.name}`);
+        } catch (error) {
+          lodStatus.textContent = error instanceof Error ? error.message : 'Failed to load file';
+          console.error('❌ LOD import failed:', error);
         }
       });
     }
 
+    // Reverse time / rewind
+    const reverseBtn = document.getElementById('reverse');
+    if (reverseBtn) {
+      reverseBtn.addEventListener('click', () => {
+        this.simulation.setReversed(!this.simulation.isReversed());
+        reverseBtn.classList.toggle('active', this.simulation.isReversed());
+      });
+    }
+
+    const rewindInput = document.getElementById('rewindMa') as HTMLInputElement;
+    const rewindBtn = document.getElementById('rewind');
+    if (rewindInput && rewindBtn) {
+      rewindBtn.addEventListener('click', () => {
+        const millions = parseFloat(rewindInput.value);
+        if (!Number.isFinite(millions)) return;
+
+        this.simulation.rewind(millions * 1e6);
+        this.gpsRenderer?.updateStations(this.simulation.getGPS());
+
+        // The slider clamps to its range; the label shows the actual time
+        const time = this.simulation.getState().time;
+        const simTimeSlider = document.getElementById('simTime') as HTMLInputElement | null;
+        const simTimeValue = document.getElementById('simTimeValue');
+        if (simTimeSlider) simTimeSlider.value = time.toString();
+        if (simTimeValue) simTimeValue.textContent = `${time.toFixed(0)} years`;
+
+        // The reconstructed disk can be far smaller than today's
+        const rim = MODEL.geometry.ANTARCTIC_RIM_RADIUS * this.simulation.getExpansionScale();
+        this.camera.fitEarth(rim);
+        console.log(`✓ Rewound to ${millions} Ma (rim ${rim.toFixed(1)} km)`);
+      });
+    }
+
     // Play/Pause
     const playPauseBtn = document.getElementById('playPause');
     if (playPauseBtn) {
       playPauseBtn.addEventListener('click', () => {
-        this.state.isPaused = !this.state.isPaused;
-        playPauseBtn.textContent = this.state.isPaused ? '▶ Play' : '⏸ Pause';
+        const isPaused = this.simulation.togglePause();
+        playPauseBtn.textContent = isPaused ? '▶ Play' : '⏸ Pause';
       });
     }
 
@@ -275,12 +606,9 @@ class FlatEarthEngine {
     const resetBtn = document.getElementById('reset');
     if (resetBtn) {
       resetBtn.addEventListener('click', () => {
-        this.state.time = 0;
-        this.state.timeScale = 1.0;
-        this.state.expansionRate = MODEL.expansion.RATE;
-        this.state.fieldStrength = 1.0;
-        this.gps.reset();
+        this.simulation.reset();
         this.camera.fitEarth(MODEL.geometry.ANTARCTIC_RIM_RADIUS);
+        document.getElementById('reverse')?.classList.remove('active');
 
         if (timeScaleSlider) timeScaleSlider.value = '0';
         if (expansionRateSlider) expansionRateSlider.value = '3.3';
@@ -293,11 +621,64 @@ class FlatEarthEngine {
         if (simTimeSlider) simTimeSlider.dispatchEvent(new Event('input'));
 
         if (this.solarRenderer) {
-          this.solarRenderer.updateSunPath(this.solar, 0);
+          this.solarRenderer.updateSunPath(this.simulation.getSolar(), 0);
         }
       });
     }
 
+    // Scenario: share link, save and load
+    const shareScenarioBtn = document.getElementById('shareScenario');
+    const saveScenarioBtn = document.getElementById('saveScenario');
+    const scenarioFileInput = document.getElementById('scenarioFile') as HTMLInputElement;
+    const scenarioStatus = document.getElementById('scenarioStatus');
+    shareScenarioBtn?.addEventListener('click', async () => {
+      const hash = encodeScenarioHash(this.captureScenario());
+      history.replaceState(null, '', hash);
+      try {
+        await navigator.clipboard.writeText(window.location.href);
+        if (scenarioStatus) scenarioStatus.textContent = 'Link copied to clipboard';
+      } catch {
+        if (scenarioStatus) scenarioStatus.textContent = 'Link updated in the address bar';
+      }
+    });
+    saveScenarioBtn?.addEventListener('click', () => {
+      const text = serializeScenario(this.captureScenario());
+      this.downloadFile(
+        new Blob([text], { type: 'application/json' }),
+        `flat-earth-scenario-${Date.now()}.json`
+      );
+    });
+    if (scenarioFileInput && scenarioStatus) {
+      scenarioFileInput.addEventListener('change', async () => {
+        const file = scenarioFileInput.files?.[0];
+        if (!file) return;
+
+        try {
+          this.applyScenario(parseScenario(await file.text()));
+          scenarioStatus.textContent = `Loaded ${file.name}`;
+          console.log(`✓ Loaded scenario from ${file.name}`);
+        } catch (error) {
+          scenarioStatus.textContent = error instanceof Error ? error.message : 'Failed to load file';
+          console.error('❌ Scenario import failed:', error);
+        }
+      });
+    }
+
+    this.setupTourControls();
+
+    // Camera lock-on
+    const followMode = document.getElementById('followMode') as HTMLSelectElement | null;
+    followMode?.addEventListener('change', () => this.setFollowMode(followMode.value));
+
+    // Video render
+    const recordBtn = document.getElementById('recordStart');
+    const recordCancel = document.getElementById('recordCancel');
+    const recordStatus = document.getElementById('recordStatus');
+    if (recordBtn && recordStatus) {
+      recordBtn.addEventListener('click', () => this.startRecording(recordStatus));
+    }
+    recordCancel?.addEventListener('click', () => this.recorder?.cancel());
+
     // Screenshot
     const screenshotBtn = document.getElementById('screenshot');
     if (screenshotBtn) {
@@ -306,6 +687,15 @@ class FlatEarthEngine {
       });
     }
 
+    // Print output: tiled high-resolution PNG and SVG of the line layers
+    const printStatus = document.getElementById('printStatus');
+    const printPNG = document.getElementById('printPNG');
+    const printSVG = document.getElementById('printSVG');
+    if (printStatus) {
+      printPNG?.addEventListener('click', () => this.exportPrint('png', printStatus));
+      printSVG?.addEventListener('click', () => this.exportPrint('svg', printStatus));
+    }
+
     // View mode tabs
     const viewTabs = document.querySelectorAll('.view-tabs button');
     viewTabs.forEach(tab => {
@@ -314,183 +704,685 @@ class FlatEarthEngine {
         tab.classList.add('active');
         const view = tab.getAttribute('data-view') as ViewMode;
         if (view) {
-          this.viewMode = view;
-          // Update toggles based on view
-          this.showStreamlines = view === ViewMode.EM_FIELD;
-          this.showSunPath = view === ViewMode.SOLAR;
-          this.showGPSVectors = view === ViewMode.GPS;
-          this.showClimateEvents = view === ViewMode.CLIMATE;
+          this.setViewMode(view);
         }
       });
     });
 
+    // Layer panel
+    const layerPanelEl = document.getElementById('layerPanel');
+    if (layerPanelEl && this.layers) {
+      this.layerPanel = new LayerPanel(layerPanelEl, this.layers);
+    }
+
     console.log('✓ UI setup complete');
   }
 
   private setupEventListeners(): void {
     window.addEventListener('resize', () => this.handleResize());
+    window.addEventListener('hashchange', () => this.loadScenarioFromHash());
     this.handleResize();
 
-    let isDragging = false;
-    let lastMouseX = 0;
-    let lastMouseY = 0;
-
-    this.canvas.addEventListener('mousedown', (e) => {
-      isDragging = true;
-      lastMouseX = e.clientX;
-      lastMouseY = e.clientY;
+    // Drag, pinch, wheel and keys move the camera; a click without dragging uses the tool
+    this.cameraControls = new CameraControls(this.canvas, this.camera, {
+      onClick: (clientX, clientY) => {
+        if (this.pickingStation) {
+          this.followStationAt(clientX, clientY);
+        } else if (this.toolMode === 'ruler') {
+          this.addRulerPoint(clientX, clientY);
+        } else if (this.toolMode === 'probe') {
+          this.probeAt(clientX, clientY);
+        } else if (this.toolMode === 'vortex') {
+          this.moveVortexAt(clientX, clientY);
+        }
+      },
+      onHome: () => this.fitView(),
     });
 
-    window.addEventListener('mousemove', (e) => {
-      if (!isDragging) return;
+    console.log('✓ Event listeners setup complete');
+  }
+
+  /**
+   * Lock the camera on to the sun, a GPS station (picked by the next click),
+   * or the sun's daily angle; anything else frees the camera
+   */
+  private setFollowMode(mode: string): void {
+    const sim = this.simulation;
+    const sunPosition = () => sim.getSolar().getSunPosition(sim.getTimeInDays());
+    const targets: Record<string, FollowTarget> = {
+      sun: { position: sunPosition },
+      'sun-rotation': {
+        angle: () => {
+          const sun = sunPosition();
+          return Math.atan2(sun.y, sun.x);
+        },
+        pivot: { x: 0, y: 0 },
+      },
+    };
 
-      const dx = e.clientX - lastMouseX;
-      const dy = e.clientY - lastMouseY;
+    const select = document.getElementById('followMode') as HTMLSelectElement | null;
+    if (select) select.value = mode in targets || mode === 'station' ? mode : 'free';
 
-      this.camera.pan(
-        -(dx / this.canvas.width) * 2,
-        (dy / this.canvas.height) * 2
-      );
+    this.pickingStation = mode === 'station';
+    this.cameraFollow.follow(targets[mode] ?? null);
+    this.setFollowStatus(this.pickingStation ? 'Click near a station' : '');
+  }
 
-      lastMouseX = e.clientX;
-      lastMouseY = e.clientY;
-    });
+  /**
+   * Follow the GPS station nearest a client-space position as it drifts
+   */
+  private followStationAt(clientX: number, clientY: number): void {
+    const sim = this.simulation;
+    const point = this.pickPoint(clientX, clientY);
+    let nearest: GPSStation | null = null;
+    let nearestDistance = Infinity;
+    for (const station of sim.getGPS().getStations()) {
+      const distance = polarDistance(point, station.position);
+      if (distance < nearestDistance) {
+        nearest = station;
+        nearestDistance = distance;
+      }
+    }
+    if (!nearest) {
+      this.setFollowStatus('No stations to follow');
+      return;
+    }
 
-    window.addEventListener('mouseup', () => {
-      isDragging = false;
+    const id = nearest.id;
+    this.pickingStation = false;
+    this.cameraFollow.follow({
+      position: () => {
+        const station = sim.getGPS().getStations().find((s) => s.id === id);
+        return station ? polarToCartesian(station.position) : null;
+      },
     });
+    this.setFollowStatus(`Following ${nearest.name ?? id}`);
+  }
 
-    this.canvas.addEventListener('wheel', (e) => {
-      e.preventDefault();
-      const zoomFactor = e.deltaY > 0 ? 0.9 : 1.1;
-      this.camera.zoomBy(zoomFactor);
-    });
+  private setFollowStatus(text: string): void {
+    const status = document.getElementById('followStatus');
+    if (status) status.textContent = text;
+  }
 
-    console.log('✓ Event listeners setup complete');
+  /**
+   * Fit the whole disk at its current (expanded) size
+   */
+  private fitView(): void {
+    this.camera.fitEarth(MODEL.geometry.ANTARCTIC_RIM_RADIUS * this.simulation.getExpansionScale());
   }
 
   private handleResize(): void {
-    const width = window.innerWidth;
-    const height = window.innerHeight;
+    this.resizeCanvas(window.innerWidth, window.innerHeight);
+  }
 
+  private resizeCanvas(width: number, height: number): void {
     this.canvas.width = width;
     this.canvas.height = height;
 
     this.webgl.resize(width, height);
+    this.layers?.resize(width, height);
     this.camera.setAspect(width / height);
   }
 
   private update(deltaTime: number): void {
-    if (!this.state.isPaused) {
-      const deltaYears = (deltaTime / 1000) * this.state.timeScale / (365.24 * 24 * 3600);
-      this.state.time += deltaYears;
+    // A playing tour drives time itself (the simulation is paused meanwhile)
+    this.tourPlayer?.update(deltaTime);
+    this.cameraControls?.update(deltaTime);
+    this.cameraFollow.update(deltaTime);
 
-      this.gps.updatePositions(deltaYears);
+    if (!this.simulation.getState().isPaused) {
+      this.simulation.advance(deltaTime);
 
       // Update GPS renderer every few frames
       if (Math.random() < 0.1 && this.gpsRenderer) {
-        this.gpsRenderer.updateStations(this.gps);
+        this.gpsRenderer.updateStations(this.simulation.getGPS());
       }
     }
 
     this.fpsCounter.update();
   }
 
-  private render(): void {
+  private render(deltaTime: number): void {
     this.webgl.clear();
+    this.layers?.render(deltaTime);
 
-    // Always render Earth base
-    if (this.earthRenderer) {
-      this.earthRenderer.render(this.camera, this.state.time, this.state.expansionRate);
+    this.renderRuler();
+    this.probeRenderer?.render(this.camera);
+    this.updateUI();
+  }
+
+  /**
+   * Register every renderer as a layer (bottom first)
+   */
+  private setupLayers(): void {
+    const sim = this.simulation;
+    const camera = this.camera;
+    const layers = new LayerManager(this.gl, this.shaders.getProgram('composite'));
+    const add = (name: string, label: string, enabled: boolean, render: RenderPass['render']) =>
+      layers.add({ name, label, enabled, opacity: 1, render });
+
+    add('earth', 'Earth disk', true, () => {
+      this.earthRenderer?.render(camera, sim.getExpansion(), sim.getState().time);
+    });
+    add('climate', 'Climate zones', false, () => {
+      const state = sim.getState();
+      this.climateRenderer?.renderOverlay(
+        camera,
+        state.time,
+        sim.getExpansion(),
+        sim.getClimate()
+      );
+    });
+    add('field', 'EM field', false, () => {
+      this.fieldRenderer?.renderOverlay(camera, sim.getEMField().getFieldStrength());
+    });
+    add('illumination', 'Day / night', false, () => {
+      const sunPos = sim.getSolar().getSunPosition(sim.getTimeInDays());
+      this.solarRenderer?.renderIllumination(camera, sunPos);
+    });
+    // Landmass outlines follow the active expansion law
+    add('coastlines', 'Coastlines', true, () => {
+      this.coastlineRenderer?.update(sim.getExpansion(), sim.getState().time);
+      this.coastlineRenderer?.render(camera);
+    });
+    add('streamlines', 'Field lines', false, () => {
+      this.fieldRenderer?.renderStreamlines(camera);
+    });
+    add('particles', 'Field particles', false, (_gl, deltaTime) => {
+      this.particleRenderer?.render(
+        camera,
+        this.fieldRenderer?.getFieldTexture() ?? null,
+        deltaTime
+      );
+    });
+    add('sun-path', 'Sun path', false, () => {
+      this.solarRenderer?.renderSunPath(camera);
+    });
+    add('climate-events', 'Climate events', false, () => {
+      this.climateRenderer?.renderEvents(camera, sim.getExpansion(), sim.getState().time);
+    });
+    add('gps', 'GPS stations', false, () => {
+      this.gpsRenderer?.renderStations(camera);
+    });
+    add('gps-vectors', 'GPS vectors', false, () => {
+      this.gpsRenderer?.renderVectors(camera);
+    });
+    add('sun', 'Sun', false, () => {
+      const sunPos = sim.getSolar().getSunPosition(sim.getTimeInDays());
+      this.solarRenderer?.renderSunMarker(camera, sunPos);
+    });
+    add('overlays', 'Custom overlays', true, () => {
+      this.overlayRenderer?.update(sim.getExpansion(), sim.getState().time);
+      this.overlayRenderer?.render(camera);
+    });
+
+    layers.resize(this.canvas.width, this.canvas.height);
+    this.layers = layers;
+  }
+
+  /**
+   * Apply a view tab: cross-fade its thematic layers in and the others out
+   * Base layers (earth, coastlines, custom overlays) keep their state.
+   */
+  private setViewMode(view: ViewMode): void {
+    this.viewMode = view;
+    if (!this.layers) return;
+
+    const active = VIEW_PRESETS[view];
+    for (const name of Object.values(VIEW_PRESETS).flat()) {
+      if (active.includes(name)) {
+        this.layers.fadeIn(name);
+      } else {
+        this.layers.fadeOut(name);
+      }
     }
+    this.layerPanel?.refresh();
+  }
 
-    // Render view-specific overlays
-    switch (this.viewMode) {
-      case ViewMode.EM_FIELD:
-        if (this.fieldRenderer) {
-          this.fieldRenderer.renderOverlay(this.camera, this.emField.getFieldStrength());
-          if (this.showStreamlines) {
-            this.fieldRenderer.renderStreamlines(this.camera);
-          }
-        }
-        break;
+  /**
+   * Pick the disk point under a client-space position
+   */
+  private pickPoint(clientX: number, clientY: number): PolarCoord {
+    const rect = this.canvas.getBoundingClientRect();
+    const ndcX = ((clientX - rect.left) / rect.width) * 2 - 1;
+    const ndcY = 1 - ((clientY - rect.top) / rect.height) * 2;
+    return cartesianToPolar(this.camera.screenToWorld(ndcX, ndcY));
+  }
 
-      case ViewMode.SOLAR:
-        if (this.solarRenderer) {
-          const timeInDays = this.state.time * 365.24;
-          const sunPos = this.solar.getSunPosition(timeInDays);
-          this.solarRenderer.renderIllumination(this.camera, sunPos);
+  /**
+   * Sample the simulation under the cursor
+   * Every second click measures from the previous sample, then starts over.
+   */
+  private probeAt(clientX: number, clientY: number): void {
+    const sample = this.simulation.probe(this.pickPoint(clientX, clientY));
+    const anchor = this.probeAnchor ?? undefined;
+
+    this.probeTooltip?.show(clientX, clientY, sample, anchor);
+    this.probeRenderer?.update(anchor ? [anchor.position, sample.position] : [sample.position]);
+    this.probeAnchor = anchor ? null : sample;
+  }
 
-          if (this.showSunPath) {
-            this.solarRenderer.renderSunPath(this.camera);
-          }
+  private clearProbe(): void {
+    this.probeAnchor = null;
+    this.probeTooltip?.hide();
+    this.probeRenderer?.clear();
+  }
 
-          // Always show sun marker
-          this.solarRenderer.renderSunMarker(this.camera, sunPos);
-        }
-        break;
+  /**
+   * Convert a client-space click to a ruler point at reference time
+   */
+  private addRulerPoint(clientX: number, clientY: number): void {
+    const point = this.pickPoint(clientX, clientY);
 
-      case ViewMode.GPS:
-        if (this.gpsRenderer) {
-          this.gpsRenderer.renderStations(this.camera);
-          if (this.showGPSVectors) {
-            this.gpsRenderer.renderVectors(this.camera);
-          }
-        }
-        break;
-
-      case ViewMode.CLIMATE:
-        if (this.climateRenderer) {
-          this.climateRenderer.renderOverlay(
-            this.camera,
-            this.state.time,
-            this.state.expansionRate,
-            this.climate
-          );
-          if (this.showClimateEvents) {
-            this.climateRenderer.renderEvents(this.camera);
-          }
-        }
-        break;
+    const time = this.simulation.getState().time;
+    this.rulerPoints.push(...expandPoints([point], this.simulation.getExpansion(), time, 0));
+  }
+
+  private renderRuler(): void {
+    const statusEl = document.getElementById('rulerStatus');
+    if (!this.rulerRenderer) return;
+
+    if (this.rulerPoints.length === 0) {
+      this.rulerRenderer.clear();
+      if (statusEl) statusEl.textContent = '';
+      return;
     }
 
-    this.updateUI();
+    const expansion = this.simulation.getExpansion();
+    const time = this.simulation.getState().time;
+    const current = expandPoints(this.rulerPoints, expansion, 0, time);
+    const future = expandPoints(this.rulerPoints, expansion, 0, time + this.rulerYears);
+
+    this.rulerRenderer.update(current, this.rulerYears > 0 ? future : []);
+    this.rulerRenderer.render(this.camera);
+
+    if (statusEl) {
+      const m = measurePath(current, expansion, time, this.rulerYears);
+      const parts = [
+        `${m.length.initial.toFixed(0)} km → ${m.length.final.toFixed(0)} km ` +
+          `(+${m.length.change.toFixed(1)} km in ${m.years} yr)`,
+      ];
+      if (m.bearing !== null) parts.push(`bearing ${m.bearing.toFixed(0)}°`);
+      if (m.area) parts.push(`area ${m.area.initial.toExponential(3)} km² (+${m.area.percent.toFixed(2)}%)`);
+      if (this.viewMode === ViewMode.EM_FIELD && current.length >= 2) {
+        parts.push(...this.describeFieldIntegrals(current.map(polarToCartesian)));
+      }
+      statusEl.textContent = parts.join(' · ');
+    }
+  }
+
+  /**
+   * Line integral along the ruler path and, once it encloses an area, the
+   * circulation around and flux out of the closed polygon
+   */
+  private describeFieldIntegrals(path: Vector2[]): string[] {
+    const field = this.simulation.getEMField();
+    const parts = [`∫B·dl ${field.getCirculation(path).toExponential(3)}`];
+    if (path.length >= 3) {
+      parts.push(
+        `∮B·dl ${field.getCirculation(path, true).toExponential(3)}`,
+        `flux ∮B·n ds ${field.getFlux(path).toExponential(3)}`
+      );
+    }
+    return parts;
   }
 
   private updateUI(): void {
     const fpsEl = document.getElementById('fps');
     if (fpsEl) fpsEl.textContent = this.fpsCounter.getFPS().toString();
 
+    const state = this.simulation.getState();
+
     const timeEl = document.getElementById('currentTime');
-    if (timeEl) timeEl.textContent = `${this.state.time.toFixed(2)} yr`;
+    if (timeEl) timeEl.textContent = `${state.time.toFixed(2)} yr`;
 
     const radiusEl = document.getElementById('earthRadius');
     if (radiusEl) {
-      const expandedRadius = this.expansion.getExpandedRadius(MODEL.geometry.ANTARCTIC_RIM_RADIUS, this.state.time);
+      const expandedRadius = this.simulation
+        .getExpansion()
+        .getExpandedRadius(MODEL.geometry.ANTARCTIC_RIM_RADIUS, state.time);
       radiusEl.textContent = `${expandedRadius.toFixed(0)} km`;
     }
 
     const dayLengthEl = document.getElementById('dayLength');
     if (dayLengthEl) {
-      const dayLength = this.expansion.getDayLength(this.state.time);
+      const dayLength = this.simulation.getRotation().getDayLength(state.time);
       dayLengthEl.textContent = `${dayLength.toFixed(3)} hr`;
     }
 
+    const lodRateEl = document.getElementById('lodRate');
+    if (lodRateEl) {
+      const lodRate = this.simulation.getRotation().getLODRate(state.time);
+      lodRateEl.textContent = `${lodRate.toPrecision(3)} ms/cy`;
+    }
+
     const sunPosEl = document.getElementById('sunPos');
     if (sunPosEl) {
-      const timeInDays = this.state.time * 365.24;
-      const sunPolar = this.solar.getSunPositionPolar(timeInDays);
-      sunPosEl.textContent = `r=${sunPolar.r.toFixed(0)} km`;
+      const sunPolar = this.simulation.getSolar().getSunPositionPolar(this.simulation.getTimeInDays());
+      const sunLatLon = this.simulation.getProjection().inverse(sunPolar);
+      sunPosEl.textContent = `r=${sunPolar.r.toFixed(0)} km (${formatLatLon(sunLatLon)})`;
+    }
+  }
+
+  /**
+   * Redraw the observed vs modelled LOD chart
+   */
+  private updateLODChart(): void {
+    const panel = document.getElementById('lodPanel');
+    if (!this.lodChart || !panel || this.lodRecords.length === 0) return;
+
+    panel.classList.remove('hidden');
+    this.lodChart.render(compareLOD(this.simulation.getRotation(), this.lodRecords));
+  }
+
+  /**
+   * Switch projection and re-place everything derived from lat/lon
+   */
+  private setProjection(name: string): void {
+    this.simulation.setProjection(getProjection(name));
+    this.reprojectRenderers();
+    console.log(`✓ Projection set to ${name}`);
+  }
+
+  /**
+   * Re-place renderer data derived from lat/lon after a projection change
+   */
+  private reprojectRenderers(): void {
+    const gps = this.simulation.getGPS();
+    if (this.observedGPSText && gps.isObserved()) {
+      gps.loadStations(
+        loadStationFile(this.observedGPSText, { projection: this.simulation.getProjection() })
+      );
+    }
+    if (this.gpsRenderer) {
+      this.gpsRenderer.updateStations(gps);
+    }
+    if (this.climateRenderer) {
+      this.climateRenderer.generateEventMarkers(this.simulation.getClimate());
+    }
+    this.coastlineRenderer?.setProjection(this.simulation.getProjection());
+    this.overlayRenderer?.setProjection(this.simulation.getProjection());
+  }
+
+  /**
+   * Field model picker, model parameters and the expression editor
+   */
+  private setupFieldModelControls(): void {
+    const modelSelect = document.getElementById('fieldModel') as HTMLSelectElement | null;
+    const angleInput = document.getElementById('fieldAngle') as HTMLInputElement | null;
+    const radialInput = document.getElementById('fieldRadial') as HTMLInputElement | null;
+    const tangentialInput = document.getElementById('fieldTangential') as HTMLInputElement | null;
+    const status = document.getElementById('fieldModelStatus');
+
+    const tryModel = (build: () => FieldModel) => {
+      try {
+        this.setFieldModel(build());
+      } catch (error) {
+        if (status) status.textContent = error instanceof Error ? error.message : String(error);
+      }
+    };
+    const angle = () => (parseFloat(angleInput?.value ?? '0') || 0) * (Math.PI / 180);
+    const expression = () =>
+      createFieldModel({
+        name: 'expression',
+        radial: radialInput?.value,
+        tangential: tangentialInput?.value,
+      });
+
+    modelSelect?.addEventListener('change', () => {
+      const name = modelSelect.value;
+      if (name === 'expression') {
+        tryModel(expression);
+      } else {
+        tryModel(() => createFieldModel({ name, angle: angle() }));
+      }
+    });
+    angleInput?.addEventListener('change', () => {
+      const name = this.simulation.getFieldModel().name;
+      if (name === 'dipole' || name === 'uniform') {
+        tryModel(() => createFieldModel({ name, angle: angle() }));
+      }
+    });
+    document.getElementById('fieldExpressionApply')?.addEventListener('click', () => {
+      tryModel(expression);
+    });
+
+    const overlaySelect = document.getElementById('fieldOverlayMode') as HTMLSelectElement | null;
+    overlaySelect?.addEventListener('change', () => {
+      this.fieldRenderer?.setOverlayMode(overlaySelect.value as FieldOverlayMode);
+      this.refreshFieldOverlay();
+      // Picking a style implies wanting to see it
+      if (this.layers?.get('field')?.enabled === false) this.layers.fadeIn('field');
+    });
+    document.getElementById('fieldProfileExport')?.addEventListener('click', () => {
+      const profile = this.simulation.getEMField().getRadialProfile();
+      this.downloadFile(
+        new Blob([profileToCSV(profile)], { type: 'text/csv' }),
+        `flat-earth-field-profile-${this.simulation.getFieldModel().name}-${Date.now()}.csv`
+      );
+    });
+
+    document.getElementById('vortexAdd')?.addEventListener('click', () => {
+      const model = this.simulation.getFieldModel();
+      if (!(model instanceof MultiVortexFieldModel)) return;
+      // New vortices appear at the view centre, spinning against the last one
+      const { x, y } = this.camera.getState();
+      const last = model.getSources()[model.getSources().length - 1];
+      model.addSource({ x, y, strength: last.strength > 0 ? -1 : 1 });
+      this.refreshField();
+      this.syncFieldControls();
+    });
+    document.getElementById('vortexRemove')?.addEventListener('click', () => {
+      const model = this.simulation.getFieldModel();
+      if (!(model instanceof MultiVortexFieldModel)) return;
+      model.removeSource(model.getSources().length - 1);
+      this.refreshField();
+      this.syncFieldControls();
+    });
+
+    this.syncFieldControls();
+  }
+
+  /**
+   * Switch field model and rebuild everything drawn from it
+   */
+  private setFieldModel(model: FieldModel): void {
+    this.simulation.setFieldModel(model);
+    this.refreshField();
+    this.syncFieldControls();
+    console.log(`✓ Field model set to ${model.name}`);
+  }
+
+  /**
+   * Regenerate streamlines and the overlay texture from the current field model
+   */
+  private refreshField(): void {
+    const field = this.simulation.getEMField();
+    this.fieldRenderer?.generateStreamlines(field);
+    this.fieldRenderer?.updateFieldTexture(field);
+    this.refreshFieldOverlay();
+  }
+
+  /**
+   * Build the divergence / curl map the overlay style needs and describe its scale
+   */
+  private refreshFieldOverlay(): void {
+    const renderer = this.fieldRenderer;
+    const status = document.getElementById('fieldOverlayStatus');
+    if (!renderer) return;
+
+    const mode = renderer.getOverlayMode();
+    if (mode === 'divergence' || mode === 'curl') {
+      renderer.updateScalarTexture(this.simulation.getEMField(), mode);
+      if (status) {
+        const range = renderer.getScalarRange().toPrecision(2);
+        status.textContent = `${mode} in units of |B|/r, full colour at ±${range}`;
+      }
+      return;
+    }
+
+    const range = renderer.getMagnitudeRange();
+    if (status) {
+      const b0 = MODEL.electromagnetic.VORTEX_STRENGTH_B0;
+      const [low, high] = [range.min, range.max].map((value) => (value * b0).toExponential(1));
+      status.textContent = `|B| log scale ${low} – ${high} (strength 1.0)`;
+    }
+  }
+
+  /**
+   * Move the nearest multi-vortex source to the clicked point
+   */
+  private moveVortexAt(clientX: number, clientY: number): void {
+    const model = this.simulation.getFieldModel();
+    if (!(model instanceof MultiVortexFieldModel)) return;
+
+    const point = polarToCartesian(this.pickPoint(clientX, clientY));
+    model.moveSource(model.nearestSource(point), point);
+    this.refreshField();
+  }
+
+  /**
+   * Show the parameter controls of the current field model
+   */
+  private syncFieldControls(): void {
+    const model = this.simulation.getFieldModel();
+    const spec = model.toSpec();
+    const setHidden = (id: string, hidden: boolean) => {
+      document.getElementById(id)?.classList.toggle('hidden', hidden);
+    };
+
+    const modelSelect = document.getElementById('fieldModel') as HTMLSelectElement | null;
+    if (modelSelect) modelSelect.value = model.name;
+    setHidden('fieldAngleControls', spec.angle === undefined);
+    setHidden('fieldVortexControls', !(model instanceof MultiVortexFieldModel));
+    setHidden('fieldExpressionControls', model.name !== 'expression');
+
+    if (spec.angle !== undefined) {
+      const angleInput = document.getElementById('fieldAngle') as HTMLInputElement | null;
+      if (angleInput) angleInput.value = ((spec.angle * 180) / Math.PI).toFixed(0);
+    }
+    if (spec.radial !== undefined && spec.tangential !== undefined) {
+      const radialInput = document.getElementById('fieldRadial') as HTMLInputElement | null;
+      const tangentialInput = document.getElementById('fieldTangential') as HTMLInputElement | null;
+      if (radialInput) radialInput.value = spec.radial;
+      if (tangentialInput) tangentialInput.value = spec.tangential;
+    }
+
+    if (!(model instanceof MultiVortexFieldModel) && this.toolMode === 'vortex') {
+      this.toolMode = 'pan';
+      document.getElementById('vortexToggle')?.classList.remove('active');
+    }
+
+    const status = document.getElementById('fieldModelStatus');
+    if (status) {
+      status.textContent =
+        model instanceof MultiVortexFieldModel
+          ? `${model.label} · ${model.getSources().length} sources`
+          : model.label;
+    }
+  }
+
+  private captureScenario(): ScenarioDocument {
+    return captureScenario(this.simulation, {
+      camera: this.camera.getState(),
+      view: this.viewMode,
+      layers: (this.layers?.getLayers() ?? []).map((layer) => ({
+        name: layer.name,
+        enabled: layer.enabled,
+        opacity: layer.opacity,
+        blendMode: layer.blendMode ?? 'alpha',
+      })),
+    });
+  }
+
+  /**
+   * Restore a scenario: simulation, camera, view tab and layer stack
+   */
+  private applyScenario(scenario: ScenarioDocument): void {
+    const projectionChanged =
+      this.simulation.getProjection().name !== scenario.simulation.projection;
+    applyScenario(this.simulation, scenario.simulation);
+    if (projectionChanged) {
+      this.reprojectRenderers();
+    }
+
+    this.gpsRenderer?.updateStations(this.simulation.getGPS());
+    this.refreshField();
+    this.solarRenderer?.updateSunPath(this.simulation.getSolar(), this.simulation.getTimeInDays());
+    this.camera.setState(scenario.camera);
+
+    this.viewMode = scenario.view;
+    document.querySelectorAll('.view-tabs button').forEach((tab) => {
+      tab.classList.toggle('active', tab.getAttribute('data-view') === scenario.view);
+    });
+    if (this.layers) {
+      for (const layer of scenario.layers) {
+        if (!this.layers.get(layer.name)) continue;
+        this.layers.setEnabled(layer.name, layer.enabled);
+        this.layers.setOpacity(layer.name, layer.opacity);
+        this.layers.setBlendMode(layer.name, layer.blendMode);
+      }
+      this.layers.setOrder(scenario.layers.map((layer) => layer.name));
+      this.layerPanel?.refresh();
+    }
+
+    this.syncControls();
+    this.updateLODChart();
+  }
+
+  private loadScenarioFromHash(): void {
+    try {
+      const scenario = decodeScenarioHash(window.location.hash);
+      if (scenario) {
+        this.applyScenario(scenario);
+        console.log('✓ Loaded scenario from URL');
+      }
+    } catch (error) {
+      console.error('❌ Scenario link could not be applied:', error);
     }
   }
 
+  /**
+   * Bring form controls in line with the simulation after a scenario load
+   */
+  private syncControls(): void {
+    const sim = this.simulation;
+    const state = sim.getState();
+    const setValue = (id: string, value: string) => {
+      const el = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+      if (el) el.value = value;
+    };
+    const setText = (id: string, text: string) => {
+      const el = document.getElementById(id);
+      if (el) el.textContent = text;
+    };
+
+    // Set the label directly: an input event would re-read the clamped slider
+    setValue('timeScale', Math.log10(state.timeScale).toString());
+    setText('timeScaleValue', formatTimeScale(state.timeScale));
+    setValue('expansionRate', state.expansionRate.toString());
+    setText('expansionRateValue', `${state.expansionRate.toFixed(1)} cm/yr`);
+    setValue('fieldStrength', state.fieldStrength.toString());
+    setText('fieldStrengthValue', state.fieldStrength.toFixed(1));
+    setValue('simTime', state.time.toString());
+    setText('simTimeValue', `${state.time.toFixed(0)} years`);
+
+    setValue('projection', sim.getProjection().name);
+    setValue('stationDistribution', sim.getDistribution());
+    setValue('stationSeed', sim.getSeed().toString());
+    setValue('massProfile', sim.getRotation().getProfile().name);
+    setText('playPause', state.isPaused ? '▶ Play' : '⏸ Pause');
+    document.getElementById('reverse')?.classList.toggle('active', sim.isReversed());
+    this.syncFieldControls();
+  }
+
   private animate(): void {
     const currentTime = performance.now();
     const deltaTime = currentTime - this.lastTime;
     this.lastTime = currentTime;
 
     this.update(deltaTime);
-    this.render();
+    this.render(deltaTime);
 
     this.animationFrame = requestAnimationFrame(() => this.animate());
   }
@@ -498,16 +1390,396 @@ class FlatEarthEngine {
   private takeScreenshot(): void {
     this.canvas.toBlob((blob) => {
       if (blob) {
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `flat-earth-${this.viewMode}-${Date.now()}.png`;
-        a.click();
-        URL.revokeObjectURL(url);
+        this.downloadFile(blob, `flat-earth-${this.viewMode}-${Date.now()}.png`);
+      }
+    });
+  }
+
+  /**
+   * Keyframe editing, playback and tour files
+   */
+  private setupTourControls(): void {
+    const sim = this.simulation;
+    const status = document.getElementById('tourStatus');
+    const caption = document.getElementById('tourCaption');
+    const input = (id: string) => document.getElementById(id) as HTMLInputElement | null;
+    const setStatus = (text: string) => {
+      if (status) status.textContent = text;
+    };
+    const describe = () => `${this.tour.keyframes.length} keyframe(s)`;
+
+    this.tourPlayer = new TourPlayer({
+      camera: this.camera,
+      setTime: (time) => {
+        sim.setTime(time);
+        this.gpsRenderer?.updateStations(sim.getGPS());
+      },
+      setLayers: (names) => {
+        for (const layer of this.layers?.getLayers() ?? []) {
+          const wanted = names.includes(layer.name);
+          if (wanted && !layer.enabled) this.layers?.fadeIn(layer.name);
+          if (!wanted && layer.enabled) this.layers?.fadeOut(layer.name);
+        }
+        this.layerPanel?.refresh();
+      },
+      showCaption: (text) => {
+        if (!caption) return;
+        caption.textContent = text ?? '';
+        caption.classList.toggle('hidden', !text);
+      },
+      onFinish: () => this.endTour(),
+    });
+
+    document.getElementById('tourAdd')?.addEventListener('click', () => {
+      const seconds = (id: string, fallback: number) => {
+        const value = parseFloat(input(id)?.value ?? '');
+        return Number.isFinite(value) && value >= 0 ? value * 1000 : fallback;
+      };
+      this.tour.keyframes.push({
+        camera: this.camera.getState(),
+        time: sim.getState().time,
+        layers: (this.layers?.getLayers() ?? []).filter((l) => l.enabled).map((l) => l.name),
+        caption: input('tourCaptionText')?.value.trim() || undefined,
+        duration: seconds('tourTravel', 3000),
+        hold: seconds('tourHold', 2000),
+        easing: ((document.getElementById('tourEasing') as HTMLSelectElement | null)?.value ??
+          'ease-in-out') as EasingName,
+      });
+      setStatus(describe());
+    });
+    document.getElementById('tourUndo')?.addEventListener('click', () => {
+      this.tour.keyframes.pop();
+      setStatus(describe());
+    });
+    document.getElementById('tourPlay')?.addEventListener('click', () => {
+      if (this.tourPlayer?.isPlaying()) return;
+      try {
+        this.tour.loop = input('tourLoop')?.checked ?? false;
+        this.pausedBeforeTour = sim.getState().isPaused;
+        sim.setPaused(true);
+        this.setFollowMode('free'); // The tour owns the camera
+        this.tourPlayer?.play(this.tour);
+        setStatus(`Playing ${describe()}`);
+      } catch (error) {
+        sim.setPaused(this.pausedBeforeTour);
+        setStatus(error instanceof Error ? error.message : 'Tour failed');
+      }
+    });
+    document.getElementById('tourStop')?.addEventListener('click', () => {
+      if (!this.tourPlayer?.isPlaying()) return;
+      this.tourPlayer.stop();
+      this.endTour();
+    });
+    document.getElementById('tourSave')?.addEventListener('click', () => {
+      this.downloadFile(
+        new Blob([serializeTour(this.tour)], { type: 'application/json' }),
+        `flat-earth-tour-${Date.now()}.json`
+      );
+    });
+
+    const tourFile = input('tourFile');
+    tourFile?.addEventListener('change', async () => {
+      const file = tourFile.files?.[0];
+      if (!file) return;
+
+      try {
+        this.tour = parseTour(await file.text());
+        const loop = input('tourLoop');
+        if (loop) loop.checked = this.tour.loop;
+        setStatus(`Loaded "${this.tour.title}": ${describe()}`);
+        console.log(`✓ Loaded tour from ${file.name}`);
+      } catch (error) {
+        setStatus(error instanceof Error ? error.message : 'Failed to load file');
+        console.error('❌ Tour import failed:', error);
       }
     });
   }
 
+  /**
+   * Hand control back after a tour stops or finishes
+   */
+  private endTour(): void {
+    this.simulation.setPaused(this.pausedBeforeTour);
+    this.gpsRenderer?.updateStations(this.simulation.getGPS());
+    this.syncControls();
+    const status = document.getElementById('tourStatus');
+    if (status) status.textContent = `${this.tour.keyframes.length} keyframe(s)`;
+  }
+
+  /**
+   * Export the current view at the print size as a PNG or an SVG
+   */
+  private exportPrint(format: 'png' | 'svg', statusEl: HTMLElement): void {
+    const size = (id: string) =>
+      Math.round(parseFloat((document.getElementById(id) as HTMLInputElement | null)?.value ?? ''));
+    const width = size('printWidth');
+    const height = size('printHeight');
+    const max = RENDER_CONFIG.PRINT_MAX_SIZE;
+    if (!(width > 0 && height > 0 && width <= max && height <= max)) {
+      statusEl.textContent = `Size must be 1–${max} px per side`;
+      return;
+    }
+
+    const filename = `flat-earth-${this.viewMode}-${width}x${height}-${Date.now()}`;
+    try {
+      if (format === 'svg') {
+        const svg = this.exportSVG(width, height);
+        this.downloadFile(new Blob([svg], { type: 'image/svg+xml' }), `${filename}.svg`);
+        statusEl.textContent = `Saved SVG (${(svg.length / 1e3).toFixed(0)} kB)`;
+        return;
+      }
+
+      const output = this.renderHighRes(width, height);
+      statusEl.textContent = 'Encoding PNG…';
+      output.toBlob((blob) => {
+        if (!blob) {
+          statusEl.textContent = 'PNG encoding failed';
+          return;
+        }
+        this.downloadFile(blob, `${filename}.png`);
+        statusEl.textContent = `Saved PNG (${(blob.size / 1e6).toFixed(1)} MB)`;
+      }, 'image/png');
+    } catch (error) {
+      statusEl.textContent = error instanceof Error ? error.message : 'Export failed';
+      console.error('❌ Print export failed:', error);
+    }
+  }
+
+  /**
+   * Render the layer stack offscreen at an arbitrary size, tile by tile
+   * The vertical extent matches the live view; the width follows the aspect.
+   */
+  private renderHighRes(width: number, height: number): HTMLCanvasElement {
+    const camera = this.camera;
+    const layers = this.layers;
+    camera.setAspect(width / height);
+
+    try {
+      return this.webgl.renderOffscreen(
+        width,
+        height,
+        (tile) => {
+          camera.setCrop(
+            (tile.x / width) * 2 - 1,
+            (tile.y / height) * 2 - 1,
+            ((tile.x + tile.width) / width) * 2 - 1,
+            ((tile.y + tile.height) / height) * 2 - 1
+          );
+          layers?.resize(tile.width, tile.height);
+          layers?.render(0);
+          this.renderRuler();
+        },
+        RENDER_CONFIG.PRINT_TILE_SIZE
+      );
+    } finally {
+      camera.clearCrop();
+      camera.setAspect(this.canvas.width / this.canvas.height);
+      layers?.resize(this.canvas.width, this.canvas.height);
+    }
+  }
+
+  /**
+   * Vector export of the enabled line layers, in stack order
+   */
+  private exportSVG(width: number, height: number): string {
+    const sim = this.simulation;
+    const time = sim.getState().time;
+    const expand = (r: number) => sim.getExpansion().getExpandedRadius(r, time);
+    const boundaries = sim.getClimate().getZoneBoundaries();
+    const ringsOf = (prefix: string) =>
+      boundaries.filter((b) => b.name.startsWith(prefix)).map((b) => expand(b.radius));
+
+    const sources: Record<string, () => SVGLayer[]> = {
+      earth: () => [
+        {
+          name: 'rim',
+          color: COLORS.EARTH.RIM,
+          strokeWidth: 2,
+          rings: [expand(MODEL.geometry.ANTARCTIC_RIM_RADIUS)],
+        },
+      ],
+      climate: () => [
+        {
+          name: 'heating-zone',
+          color: COLORS.CLIMATE.HEATING,
+          strokeWidth: 2,
+          rings: ringsOf('heating'),
+        },
+        {
+          name: 'cooling-zone',
+          color: COLORS.CLIMATE.COOLING,
+          strokeWidth: 2,
+          rings: ringsOf('cooling'),
+        },
+      ],
+      coastlines: () => [
+        {
+          name: 'coastlines',
+          color: COLORS.COASTLINE,
+          strokeWidth: 1,
+          paths: this.coastlineRenderer?.getSegments() ?? [],
+        },
+      ],
+      streamlines: () => [
+        {
+          name: 'streamlines',
+          color: COLORS.EM_FIELD.MED,
+          strokeWidth: 2,
+          paths: this.fieldRenderer?.getStreamlinePaths() ?? [],
+        },
+      ],
+      'sun-path': () => [
+        {
+          name: 'sun-path',
+          color: COLORS.SOLAR.SUN,
+          strokeWidth: 2,
+          paths: [this.solarRenderer?.getSunPath() ?? []],
+        },
+      ],
+      'gps-vectors': () => [
+        {
+          name: 'gps-vectors',
+          color: COLORS.GPS.VECTOR,
+          strokeWidth: 1.5,
+          paths: this.gpsRenderer?.getVectorSegments() ?? [],
+        },
+      ],
+    };
+
+    const svgLayers: SVGLayer[] = [];
+    for (const layer of this.layers?.getLayers() ?? []) {
+      const build = sources[layer.name];
+      if (!layer.enabled || !build) continue;
+      for (const svgLayer of build()) {
+        const [r, g, b, a] = svgLayer.color;
+        svgLayers.push({ ...svgLayer, color: [r, g, b, a * layer.opacity] });
+      }
+    }
+    if (svgLayers.length === 0) {
+      throw new Error('Enable at least one line layer to export');
+    }
+
+    const camera = this.camera;
+    camera.setAspect(width / height);
+    try {
+      return buildSVG(camera, svgLayers, {
+        width,
+        height,
+        background: RENDER_CONFIG.CLEAR_COLOR,
+        title: `Flat Earth Engine, t = ${time.toFixed(1)} years`,
+      });
+    } finally {
+      camera.setAspect(this.canvas.width / this.canvas.height);
+    }
+  }
+
+  /**
+   * Render the configured time range offline, then restore the live view
+   */
+  private async startRecording(statusEl: HTMLElement): Promise<void> {
+    if (this.recorder?.isRecording()) return;
+
+    const number = (id: string) =>
+      parseFloat((document.getElementById(id) as HTMLInputElement | null)?.value ?? '');
+    const format = ((document.getElementById('recordFormat') as HTMLSelectElement | null)?.value ??
+      'webm') as RecordingFormat;
+    const settings = {
+      width: Math.round(number('recordWidth')),
+      height: Math.round(number('recordHeight')),
+      fps: number('recordFps'),
+      duration: number('recordDuration'),
+      startTime: number('recordFrom'),
+      endTime: number('recordTo'),
+    };
+    if (!Object.values(settings).every(Number.isFinite)) {
+      statusEl.textContent = 'Fill in every recording field';
+      return;
+    }
+    const options = { format, ...settings };
+
+    const sim = this.simulation;
+    const previousTime = sim.getState().time;
+    this.recorder = new FrameRecorder({
+      canvas: this.canvas,
+      resize: (width, height) => this.resizeCanvas(width, height),
+      setTime: (time) => {
+        sim.setTime(time);
+        this.gpsRenderer?.updateStations(sim.getGPS());
+      },
+      renderFrame: (frameMs) => {
+        this.cameraFollow.update(frameMs);
+        this.render(frameMs);
+      },
+      onProgress: (frame, total) => {
+        statusEl.textContent = `Frame ${frame} / ${total}`;
+      },
+      extraFiles: () => [
+        {
+          name: 'scenario.json',
+          data: new TextEncoder().encode(serializeScenario(this.captureScenario())),
+        },
+      ],
+    });
+
+    // The live loop would advance time between captured frames
+    cancelAnimationFrame(this.animationFrame);
+    try {
+      const blob = await this.recorder.record(options);
+      const extension = format === 'webm' ? 'webm' : 'zip';
+      this.downloadFile(blob, `flat-earth-${this.viewMode}-${Date.now()}.${extension}`);
+      statusEl.textContent = `Saved ${(blob.size / 1e6).toFixed(1)} MB`;
+      console.log(`✓ Recorded ${options.duration}s at ${options.fps} fps (${format})`);
+    } catch (error) {
+      statusEl.textContent = error instanceof Error ? error.message : 'Recording failed';
+      console.error('❌ Recording failed:', error);
+    } finally {
+      sim.setTime(previousTime);
+      this.gpsRenderer?.updateStations(sim.getGPS());
+      this.handleResize();
+      this.lastTime = performance.now();
+      this.animate();
+    }
+  }
+
+  private downloadFile(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Build a GeoJSON export of one overlay (or all of them) at the current time
+   */
+  private exportGeoJSON(layer: string): GeoJSONFeatureCollection {
+    const sim = this.simulation;
+    const projection = sim.getProjection();
+    const layers: Record<string, () => GeoJSONFeatureCollection> = {
+      stations: () =>
+        stationsToGeoJSON(sim.getGPS().getStations(), projection, sim.getState().time),
+      streamlines: () =>
+        streamlinesToGeoJSON(
+          sim.getEMField().generateStreamlines(),
+          projection
+        ),
+      'sun-path': () => sunPathToGeoJSON(sim.getSolar().getAnnualSunPath(), projection),
+      'climate-zones': () => climateZonesToGeoJSON(sim.getClimate(), projection),
+      'climate-events': () =>
+        climateEventsToGeoJSON(sim.getClimate().generateClimateEvents(), projection),
+    };
+
+    if (layer === 'all') {
+      return mergeCollections(...Object.values(layers).map((build) => build()));
+    }
+    const build = layers[layer];
+    if (!build) {
+      throw new Error(`Unknown export layer "${layer}"`);
+    }
+    return build();
+  }
+
   public dispose(): void {
     if (this.animationFrame) {
       cancelAnimationFrame(this.animationFrame);
@@ -516,9 +1788,17 @@ class FlatEarthEngine {
     this.shaders.dispose();
     this.earthRenderer?.dispose();
     this.fieldRenderer?.dispose();
+    this.particleRenderer?.dispose();
     this.solarRenderer?.dispose();
     this.gpsRenderer?.dispose();
     this.climateRenderer?.dispose();
+    this.layers?.dispose();
+    this.coastlineRenderer?.dispose();
+    this.overlayRenderer?.dispose();
+    this.rulerRenderer?.dispose();
+    this.probeRenderer?.dispose();
+    this.probeTooltip?.dispose();
+    this.cameraControls?.dispose();
   }
 }
 
@@ -0,0 +1,87 @@
+/**
+ * Camera Follow - Lock the camera on to a moving target
+ *
+ * A target can supply a position (the view centres on it) and/or an angle
+ * (the view co-rotates with it). Locking on glides to the target; manual pans
+ * spring back, while manual rotation is kept as an offset from the angle.
+ */
+
+import type { Camera } from './camera';
+import type { Vector2 } from '../types';
+
+const GLIDE_TIME = 300; // ms for the centring offset to fall to 1/e
+
+export interface FollowTarget {
+  position?(): Vector2 | null; // World position to centre on (null = lost)
+  angle?(): number | null; // World angle (rad) to hold fixed on screen
+  pivot?: Vector2; // World point co-rotation turns about (default: view centre)
+}
+
+export class CameraFollow {
+  private camera: Camera;
+  private target: FollowTarget | null = null;
+
+  private offset: Vector2 = { x: 0, y: 0 }; // Camera position − target position
+  private angleOffset: number = 0; // Camera rotation − target angle
+  private applied: { x: number; y: number; rotation: number } | null = null;
+
+  constructor(camera: Camera) {
+    this.camera = camera;
+  }
+
+  /**
+   * Start following a target (null releases the camera)
+   */
+  public follow(target: FollowTarget | null): void {
+    this.target = target;
+    this.applied = null;
+    if (!target) return;
+
+    const state = this.camera.getState();
+    const position = target.position?.();
+    this.offset = position ? { x: state.x - position.x, y: state.y - position.y } : { x: 0, y: 0 };
+    const angle = target.angle?.();
+    this.angleOffset = angle != null ? state.rotation - angle : 0;
+  }
+
+  public isFollowing(): boolean {
+    return this.target !== null;
+  }
+
+  /**
+   * Move the camera with the target; call once per frame after input handling
+   */
+  public update(deltaTime: number): void {
+    const target = this.target;
+    if (!target) return;
+
+    // Fold manual camera moves since the last frame into the offsets
+    const state = this.camera.getState();
+    if (this.applied) {
+      this.offset.x += state.x - this.applied.x;
+      this.offset.y += state.y - this.applied.y;
+      this.angleOffset += state.rotation - this.applied.rotation;
+    }
+
+    const position = target.position?.();
+    if (position) {
+      const decay = Math.exp(-deltaTime / GLIDE_TIME);
+      this.offset.x *= decay;
+      this.offset.y *= decay;
+      this.camera.setPosition(position.x + this.offset.x, position.y + this.offset.y);
+    }
+
+    const angle = target.angle?.();
+    if (angle != null) {
+      const turn = angle + this.angleOffset - state.rotation;
+      if (target.pivot) {
+        this.camera.rotateAroundPoint(target.pivot.x, target.pivot.y, turn);
+      } else {
+        this.camera.rotate(turn);
+      }
+    }
+
+    const { x, y, rotation } = this.camera.getState();
+    this.applied = { x, y, rotation };
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { Camera } from './camera';
+import { TourPlayer, interpolateCamera, parseTour, serializeTour } from './camera-tour';
+import type { Tour, TourHost, TourKeyframe } from './camera-tour';
+
+function keyframe(changes: Partial<TourKeyframe> = {}): TourKeyframe {
+  return {
+    camera: { x: 0, y: 0, zoom: 1, rotation: 0 },
+    time: 0,
+    duration: 1000,
+    hold: 500,
+    easing: 'linear',
+    ...changes,
+  };
+}
+
+function tourText(keyframes: unknown[]): string {
+  return JSON.stringify({ version: 1, keyframes });
+}
+
+function createHost() {
+  const times: number[] = [];
+  const layers: string[][] = [];
+  const captions: Array<string | null> = [];
+  let finished = 0;
+  const host: TourHost = {
+    camera: new Camera(),
+    setTime: (time) => times.push(time),
+    setLayers: (names) => layers.push(names),
+    showCaption: (caption) => captions.push(caption),
+    onFinish: () => finished++,
+  };
+  return {
+    ...host,
+    times,
+    layers,
+    captions,
+    get finished() {
+      return finished;
+    },
+  };
+}
+
+describe('interpolateCamera', () => {
+  it('interpolates zoom in log space and rotation the short way', () => {
+    const state = interpolateCamera(
+      { x: 0, y: 0, zoom: 1, rotation: 0.1 },
+      { x: 10, y: -10, zoom: 4, rotation: 2 * Math.PI - 0.1 },
+      0.5
+    );
+    expect(state.x).toBe(5);
+    expect(state.y).toBe(-5);
+    expect(state.zoom).toBeCloseTo(2, 12);
+    expect(state.rotation).toBeCloseTo(0, 12);
+  });
+});
+
+describe('TourPlayer', () => {
+  const tour: Tour = {
+    version: 1,
+    title: 'Test',
+    loop: false,
+    keyframes: [
+      keyframe({ caption: 'Start', layers: ['earth'] }),
+      keyframe({ time: 100, camera: { x: 100, y: 0, zoom: 1, rotation: 0 }, caption: 'End' }),
+    ],
+  };
+
+  it('holds the first keyframe, travels, then holds the next', () => {
+    const host = createHost();
+    const player = new TourPlayer(host);
+    player.play(tour);
+    expect(player.getCurrentIndex()).toBe(0);
+    expect(host.captions).toEqual(['Start']);
+    expect(host.layers).toEqual([['earth']]);
+
+    player.update(500 + 250);
+    expect(player.getCurrentIndex()).toBe(1);
+    expect(host.times.at(-1)).toBeCloseTo(25, 12);
+    expect(host.camera.getState().x).toBeCloseTo(25, 12);
+
+    player.update(750);
+    expect(host.times.at(-1)).toBe(100);
+    expect(host.captions).toEqual(['Start', 'End']);
+  });
+
+  it('does not advance while paused', () => {
+    const host = createHost();
+    const player = new TourPlayer(host);
+    player.play(tour);
+    player.setPaused(true);
+    player.update(10000);
+    expect(player.isPlaying()).toBe(true);
+    expect(player.getCurrentIndex()).toBe(0);
+  });
+
+  it('finishes on the last keyframe and clears the caption', () => {
+    const host = createHost();
+    const player = new TourPlayer(host);
+    player.play(tour);
+    player.update(2000);
+
+    expect(player.isPlaying()).toBe(false);
+    expect(player.getCurrentIndex()).toBe(-1);
+    expect(host.times.at(-1)).toBe(100);
+    expect(host.captions.at(-1)).toBeNull();
+    expect(host.finished).toBe(1);
+  });
+
+  it('wraps around when looping', () => {
+    const host = createHost();
+    const player = new TourPlayer(host);
+    player.play({ ...tour, loop: true });
+    player.update(2000 + 100);
+
+    expect(player.isPlaying()).toBe(true);
+    expect(player.getCurrentIndex()).toBe(0);
+    expect(host.finished).toBe(0);
+  });
+
+  it('rejects an empty tour', () => {
+    const player = new TourPlayer(createHost());
+    expect(() => player.play({ ...tour, keyframes: [] })).toThrow('Tour has no keyframes');
+  });
+});
+
+describe('parseTour', () => {
+  it('round-trips a serialized tour', () => {
+    const tour: Tour = { version: 1, title: 'Round', loop: true, keyframes: [keyframe()] };
+    expect(parseTour(serializeTour(tour))).toEqual({
+      ...tour,
+      keyframes: [{ ...keyframe(), layers: undefined, caption: undefined }],
+    });
+  });
+
+  it('fills in default timings and easing', () => {
+    const [parsed] = parseTour(
+      tourText([{ camera: { x: 0, y: 0, zoom: 1, rotation: 0 }, time: 5 }])
+    ).keyframes;
+    expect(parsed).toMatchObject({ duration: 3000, hold: 2000, easing: 'ease-in-out' });
+  });
+
+  it('rejects malformed documents', () => {
+    expect(() => parseTour('{')).toThrow('Tour is not valid JSON');
+    expect(() => parseTour('{}')).toThrow('Tour has no version');
+    expect(() => parseTour('{"version":2,"keyframes":[]}')).toThrow('newer than supported');
+    expect(() => parseTour(tourText([]))).toThrow('at least one keyframe');
+  });
+
+  it.each([
+    [{ camera: { x: 0, y: 0, zoom: 'far', rotation: 0 } }, 'camera must have numeric'],
+    [{ camera: { x: 0, y: 0, zoom: 0, rotation: 0 } }, 'zoom must be positive'],
+    [{ time: null }, 'time must be a number'],
+    [{ easing: 'bounce' }, 'unknown easing "bounce"'],
+    [{ easing: 'toString' }, 'unknown easing "toString"'],
+    [{ duration: -1 }, 'duration and hold must be non-negative numbers'],
+    [{ duration: '5000' }, 'duration and hold must be non-negative numbers'],
+  ])('rejects keyframe %j', (changes, message) => {
+    expect(() => parseTour(tourText([{ ...keyframe(), ...changes }]))).toThrow(
+      `Keyframe 1: ${message}`
+    );
+  });
+
+  it('rejects an infinite hold', () => {
+    const text = tourText([keyframe()]).replace('"hold":500', '"hold":1e400');
+    expect(() => parseTour(text)).toThrow('Keyframe 1: duration and hold must be non-negative');
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Camera Tour - Keyframed camera, time and layer animation for presentations
+ *
+ * A tour is a list of keyframes. Each keyframe is reached after travelling
+ * `duration` ms from the previous one, then held for `hold` ms while its
+ * caption stays on screen. Zoom is interpolated in log space so zooming
+ * from the whole disk into a region feels uniform.
+ */
+
+import type { Camera } from './camera';
+import type { CameraState } from '../types';
+import { lerp } from '../core/geometry';
+
+export const TOUR_VERSION = 1;
+
+export type EasingName = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  'ease-in': (t) => t * t * t,
+  'ease-out': (t) => 1 - (1 - t) ** 3,
+  'ease-in-out': (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+};
+
+export interface TourKeyframe {
+  camera: CameraState;
+  time: number; // Simulation years
+  layers?: string[]; // Enabled layers once reached; omitted = leave as is
+  caption?: string;
+  duration: number; // ms of travel from the previous keyframe
+  hold: number; // ms to dwell once reached
+  easing: EasingName;
+}
+
+export interface Tour {
+  version: number;
+  title: string;
+  loop: boolean;
+  keyframes: TourKeyframe[];
+}
+
+/**
+ * What the player drives; the app decides how time and layers are applied
+ */
+export interface TourHost {
+  camera: Camera;
+  setTime(time: number): void;
+  setLayers(names: string[]): void;
+  showCaption(caption: string | null): void;
+  onFinish?(): void;
+}
+
+interface TimelineEntry {
+  start: number; // ms: travel toward this keyframe begins
+  arrive: number; // ms
+  leave: number; // ms
+}
+
+/**
+ * An empty tour to record keyframes into
+ */
+export function createTour(title: string = 'Untitled tour'): Tour {
+  return { version: TOUR_VERSION, title, loop: false, keyframes: [] };
+}
+
+/**
+ * Interpolate between two camera states (zoom in log space, rotation the short way)
+ */
+export function interpolateCamera(a: CameraState, b: CameraState, t: number): CameraState {
+  let turn = (b.rotation - a.rotation) % (2 * Math.PI);
+  if (turn > Math.PI) turn -= 2 * Math.PI;
+  if (turn < -Math.PI) turn += 2 * Math.PI;
+
+  return {
+    x: lerp(a.x, b.x, t),
+    y: lerp(a.y, b.y, t),
+    zoom: Math.exp(lerp(Math.log(a.zoom), Math.log(b.zoom), t)),
+    rotation: a.rotation + turn * t,
+  };
+}
+
+export class TourPlayer {
+  private host: TourHost;
+  private tour: Tour | null = null;
+  private timeline: TimelineEntry[] = [];
+  private elapsed: number = 0;
+  private current: number = -1; // Keyframe whose caption and layers are active
+  private paused: boolean = false;
+
+  constructor(host: TourHost) {
+    this.host = host;
+  }
+
+  public play(tour: Tour): void {
+    if (tour.keyframes.length === 0) {
+      throw new Error('Tour has no keyframes');
+    }
+
+    let clock = 0;
+    this.timeline = tour.keyframes.map((keyframe, i) => {
+      const start = clock;
+      const arrive = start + (i === 0 ? 0 : keyframe.duration);
+      clock = arrive + keyframe.hold;
+      return { start, arrive, leave: clock };
+    });
+
+    this.tour = tour;
+    this.elapsed = 0;
+    this.current = -1;
+    this.paused = false;
+    this.update(0);
+  }
+
+  public stop(): void {
+    if (!this.tour) return;
+    this.tour = null;
+    this.host.showCaption(null);
+  }
+
+  public setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  public isPlaying(): boolean {
+    return this.tour !== null;
+  }
+
+  /**
+   * Index of the keyframe being travelled to or held (-1 when stopped)
+   */
+  public getCurrentIndex(): number {
+    return this.tour ? this.current : -1;
+  }
+
+  /**
+   * Advance the tour by `deltaTime` ms and apply the interpolated state
+   */
+  public update(deltaTime: number): void {
+    const tour = this.tour;
+    if (!tour) return;
+    if (!this.paused) this.elapsed += deltaTime;
+
+    const total = this.timeline[this.timeline.length - 1].leave;
+    if (this.elapsed >= total) {
+      if (tour.loop && total > 0) {
+        this.elapsed %= total;
+      } else {
+        this.apply(tour.keyframes.length - 1, 1);
+        this.stop();
+        this.host.onFinish?.();
+        return;
+      }
+    }
+
+    const index = this.timeline.findIndex((entry) => this.elapsed < entry.leave);
+    const entry = this.timeline[index];
+    const travel = entry.arrive - entry.start;
+    const t = travel > 0 ? Math.min(1, (this.elapsed - entry.start) / travel) : 1;
+    this.apply(index, t);
+  }
+
+  /**
+   * Apply the state `t` of the way from keyframe `index - 1` to `index`
+   */
+  private apply(index: number, t: number): void {
+    const keyframes = this.tour!.keyframes;
+    const target = keyframes[index];
+    const from = keyframes[index - 1] ?? target;
+    const eased = EASINGS[target.easing](t);
+
+    if (index !== this.current) {
+      this.current = index;
+      if (target.layers) this.host.setLayers(target.layers);
+      this.host.showCaption(target.caption ?? null);
+    }
+
+    this.host.camera.setState(interpolateCamera(from.camera, target.camera, eased));
+    this.host.setTime(lerp(from.time, target.time, eased));
+  }
+}
+
+export function serializeTour(tour: Tour): string {
+  return JSON.stringify(tour, null, 2);
+}
+
+/**
+ * Parse and validate a tour; missing timings take their defaults
+ */
+export function parseTour(text: string): Tour {
+  let data: Partial<Tour>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Tour is not valid JSON');
+  }
+
+  if (typeof data?.version !== 'number') {
+    throw new Error('Tour has no version');
+  }
+  if (data.version > TOUR_VERSION) {
+    throw new Error(`Tour version ${data.version} is newer than supported (${TOUR_VERSION})`);
+  }
+  if (!Array.isArray(data.keyframes) || data.keyframes.length === 0) {
+    throw new Error('Tour must have at least one keyframe');
+  }
+
+  const keyframes = data.keyframes.map((raw: Partial<TourKeyframe>, i): TourKeyframe => {
+    const camera = raw.camera;
+    if (!camera || ![camera.x, camera.y, camera.zoom, camera.rotation].every(Number.isFinite)) {
+      throw new Error(`Keyframe ${i + 1}: camera must have numeric x, y, zoom and rotation`);
+    }
+    if (camera.zoom <= 0) {
+      throw new Error(`Keyframe ${i + 1}: zoom must be positive`);
+    }
+    if (!Number.isFinite(raw.time)) {
+      throw new Error(`Keyframe ${i + 1}: time must be a number`);
+    }
+
+    const easing = raw.easing ?? 'ease-in-out';
+    if (!Object.prototype.hasOwnProperty.call(EASINGS, easing)) {
+      throw new Error(`Keyframe ${i + 1}: unknown easing "${easing}"`);
+    }
+    const duration = raw.duration ?? 3000;
+    const hold = raw.hold ?? 2000;
+    const valid = (ms: unknown) => typeof ms === 'number' && Number.isFinite(ms) && ms >= 0;
+    if (!valid(duration) || !valid(hold)) {
+      throw new Error(`Keyframe ${i + 1}: duration and hold must be non-negative numbers`);
+    }
+
+    return {
+      camera: { x: camera.x, y: camera.y, zoom: camera.zoom, rotation: camera.rotation },
+      time: raw.time as number,
+      layers: Array.isArray(raw.layers) ? raw.layers.map(String) : undefined,
+      caption: typeof raw.caption === 'string' ? raw.caption : undefined,
+      duration,
+      hold,
+      easing,
+    };
+  });
+
+  return {
+    version: TOUR_VERSION,
+    title: typeof data.title === 'string' ? data.title : 'Untitled tour',
+    loop: Boolean(data.loop),
+    keyframes,
+  };
+}
@@ -5,6 +5,9 @@
 
 import type { CameraState } from '../types';
 
+const ZOOM_OUT_LIMIT = 0.1; // × fitted zoom
+const ZOOM_IN_LIMIT = 1000; // × fitted zoom
+
 export class Camera {
   private x: number = 0;
   private y: number = 0;
@@ -12,7 +15,10 @@ export class Camera {
   private rotation: number = 0;
   private aspect: number = 1.0;
 
-  // Zoom limits
+  // Sub-rectangle of the view in NDC, used to render tiles of a larger image
+  private crop = { left: -1, bottom: -1, right: 1, top: 1 };
+
+  // Zoom limits (rescaled by fitEarth, since zoom depends on world units)
   private minZoom: number = 0.1;
   private maxZoom: number = 10.0;
 
@@ -38,13 +44,18 @@ export class Camera {
   }
 
   /**
-   * Move camera by offset
+   * Move camera by a screen-space offset (NDC units, y up)
+   * The offset is scaled by aspect and zoom and rotated into world axes, so a
+   * pan follows the pointer at any zoom or rotation.
    */
   public pan(dx: number, dy: number): void {
-    // Adjust pan speed based on zoom (more zoomed in = slower pan)
-    const speed = 1.0 / this.zoom;
-    this.x += dx * speed;
-    this.y += dy * speed;
+    const sx = (dx * this.aspect) / this.zoom;
+    const sy = dy / this.zoom;
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+
+    this.x += sx * cos - sy * sin;
+    this.y += sx * sin + sy * cos;
     this.dirty = true;
   }
 
@@ -67,19 +78,9 @@ export class Camera {
    * Zoom to specific point (world coordinates)
    */
   public zoomToPoint(worldX: number, worldY: number, factor: number): void {
-    // Calculate point in screen space before zoom
-    const screenBefore = this.worldToScreen(worldX, worldY);
-
-    // Apply zoom
+    const screen = this.worldToScreen(worldX, worldY);
     this.zoomBy(factor);
-
-    // Calculate point in screen space after zoom
-    const screenAfter = this.worldToScreen(worldX, worldY);
-
-    // Pan to keep point in same screen position
-    const dx = screenAfter.x - screenBefore.x;
-    const dy = screenAfter.y - screenBefore.y;
-    this.pan(-dx / this.zoom, -dy / this.zoom);
+    this.keepUnderScreenPoint(worldX, worldY, screen);
   }
 
   /**
@@ -98,6 +99,27 @@ export class Camera {
     this.dirty = true;
   }
 
+  /**
+   * Rotate around a world point, keeping it at the same screen position
+   */
+  public rotateAroundPoint(worldX: number, worldY: number, angle: number): void {
+    const screen = this.worldToScreen(worldX, worldY);
+    this.rotate(angle);
+    this.keepUnderScreenPoint(worldX, worldY, screen);
+  }
+
+  /**
+   * Move the camera so a world point lands on the given screen (NDC) position
+   */
+  private keepUnderScreenPoint(
+    worldX: number,
+    worldY: number,
+    screen: { x: number; y: number }
+  ): void {
+    const landed = this.screenToWorld(screen.x, screen.y);
+    this.setPosition(this.x + worldX - landed.x, this.y + worldY - landed.y);
+  }
+
   /**
    * Set aspect ratio
    */
@@ -106,6 +128,18 @@ export class Camera {
     this.dirty = true;
   }
 
+  /**
+   * Restrict the projection to a sub-rectangle of the view (NDC of the full frame)
+   */
+  public setCrop(left: number, bottom: number, right: number, top: number): void {
+    this.crop = { left, bottom, right, top };
+    this.dirty = true;
+  }
+
+  public clearCrop(): void {
+    this.setCrop(-1, -1, 1, 1);
+  }
+
   /**
    * Get current state
    */
@@ -140,6 +174,8 @@ export class Camera {
     // Calculate zoom to fit Earth with padding
     const viewSize = Math.max(earthRadius * 2 * padding, 1);
     this.zoom = Math.min(this.aspect, 1.0) / viewSize;
+    this.minZoom = this.zoom * ZOOM_OUT_LIMIT;
+    this.maxZoom = this.zoom * ZOOM_IN_LIMIT;
     this.dirty = true;
   }
 
@@ -154,20 +190,22 @@ export class Camera {
     const halfWidth = this.aspect / this.zoom;
     const halfHeight = 1.0 / this.zoom;
 
+    const crop = this.crop;
+
     this.ortho(
       this.projectionMatrix,
-      -halfWidth,
-      halfWidth,
-      -halfHeight,
-      halfHeight,
+      crop.left * halfWidth,
+      crop.right * halfWidth,
+      crop.bottom * halfHeight,
+      crop.top * halfHeight,
       -1,
       1
     );
 
-    // Build view matrix (inverse of camera transform)
+    // Build view matrix (inverse of camera transform): R(-rotation) · T(-position)
     this.identity(this.viewMatrix);
-    this.translate(this.viewMatrix, -this.x, -this.y, 0);
     this.rotateZ(this.viewMatrix, -this.rotation);
+    this.translate(this.viewMatrix, -this.x, -this.y, 0);
 
     // Combined view-projection matrix
     this.multiply(this.viewProjectionMatrix, this.projectionMatrix, this.viewMatrix);
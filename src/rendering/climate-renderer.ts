@@ -5,9 +5,10 @@
 
 import type { Camera } from './camera';
 import type { ClimateModel } from '../core/climate';
+import type { ExpansionEngine } from '../core/expansion';
 import type { ClimateEvent } from '../types';
 import { UniformManager, createBuffer, createVertexArray } from './webgl-utils';
-import { MODEL } from '../constants';
+import { MODEL, RENDER_CONFIG } from '../constants';
 
 export class ClimateRenderer {
   private gl: WebGL2RenderingContext;
@@ -40,43 +41,45 @@ export class ClimateRenderer {
 
   /**
    * Render climate zone overlay
+   * Zones are expanded per vertex by the active law, like the earth disk.
    */
   public renderOverlay(
     camera: Camera,
     time: number,
-    expansionRate: number,
+    expansion: ExpansionEngine,
     climate: ClimateModel
   ): void {
     const gl = this.gl;
+    const maxRadius = MODEL.geometry.ANTARCTIC_RIM_RADIUS;
     gl.useProgram(this.climateProgram);
 
     const uniforms = new UniformManager(gl, this.climateProgram);
     uniforms.setMat4('u_viewProjection', camera.getViewProjectionMatrix());
     uniforms.setFloat('u_time', time);
-    uniforms.setFloat('u_expansionRate', expansionRate / 100);
+    uniforms.setFloat('u_maxRadius', maxRadius);
+    uniforms.setFloatArray(
+      'u_radialScale',
+      expansion.getRadialScales(maxRadius, RENDER_CONFIG.RADIAL_SCALE_SAMPLES, time)
+    );
     uniforms.setInt('u_visualizationMode', this.visualizationMode);
 
     // Set climate zone boundaries
-    uniforms.setFloat('u_heatingZoneMin', MODEL.climate.HEATING_ZONE_MIN);
-    uniforms.setFloat('u_heatingZoneMax', MODEL.climate.HEATING_ZONE_MAX);
-    uniforms.setFloat('u_coolingZoneMin', MODEL.climate.COOLING_ZONE_MIN);
-    uniforms.setFloat('u_coolingZoneMax', MODEL.climate.COOLING_ZONE_MAX);
-
-    // Enable blending for semi-transparent overlay
-    gl.enable(gl.BLEND);
-    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    const { heating, cooling } = climate.getZoneBands();
+    uniforms.setFloat('u_heatingZoneMin', heating.min);
+    uniforms.setFloat('u_heatingZoneMax', heating.max);
+    uniforms.setFloat('u_coolingZoneMin', cooling.min);
+    uniforms.setFloat('u_coolingZoneMax', cooling.max);
 
+    // Blend state is owned by the layer manager
     gl.bindVertexArray(this.earthVAO);
     gl.drawElements(gl.TRIANGLES, this.indexCount, gl.UNSIGNED_SHORT, 0);
     gl.bindVertexArray(null);
-
-    gl.disable(gl.BLEND);
   }
 
   /**
    * Render climate event markers (snow, heat, cold events)
    */
-  public renderEvents(camera: Camera): void {
+  public renderEvents(camera: Camera, expansion: ExpansionEngine, time: number): void {
     if (this.events.length === 0) {
       return;
     }
@@ -84,16 +87,24 @@ export class ClimateRenderer {
     const gl = this.gl;
     gl.useProgram(this.lineProgram);
 
+    const viewProjection = camera.getViewProjectionMatrix();
+    const matrix = new Float32Array(16);
     const uniforms = new UniformManager(gl, this.lineProgram);
-    uniforms.setMat4('u_viewProjection', camera.getViewProjectionMatrix());
-
-    gl.enable(gl.BLEND);
-    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
 
     // Render each event marker
     for (let i = 0; i < this.eventVAOs.length; i++) {
-      // Set color based on event type
       const event = this.events[i];
+
+      // Markers sit at reference positions; scale x/y so each lands on its expanded radius
+      const r = event.location.r;
+      const scale = r > 0 ? expansion.getExpandedRadius(r, time) / r : 1;
+      matrix.set(viewProjection);
+      for (let j = 0; j < 8; j++) {
+        matrix[j] *= scale;
+      }
+      uniforms.setMat4('u_viewProjection', matrix);
+
+      // Set color based on event type
       let color: [number, number, number, number];
 
       switch (event.type) {
@@ -120,7 +131,6 @@ export class ClimateRenderer {
     }
 
     gl.bindVertexArray(null);
-    gl.disable(gl.BLEND);
   }
 
   /**
@@ -0,0 +1,133 @@
+/**
+ * Coastline Renderer - Renders vector outlines (GeoJSON) that drift with expansion
+ */
+
+import { createBuffer, createVertexArray, UniformManager } from './webgl-utils';
+import { Camera } from './camera';
+import { densifyPath } from '../data/geojson';
+import { ExpansionEngine } from '../core/expansion';
+import type { Projection } from '../core/projection';
+import { COLORS } from '../constants';
+import type { LatLon, PolarCoord, Vector2 } from '../types';
+
+const DENSIFY_STEP = 1; // degrees between interpolated vertices
+
+export class CoastlineRenderer {
+  private gl: WebGL2RenderingContext;
+  private lineProgram: WebGLProgram;
+
+  private positionBuffer: WebGLBuffer;
+  private colorBuffer: WebGLBuffer;
+  private vao: WebGLVertexArrayObject;
+
+  private paths: LatLon[][] = [];
+  private reference: PolarCoord[] = []; // Segment endpoints at the reference epoch
+  private positions: Float32Array = new Float32Array(0);
+
+  constructor(gl: WebGL2RenderingContext, lineProgram: WebGLProgram) {
+    this.gl = gl;
+    this.lineProgram = lineProgram;
+
+    this.positionBuffer = createBuffer(gl, new Float32Array(0), gl.ARRAY_BUFFER, gl.DYNAMIC_DRAW);
+    this.colorBuffer = createBuffer(gl, new Float32Array(0), gl.ARRAY_BUFFER, gl.STATIC_DRAW);
+    this.vao = createVertexArray(gl, this.lineProgram, [
+      { name: 'a_position', buffer: this.positionBuffer, size: 2 },
+      { name: 'a_color', buffer: this.colorBuffer, size: 4 }
+    ]);
+  }
+
+  /**
+   * Replace the outlines and project them onto the disk at the reference epoch
+   */
+  public setPaths(paths: LatLon[][], projection: Projection): void {
+    this.paths = paths;
+    this.setProjection(projection);
+  }
+
+  /**
+   * Re-project the current outlines (e.g. after a projection switch)
+   */
+  public setProjection(projection: Projection): void {
+    const gl = this.gl;
+    const reference: PolarCoord[] = [];
+
+    for (const path of this.paths) {
+      const projected = densifyPath(path, DENSIFY_STEP).map((coord) => projection.forward(coord));
+      for (let i = 1; i < projected.length; i++) {
+        reference.push(projected[i - 1], projected[i]);
+      }
+    }
+
+    this.reference = reference;
+    this.positions = new Float32Array(reference.length * 2);
+
+    const colors = new Float32Array(reference.length * 4);
+    for (let i = 0; i < reference.length; i++) {
+      colors.set(COLORS.COASTLINE, i * 4);
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.colorBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, colors, gl.STATIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+  }
+
+  /**
+   * Move every vertex to its expanded radius at `time` under the active law
+   */
+  public update(expansion: ExpansionEngine, time: number): void {
+    const gl = this.gl;
+    const positions = this.positions;
+
+    for (let i = 0; i < this.reference.length; i++) {
+      const { r, theta } = this.reference[i];
+      const expanded = expansion.getExpandedRadius(r, time);
+      positions[i * 2] = expanded * Math.cos(theta);
+      positions[i * 2 + 1] = expanded * Math.sin(theta);
+    }
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, positions, gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+  }
+
+  /**
+   * Outline segments at the last update, in world coordinates
+   */
+  public getSegments(): Vector2[][] {
+    const p = this.positions;
+    const segments: Vector2[][] = [];
+    for (let i = 0; i < p.length; i += 4) {
+      segments.push([
+        { x: p[i], y: p[i + 1] },
+        { x: p[i + 2], y: p[i + 3] },
+      ]);
+    }
+    return segments;
+  }
+
+  public getPathCount(): number {
+    return this.paths.length;
+  }
+
+  public render(camera: Camera): void {
+    if (this.reference.length === 0) return;
+
+    const gl = this.gl;
+
+    gl.useProgram(this.lineProgram);
+    gl.lineWidth(1.0);
+
+    const uniforms = new UniformManager(gl, this.lineProgram);
+    uniforms.setMat4('u_viewProjection', camera.getViewProjectionMatrix());
+
+    gl.bindVertexArray(this.vao);
+    gl.drawArrays(gl.LINES, 0, this.reference.length);
+    gl.bindVertexArray(null);
+  }
+
+  public dispose(): void {
+    const gl = this.gl;
+    gl.deleteVertexArray(this.vao);
+    gl.deleteBuffer(this.positionBuffer);
+    gl.deleteBuffer(this.colorBuffer);
+  }
+}
@@ -2,9 +2,10 @@
  * Earth Renderer - Renders the flat Earth disk with grid and expansion
  */
 
-import { WebGLContext, createBuffer, createVertexArray, UniformManager, generateCircleVertices } from './webgl-utils';
+import { WebGLContext, createBuffer, createVertexArray, UniformManager, generateDiskVertices } from './webgl-utils';
 import { Camera } from './camera';
-import { MODEL, COLORS } from '../constants';
+import type { ExpansionEngine } from '../core/expansion';
+import { MODEL, COLORS, RENDER_CONFIG } from '../constants';
 
 export class EarthRenderer {
   private gl: WebGL2RenderingContext;
@@ -23,7 +24,11 @@ export class EarthRenderer {
     const gl = this.gl;
 
     // Generate Earth disk
-    const geom = generateCircleVertices(128, MODEL.geometry.ANTARCTIC_RIM_RADIUS);
+    const geom = generateDiskVertices(
+      RENDER_CONFIG.DISK_RINGS,
+      RENDER_CONFIG.RADIAL_SEGMENTS,
+      MODEL.geometry.ANTARCTIC_RIM_RADIUS
+    );
 
     const posBuffer = createBuffer(gl, geom.positions);
     this.indexBuffer = createBuffer(gl, geom.indices, gl.ELEMENT_ARRAY_BUFFER);
@@ -40,16 +45,27 @@ export class EarthRenderer {
     gl.bindVertexArray(null);
   }
 
-  public render(camera: Camera, time: number, expansionRate: number, showGrid: boolean = true): void {
+  /**
+   * Draw the disk at `time`, each vertex expanded by the active law at its own radius
+   */
+  public render(
+    camera: Camera,
+    expansion: ExpansionEngine,
+    time: number,
+    showGrid: boolean = true
+  ): void {
     const gl = this.gl;
+    const maxRadius = MODEL.geometry.ANTARCTIC_RIM_RADIUS;
 
     gl.useProgram(this.program);
 
     const uniforms = new UniformManager(gl, this.program);
     uniforms.setMat4('u_viewProjection', camera.getViewProjectionMatrix());
-    uniforms.setFloat('u_time', time);
-    uniforms.setFloat('u_expansionRate', expansionRate / 100); // cm/yr to m/yr
-    uniforms.setFloat('u_maxRadius', MODEL.geometry.ANTARCTIC_RIM_RADIUS);
+    uniforms.setFloatArray(
+      'u_radialScale',
+      expansion.getRadialScales(maxRadius, RENDER_CONFIG.RADIAL_SCALE_SAMPLES, time)
+    );
+    uniforms.setFloat('u_maxRadius', maxRadius);
     uniforms.setVec4('u_diskColor', ...COLORS.EARTH.DISK);
     uniforms.setVec4('u_gridColor', ...COLORS.EARTH.GRID);
     uniforms.setVec4('u_rimColor', ...COLORS.EARTH.RIM);
@@ -1,94 +1,262 @@
 /**
- * EM Field Renderer - Renders electromagnetic field streamlines
+ * EM Field Renderer - Renders electromagnetic field streamlines and the
+ * field overlay, which samples the selected field model from a float texture
+ *
+ * The overlay is drawn as a magnitude glow, as a line integral convolution
+ * (LIC) of noise along the field, or as a divergence / curl map. Magnitude
+ * uses a log scale spanning the model's range over the disk.
  */
 
-import { createBuffer, createVertexArray, UniformManager, generateLineVertices } from './webgl-utils';
+import {
+  createBuffer,
+  createTexture,
+  createVertexArray,
+  UniformManager,
+  generateLineVertices,
+} from './webgl-utils';
 import { Camera } from './camera';
-import { EMFieldSolver } from '../core/em-field';
-import { MODEL, COLORS } from '../constants';
+import { EMFieldSolver, getMagnitudeRange } from '../core/em-field';
+import type { MagnitudeRange } from '../core/em-field';
+import { scalarRange } from '../core/field-analysis';
+import type { FieldQuantity } from '../core/field-analysis';
+import { MODEL, COLORS, RENDER_CONFIG } from '../constants';
+import type { Vector2 } from '../types';
+
+export type FieldOverlayMode = 'intensity' | 'lic' | FieldQuantity;
+
+const MAX_CENTRES = 8; // Must match field.frag.glsl
 
 export class EMFieldRenderer {
   private gl: WebGL2RenderingContext;
   private fieldProgram: WebGLProgram;
+  private licProgram: WebGLProgram;
+  private scalarProgram: WebGLProgram;
   private lineProgram: WebGLProgram;
-  private streamlineVAOs: WebGLVertexArrayObject[] = [];
-  private streamlineCounts: number[] = [];
+  private streamlineVAO: WebGLVertexArrayObject | null = null;
+  private streamlineBuffers: WebGLBuffer[] = [];
+  private streamlineRanges: Array<{ first: number; count: number }> = [];
+  private streamlinePaths: Vector2[][] = [];
 
   // Field overlay (uses same geometry as Earth)
   private fieldVAO: WebGLVertexArrayObject | null = null;
   private fieldIndexCount: number = 0;
+  private fieldTexture: WebGLTexture | null = null; // Field per unit B₀ over the rim square
+  private centres: Float32Array = new Float32Array(MAX_CENTRES * 2);
+  private centreCount: number = 0;
+  private magnitudeRange: MagnitudeRange = { min: 1, max: 10 }; // Per unit B₀
+  private overlayMode: FieldOverlayMode = 'intensity';
+  private noiseTexture: WebGLTexture;
+  private scalarTexture: WebGLTexture | null = null; // Divergence or curl in units of |B|/r
+  private scalarQuantity: FieldQuantity | null = null;
+  private scalarRange: number = 1;
 
   constructor(
     gl: WebGL2RenderingContext,
     fieldProgram: WebGLProgram,
+    licProgram: WebGLProgram,
+    scalarProgram: WebGLProgram,
     lineProgram: WebGLProgram,
     earthVAO: WebGLVertexArrayObject,
     earthIndexCount: number
   ) {
     this.gl = gl;
     this.fieldProgram = fieldProgram;
+    this.licProgram = licProgram;
+    this.scalarProgram = scalarProgram;
     this.lineProgram = lineProgram;
     this.fieldVAO = earthVAO; // Reuse Earth geometry for field overlay
     this.fieldIndexCount = earthIndexCount;
+    this.noiseTexture = createNoiseTexture(gl, RENDER_CONFIG.LIC_NOISE_SIZE);
+  }
+
+  public generateStreamlines(
+    solver: EMFieldSolver,
+    separation: number = RENDER_CONFIG.STREAMLINE_SEPARATION
+  ): void {
+    const gl = this.gl;
+    this.disposeStreamlines();
+
+    // Generate evenly-spaced streamlines from the EM field solver
+    const streamlines = solver
+      .generateStreamlines({ separation })
+      .filter((streamline) => streamline.points.length >= 2);
+    this.streamlinePaths = streamlines.map((streamline) => streamline.points);
+
+    // One buffer for every line; each is drawn as its own strip
+    const points = this.streamlinePaths.flat();
+    if (points.length === 0) return;
+
+    const colors = new Float32Array(points.length * 4);
+    for (let i = 0; i < points.length; i++) {
+      colors.set(COLORS.EM_FIELD.MED, i * 4);
+    }
+    this.streamlineBuffers = [
+      createBuffer(gl, generateLineVertices(points)),
+      createBuffer(gl, colors),
+    ];
+    this.streamlineVAO = createVertexArray(gl, this.lineProgram, [
+      { name: 'a_position', buffer: this.streamlineBuffers[0], size: 2 },
+      { name: 'a_color', buffer: this.streamlineBuffers[1], size: 4 },
+    ]);
+
+    let first = 0;
+    this.streamlineRanges = this.streamlinePaths.map((path) => {
+      const range = { first, count: path.length };
+      first += path.length;
+      return range;
+    });
   }
 
-  public generateStreamlines(solver: EMFieldSolver, count: number = 24): void {
+  /**
+   * Sample the field model into the texture the overlay shader reads
+   * Call after the model changes; strength changes need no update.
+   */
+  public updateFieldTexture(
+    solver: EMFieldSolver,
+    resolution: number = RENDER_CONFIG.FIELD_RESOLUTION
+  ): void {
     const gl = this.gl;
+    if (this.fieldTexture) gl.deleteTexture(this.fieldTexture);
 
-    // Clear existing streamlines
-    this.streamlineVAOs.forEach(vao => gl.deleteVertexArray(vao));
-    this.streamlineVAOs = [];
-    this.streamlineCounts = [];
-
-    // Generate streamlines from EM field solver
-    const streamlines = solver.generateStreamlines(count, 100, 200, 10);
-
-    for (const streamline of streamlines) {
-      if (streamline.points.length < 2) continue;
-
-      // Create vertex buffer for streamline
-      const positions = generateLineVertices(streamline.points);
-      const posBuffer = createBuffer(gl, positions);
-
-      // Create color buffer (all same color for now)
-      const colors = new Float32Array(streamline.points.length * 4);
-      for (let i = 0; i < streamline.points.length; i++) {
-        colors[i * 4 + 0] = COLORS.EM_FIELD.MED[0];
-        colors[i * 4 + 1] = COLORS.EM_FIELD.MED[1];
-        colors[i * 4 + 2] = COLORS.EM_FIELD.MED[2];
-        colors[i * 4 + 3] = COLORS.EM_FIELD.MED[3];
-      }
-      const colorBuffer = createBuffer(gl, colors);
-
-      const vao = createVertexArray(gl, this.lineProgram, [
-        { name: 'a_position', buffer: posBuffer, size: 2 },
-        { name: 'a_color', buffer: colorBuffer, size: 4 }
-      ]);
-
-      this.streamlineVAOs.push(vao!);
-      this.streamlineCounts.push(streamline.points.length);
+    const data = solver.generateFieldTexture(resolution);
+    this.fieldTexture = createTexture(gl, resolution, resolution, data);
+    if (!gl.getExtension('OES_texture_float_linear')) {
+      // Float textures are only filterable with the extension
+      gl.bindTexture(gl.TEXTURE_2D, this.fieldTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.bindTexture(gl.TEXTURE_2D, null);
     }
+
+    this.magnitudeRange = getMagnitudeRange(data, resolution);
+
+    const centres = solver.getModel().getCentres().slice(0, MAX_CENTRES);
+    this.centres.fill(0);
+    centres.forEach((centre, i) => this.centres.set([centre.x, centre.y], i * 2));
+    this.centreCount = centres.length;
+  }
+
+  /**
+   * Sample divergence or curl of the field model for the scalar overlay
+   * Like the field texture, call after the model changes.
+   */
+  public updateScalarTexture(
+    solver: EMFieldSolver,
+    quantity: FieldQuantity,
+    resolution: number = RENDER_CONFIG.SCALAR_RESOLUTION
+  ): void {
+    const gl = this.gl;
+    if (this.scalarTexture) gl.deleteTexture(this.scalarTexture);
+
+    const data = solver.generateScalarTexture(quantity, resolution);
+    this.scalarTexture = createTexture(gl, resolution, resolution, data, gl.R32F, gl.RED, gl.FLOAT);
+    if (!gl.getExtension('OES_texture_float_linear')) {
+      gl.bindTexture(gl.TEXTURE_2D, this.scalarTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+    }
+    this.scalarQuantity = quantity;
+    this.scalarRange = scalarRange(data, resolution);
+  }
+
+  /**
+   * Value (in units of |B|/r) drawn at full colour on the scalar overlay
+   */
+  public getScalarRange(): number {
+    return this.scalarRange;
+  }
+
+  /**
+   * Magnitudes mapped to the ends of the overlay's log scale, per unit B₀
+   */
+  public getMagnitudeRange(): MagnitudeRange {
+    return { ...this.magnitudeRange };
+  }
+
+  public getOverlayMode(): FieldOverlayMode {
+    return this.overlayMode;
+  }
+
+  public setOverlayMode(mode: FieldOverlayMode): void {
+    this.overlayMode = mode;
+  }
+
+  /**
+   * Field per unit B₀ over the rim square (null until updateFieldTexture)
+   */
+  public getFieldTexture(): WebGLTexture | null {
+    return this.fieldTexture;
+  }
+
+  /**
+   * Streamlines as drawn, in world coordinates (for vector export)
+   */
+  public getStreamlinePaths(): Vector2[][] {
+    return this.streamlinePaths;
   }
 
   public renderOverlay(camera: Camera, fieldStrength: number): void {
+    if (!this.fieldTexture) return;
     const gl = this.gl;
+    const mode = this.overlayMode;
+    const scalar = mode === 'divergence' || mode === 'curl';
+    if (scalar && (!this.scalarTexture || this.scalarQuantity !== mode)) return;
+    const program = scalar
+      ? this.scalarProgram
+      : mode === 'lic'
+        ? this.licProgram
+        : this.fieldProgram;
 
-    gl.useProgram(this.fieldProgram);
+    gl.useProgram(program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.fieldTexture);
 
-    const uniforms = new UniformManager(gl, this.fieldProgram);
+    // The log scale is fixed at the reference B₀, so the strength slider
+    // still brightens and dims the overlay
+    const reference = MODEL.electromagnetic.VORTEX_STRENGTH_B0;
+    const uniforms = new UniformManager(gl, program);
     uniforms.setMat4('u_viewProjection', camera.getViewProjectionMatrix());
     uniforms.setFloat('u_fieldStrength', fieldStrength);
-    uniforms.setFloat('u_time', performance.now());
-    uniforms.setVec4('u_fieldColor', ...COLORS.EM_FIELD.MED);
     uniforms.setFloat('u_maxRadius', MODEL.geometry.ANTARCTIC_RIM_RADIUS);
+    uniforms.setInt('u_field', 0);
+    uniforms.setVec2(
+      'u_magnitudeRange',
+      Math.log10(this.magnitudeRange.min * reference),
+      Math.log10(this.magnitudeRange.max * reference)
+    );
+
+    if (scalar) {
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, this.scalarTexture);
+      uniforms.setInt('u_scalar', 1);
+      uniforms.setFloat('u_scalarRange', this.scalarRange);
+    } else if (mode === 'lic') {
+      // Noise and steps of about one pixel, so the texture stays sharp at any zoom
+      const viewport = gl.getParameter(gl.VIEWPORT) as Int32Array;
+      const kmPerPixel = 2 / camera.getZoom() / Math.max(1, viewport[3]);
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, this.noiseTexture);
+      uniforms.setInt('u_noise', 1);
+      uniforms.setFloat('u_noiseScale', kmPerPixel);
+      uniforms.setFloat('u_stepLength', kmPerPixel);
+    } else {
+      uniforms.setFloat('u_time', performance.now());
+      uniforms.setVec4('u_fieldColor', ...COLORS.EM_FIELD.MED);
+      uniforms.setVec2Array('u_centres', this.centres);
+      uniforms.setInt('u_centreCount', this.centreCount);
+    }
 
     gl.bindVertexArray(this.fieldVAO);
     gl.drawElements(gl.TRIANGLES, this.fieldIndexCount, gl.UNSIGNED_SHORT, 0);
     gl.bindVertexArray(null);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, null);
   }
 
   public renderStreamlines(camera: Camera): void {
-    if (this.streamlineVAOs.length === 0) return;
+    if (!this.streamlineVAO) return;
 
     const gl = this.gl;
 
@@ -98,17 +266,48 @@ export class EMFieldRenderer {
     const uniforms = new UniformManager(gl, this.lineProgram);
     uniforms.setMat4('u_viewProjection', camera.getViewProjectionMatrix());
 
-    for (let i = 0; i < this.streamlineVAOs.length; i++) {
-      gl.bindVertexArray(this.streamlineVAOs[i]);
-      gl.drawArrays(gl.LINE_STRIP, 0, this.streamlineCounts[i]);
+    gl.bindVertexArray(this.streamlineVAO);
+    for (const range of this.streamlineRanges) {
+      gl.drawArrays(gl.LINE_STRIP, range.first, range.count);
     }
 
     gl.bindVertexArray(null);
   }
 
+  private disposeStreamlines(): void {
+    const gl = this.gl;
+    if (this.streamlineVAO) gl.deleteVertexArray(this.streamlineVAO);
+    this.streamlineBuffers.forEach((buffer) => gl.deleteBuffer(buffer));
+    this.streamlineVAO = null;
+    this.streamlineBuffers = [];
+    this.streamlineRanges = [];
+    this.streamlinePaths = [];
+  }
+
   public dispose(): void {
     const gl = this.gl;
-    this.streamlineVAOs.forEach(vao => gl.deleteVertexArray(vao));
-    this.streamlineVAOs = [];
+    this.disposeStreamlines();
+    if (this.fieldTexture) gl.deleteTexture(this.fieldTexture);
+    this.fieldTexture = null;
+    gl.deleteTexture(this.noiseTexture);
+    if (this.scalarTexture) gl.deleteTexture(this.scalarTexture);
+    this.scalarTexture = null;
+  }
+}
+
+/**
+ * Repeating white noise for line integral convolution
+ */
+function createNoiseTexture(gl: WebGL2RenderingContext, size: number): WebGLTexture {
+  const data = new Uint8Array(size * size);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.floor(Math.random() * 256);
   }
+
+  const texture = createTexture(gl, size, size, data, gl.R8, gl.RED, gl.UNSIGNED_BYTE);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.REPEAT);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.REPEAT);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+  return texture;
 }
@@ -0,0 +1,177 @@
+/**
+ * Frame Recorder - Renders a simulation time range frame by frame to WebM or a PNG sequence
+ *
+ * The simulation is stepped at a fixed dt per output frame, independent of
+ * requestAnimationFrame, so slow frames never drop simulated time.
+ */
+
+import { createZip } from '../data/zip';
+import type { ZipEntry } from '../data/zip';
+
+export type RecordingFormat = 'webm' | 'png-zip';
+
+export interface RecordingOptions {
+  format: RecordingFormat;
+  width: number; // px
+  height: number; // px
+  fps: number;
+  duration: number; // Output length (seconds)
+  startTime: number; // Simulation years
+  endTime: number; // Simulation years
+}
+
+/**
+ * Host callbacks: the recorder drives the app without owning it
+ */
+export interface RecorderHost {
+  canvas: HTMLCanvasElement;
+  resize(width: number, height: number): void;
+  setTime(time: number): void;
+  renderFrame(frameMs: number): void;
+  onProgress?(frame: number, total: number): void;
+  extraFiles?(): ZipEntry[]; // Added to PNG archives (e.g. the scenario)
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/**
+ * Simulation time of every output frame (inclusive of both ends)
+ */
+export function frameTimes(options: RecordingOptions): number[] {
+  const count = Math.max(1, Math.round(options.duration * options.fps));
+  const dt = count > 1 ? (options.endTime - options.startTime) / (count - 1) : 0;
+  return Array.from({ length: count }, (_, i) => options.startTime + i * dt);
+}
+
+export class FrameRecorder {
+  private host: RecorderHost;
+  private cancelled: boolean = false;
+  private recording: boolean = false;
+
+  constructor(host: RecorderHost) {
+    this.host = host;
+  }
+
+  public isRecording(): boolean {
+    return this.recording;
+  }
+
+  public cancel(): void {
+    this.cancelled = true;
+  }
+
+  /**
+   * Render every frame and return the encoded file
+   */
+  public async record(options: RecordingOptions): Promise<Blob> {
+    if (this.recording) {
+      throw new Error('A recording is already in progress');
+    }
+    if (options.fps <= 0 || options.duration <= 0) {
+      throw new Error('Frame rate and duration must be positive');
+    }
+    if (options.width <= 0 || options.height <= 0) {
+      throw new Error('Resolution must be positive');
+    }
+
+    this.recording = true;
+    this.cancelled = false;
+    this.host.resize(options.width, options.height);
+
+    try {
+      return options.format === 'webm'
+        ? await this.recordWebM(options)
+        : await this.recordPNGs(options);
+    } finally {
+      this.recording = false;
+    }
+  }
+
+  private async recordPNGs(options: RecordingOptions): Promise<Blob> {
+    const times = frameTimes(options);
+    const digits = Math.max(5, times.length.toString().length);
+    const entries: ZipEntry[] = [];
+
+    for (let i = 0; i < times.length; i++) {
+      this.checkCancelled();
+      this.drawFrame(times[i], options.fps);
+
+      const blob = await canvasToBlob(this.host.canvas);
+      entries.push({
+        name: `frame_${i.toString().padStart(digits, '0')}.png`,
+        data: new Uint8Array(await blob.arrayBuffer()),
+      });
+      this.host.onProgress?.(i + 1, times.length);
+    }
+
+    entries.push(...(this.host.extraFiles?.() ?? []));
+    return createZip(entries);
+  }
+
+  /**
+   * MediaRecorder timestamps frames by wall clock, so frames are paced at the
+   * target rate once drawn
+   */
+  private async recordWebM(options: RecordingOptions): Promise<Blob> {
+    const mimeType = WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error('WebM recording is not supported in this browser');
+    }
+
+    const stream = this.host.canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+
+    const times = frameTimes(options);
+    const frameMs = 1000 / options.fps;
+    recorder.start();
+
+    try {
+      for (let i = 0; i < times.length; i++) {
+        this.checkCancelled();
+        const started = performance.now();
+        this.drawFrame(times[i], options.fps);
+        track.requestFrame();
+        this.host.onProgress?.(i + 1, times.length);
+        await delay(Math.max(0, frameMs - (performance.now() - started)));
+      }
+    } finally {
+      recorder.stop();
+      stream.getTracks().forEach((t) => t.stop());
+      await stopped;
+    }
+
+    return new Blob(chunks, { type: mimeType });
+  }
+
+  private drawFrame(time: number, fps: number): void {
+    this.host.setTime(time);
+    this.host.renderFrame(1000 / fps);
+  }
+
+  private checkCancelled(): void {
+    if (this.cancelled) {
+      throw new Error('Recording cancelled');
+    }
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('Failed to capture frame'));
+    }, 'image/png');
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
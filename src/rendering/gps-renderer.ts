@@ -7,6 +7,7 @@ import { Camera } from './camera';
 import { GPSSimulator } from '../core/gps';
 import { polarToCartesian } from '../core/geometry';
 import { COLORS } from '../constants';
+import type { Vector2 } from '../types';
 
 export class GPSRenderer {
   private gl: WebGL2RenderingContext;
@@ -17,6 +18,7 @@ export class GPSRenderer {
 
   private vectorVAO: WebGLVertexArrayObject | null = null;
   private vectorCount: number = 0;
+  private vectorPositions: number[] = [];
 
   constructor(gl: WebGL2RenderingContext, lineProgram: WebGLProgram) {
     this.gl = gl;
@@ -114,6 +116,7 @@ export class GPSRenderer {
       }
     }
 
+    this.vectorPositions = vectorPositions;
     if (vectorPositions.length === 0) return;
 
     const posBuffer = createBuffer(gl, new Float32Array(vectorPositions));
@@ -131,6 +134,21 @@ export class GPSRenderer {
     this.vectorCount = vectorPositions.length / 2;
   }
 
+  /**
+   * Displacement arrows as drawn (shaft and head segments), in world coordinates
+   */
+  public getVectorSegments(): Vector2[][] {
+    const p = this.vectorPositions;
+    const segments: Vector2[][] = [];
+    for (let i = 0; i < p.length; i += 4) {
+      segments.push([
+        { x: p[i], y: p[i + 1] },
+        { x: p[i + 2], y: p[i + 3] },
+      ]);
+    }
+    return segments;
+  }
+
   public renderStations(camera: Camera): void {
     if (!this.stationVAO || this.stationCount === 0) return;
 
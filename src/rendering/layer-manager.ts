@@ -0,0 +1,295 @@
+/**
+ * Layer Manager - Orders and composites RenderPass layers
+ *
+ * Layers draw bottom-to-top. Opaque alpha-blended layers render straight to
+ * the canvas; translucent or non-alpha layers render into an offscreen target
+ * that is composited with the layer's opacity and blend mode, so overlapping
+ * geometry inside a layer fades as a whole.
+ */
+
+import { createBuffer, createTexture, createVertexArray, UniformManager } from './webgl-utils';
+import { RENDER_CONFIG } from '../constants';
+import type { BlendMode, RenderPass } from '../types';
+
+interface RenderTarget {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+}
+
+interface Fade {
+  from: number;
+  to: number;
+  elapsed: number; // ms
+  duration: number; // ms
+  resting: number; // Opacity to restore once the fade settles
+  disable: boolean; // Fade-out: disable the layer at the end
+}
+
+export class LayerManager {
+  private gl: WebGL2RenderingContext;
+  private compositeProgram: WebGLProgram;
+  private layers: RenderPass[] = [];
+
+  private quadBuffer: WebGLBuffer;
+  private quadVAO: WebGLVertexArrayObject;
+  private target: RenderTarget | null = null;
+  private fades: Map<string, Fade> = new Map();
+  private listeners: Array<() => void> = [];
+
+  constructor(gl: WebGL2RenderingContext, compositeProgram: WebGLProgram) {
+    this.gl = gl;
+    this.compositeProgram = compositeProgram;
+
+    this.quadBuffer = createBuffer(gl, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]));
+    this.quadVAO = createVertexArray(gl, compositeProgram, [
+      { name: 'a_position', buffer: this.quadBuffer, size: 2 }
+    ]);
+  }
+
+  /**
+   * Add a layer on top of the stack
+   */
+  public add(pass: RenderPass): void {
+    if (this.get(pass.name)) {
+      throw new Error(`Layer "${pass.name}" already exists`);
+    }
+    this.layers.push(pass);
+  }
+
+  public remove(name: string): void {
+    this.layers = this.layers.filter((layer) => layer.name !== name);
+  }
+
+  public get(name: string): RenderPass | undefined {
+    return this.layers.find((layer) => layer.name === name);
+  }
+
+  /**
+   * Layers in draw order (bottom first)
+   */
+  public getLayers(): readonly RenderPass[] {
+    return this.layers;
+  }
+
+  public setEnabled(name: string, enabled: boolean): void {
+    const layer = this.require(name);
+    this.cancelFade(layer);
+    layer.enabled = enabled;
+  }
+
+  public setOpacity(name: string, opacity: number): void {
+    const layer = this.require(name);
+    this.fades.delete(name);
+    layer.opacity = Math.min(1, Math.max(0, opacity));
+  }
+
+  public setBlendMode(name: string, mode: BlendMode): void {
+    this.require(name).blendMode = mode;
+  }
+
+  /**
+   * Enable a layer and ramp its opacity up from zero (or its current value)
+   */
+  public fadeIn(name: string, duration: number = RENDER_CONFIG.LAYER_FADE_MS): void {
+    const layer = this.require(name);
+    const resting = this.fades.get(name)?.resting ?? layer.opacity;
+    const from = layer.enabled ? layer.opacity : 0;
+
+    layer.enabled = true;
+    layer.opacity = from;
+    this.fades.set(name, { from, to: resting, elapsed: 0, duration, resting, disable: false });
+  }
+
+  /**
+   * Ramp a layer's opacity to zero, then disable it and restore its opacity
+   */
+  public fadeOut(name: string, duration: number = RENDER_CONFIG.LAYER_FADE_MS): void {
+    const layer = this.require(name);
+    if (!layer.enabled) return;
+
+    const resting = this.fades.get(name)?.resting ?? layer.opacity;
+    this.fades.set(name, {
+      from: layer.opacity,
+      to: 0,
+      elapsed: 0,
+      duration,
+      resting,
+      disable: true,
+    });
+  }
+
+  /**
+   * Called whenever a fade settles (layer state is final again)
+   */
+  public onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Move a layer up (positive) or down (negative) the stack
+   */
+  public move(name: string, offset: number): void {
+    const index = this.layers.findIndex((layer) => layer.name === name);
+    if (index < 0) {
+      throw new Error(`Layer "${name}" not found`);
+    }
+    const target = Math.min(this.layers.length - 1, Math.max(0, index + offset));
+    const [layer] = this.layers.splice(index, 1);
+    this.layers.splice(target, 0, layer);
+  }
+
+  /**
+   * Reorder layers to follow `names` (bottom first); unlisted layers keep
+   * their relative order on top
+   */
+  public setOrder(names: string[]): void {
+    const rank = (layer: RenderPass) => {
+      const index = names.indexOf(layer.name);
+      return index < 0 ? names.length : index;
+    };
+    this.layers = [...this.layers].sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Draw every enabled layer in order into the bound framebuffer
+   * (the canvas, or an offscreen print target)
+   */
+  public render(deltaTime: number): void {
+    const gl = this.gl;
+    const output = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    this.advanceFades(deltaTime);
+
+    for (const layer of this.layers) {
+      if (!layer.enabled || layer.opacity <= 0) continue;
+
+      const mode = layer.blendMode ?? 'alpha';
+      if ((mode === 'alpha' && layer.opacity >= 1) || !this.target) {
+        layer.render(gl, deltaTime);
+        continue;
+      }
+
+      gl.bindFramebuffer(gl.FRAMEBUFFER, this.target.framebuffer);
+      gl.clearBufferfv(gl.COLOR, 0, [0, 0, 0, 0]);
+      layer.render(gl, deltaTime);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+
+      this.composite(layer.opacity, mode);
+    }
+  }
+
+  private advanceFades(deltaTime: number): void {
+    let changed = false;
+
+    for (const [name, fade] of this.fades) {
+      const layer = this.get(name);
+      if (!layer) {
+        this.fades.delete(name);
+        continue;
+      }
+
+      fade.elapsed += deltaTime;
+      const t = fade.duration > 0 ? Math.min(1, fade.elapsed / fade.duration) : 1;
+      layer.opacity = fade.from + (fade.to - fade.from) * t;
+
+      if (t >= 1) {
+        if (fade.disable) {
+          layer.enabled = false;
+          layer.opacity = fade.resting;
+        }
+        this.fades.delete(name);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.listeners.forEach((listener) => listener());
+    }
+  }
+
+  /**
+   * Stop a running fade, restoring the layer's resting opacity
+   */
+  private cancelFade(layer: RenderPass): void {
+    const fade = this.fades.get(layer.name);
+    if (!fade) return;
+    layer.opacity = fade.resting;
+    this.fades.delete(layer.name);
+  }
+
+  /**
+   * Resize the offscreen target to match the output (canvas or print tile)
+   */
+  public resize(width: number, height: number): void {
+    const gl = this.gl;
+    if (this.target && this.target.width === width && this.target.height === height) return;
+    this.disposeTarget();
+
+    const texture = createTexture(gl, width, height, null, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE);
+    const framebuffer = gl.createFramebuffer();
+    if (!framebuffer) {
+      throw new Error('Failed to create framebuffer');
+    }
+
+    const output = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+
+    this.target = { framebuffer, texture, width, height };
+  }
+
+  private composite(opacity: number, mode: BlendMode): void {
+    const gl = this.gl;
+    const target = this.target!;
+
+    gl.useProgram(this.compositeProgram);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, target.texture);
+
+    const uniforms = new UniformManager(gl, this.compositeProgram);
+    uniforms.setInt('u_layer', 0);
+    uniforms.setFloat('u_opacity', opacity);
+
+    // The target holds premultiplied colour; destination alpha is left as-is
+    // for additive and multiply so the canvas stays opaque
+    switch (mode) {
+      case 'additive':
+        gl.blendFuncSeparate(gl.ONE, gl.ONE, gl.ZERO, gl.ONE);
+        break;
+      case 'multiply':
+        // dst · (src + 1 − αsrc)
+        gl.blendFuncSeparate(gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA, gl.ZERO, gl.ONE);
+        break;
+      default:
+        gl.blendFuncSeparate(gl.ONE, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    }
+    gl.bindVertexArray(this.quadVAO);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.bindVertexArray(null);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  private require(name: string): RenderPass {
+    const layer = this.get(name);
+    if (!layer) {
+      throw new Error(`Layer "${name}" not found`);
+    }
+    return layer;
+  }
+
+  private disposeTarget(): void {
+    if (!this.target) return;
+    this.gl.deleteFramebuffer(this.target.framebuffer);
+    this.gl.deleteTexture(this.target.texture);
+    this.target = null;
+  }
+
+  public dispose(): void {
+    this.disposeTarget();
+    this.gl.deleteVertexArray(this.quadVAO);
+    this.gl.deleteBuffer(this.quadBuffer);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Overlay Renderer - Renders imported GeoJSON annotations (points, lines, polygons)
+ * Overlays are geographic, so they drift with expansion like the coastlines.
+ */
+
+import { createBuffer, createVertexArray, UniformManager } from './webgl-utils';
+import { Camera } from './camera';
+import { densifyPath } from '../data/geojson';
+import type { CustomOverlay } from '../data/geojson-adapter';
+import { ExpansionEngine } from '../core/expansion';
+import type { Projection } from '../core/projection';
+import { COLORS } from '../constants';
+import type { PolarCoord } from '../types';
+
+export class OverlayRenderer {
+  private gl: WebGL2RenderingContext;
+  private lineProgram: WebGLProgram;
+
+  private positionBuffer: WebGLBuffer;
+  private colorBuffer: WebGLBuffer;
+  private vao: WebGLVertexArrayObject;
+
+  private overlays: CustomOverlay[] = [];
+  private reference: PolarCoord[] = []; // Line segment endpoints, then points
+  private segmentVertexCount: number = 0;
+  private positions: Float32Array = new Float32Array(0);
+
+  constructor(gl: WebGL2RenderingContext, lineProgram: WebGLProgram) {
+    this.gl = gl;
+    this.lineProgram = lineProgram;
+
+    this.positionBuffer = createBuffer(gl, new Float32Array(0), gl.ARRAY_BUFFER, gl.DYNAMIC_DRAW);
+    this.colorBuffer = createBuffer(gl, new Float32Array(0), gl.ARRAY_BUFFER, gl.STATIC_DRAW);
+    this.vao = createVertexArray(gl, this.lineProgram, [
+      { name: 'a_position', buffer: this.positionBuffer, size: 2 },
+      { name: 'a_color', buffer: this.colorBuffer, size: 4 }
+    ]);
+  }
+
+  public setOverlays(overlays: CustomOverlay[], projection: Projection): void {
+    this.overlays = overlays;
+    this.setProjection(projection);
+  }
+
+  public getOverlays(): CustomOverlay[] {
+    return this.overlays;
+  }
+
+  /**
+   * Project overlays onto the disk at the reference epoch
+   */
+  public setProjection(projection: Projection): void {
+    const gl = this.gl;
+    const reference: PolarCoord[] = [];
+
+    for (const overlay of this.overlays) {
+      for (const path of overlay.paths) {
+        const projected = densifyPath(path).map((coord) => projection.forward(coord));
+        for (let i = 1; i < projected.length; i++) {
+          reference.push(projected[i - 1], projected[i]);
+        }
+      }
+    }
+    this.segmentVertexCount = reference.length;
+
+    for (const overlay of this.overlays) {
+      reference.push(...overlay.points.map((coord) => projection.forward(coord)));
+    }
+
+    this.reference = reference;
+    this.positions = new Float32Array(reference.length * 2);
+
+    const colors = new Float32Array(reference.length * 4);
+    for (let i = 0; i < reference.length; i++) {
+      colors.set(i < this.segmentVertexCount ? COLORS.OVERLAY.LINE : COLORS.OVERLAY.POINT, i * 4);
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.colorBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, colors, gl.STATIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+  }
+
+  /**
+   * Move every vertex to its expanded radius at `time` under the active law
+   */
+  public update(expansion: ExpansionEngine, time: number): void {
+    if (this.reference.length === 0) return;
+
+    const gl = this.gl;
+    const positions = this.positions;
+
+    for (let i = 0; i < this.reference.length; i++) {
+      const { r, theta } = this.reference[i];
+      const expanded = expansion.getExpandedRadius(r, time);
+      positions[i * 2] = expanded * Math.cos(theta);
+      positions[i * 2 + 1] = expanded * Math.sin(theta);
+    }
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, positions, gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+  }
+
+  public clear(): void {
+    this.overlays = [];
+    this.reference = [];
+    this.segmentVertexCount = 0;
+  }
+
+  public render(camera: Camera): void {
+    if (this.reference.length === 0) return;
+
+    const gl = this.gl;
+
+    gl.useProgram(this.lineProgram);
+    gl.lineWidth(2.0);
+
+    const uniforms = new UniformManager(gl, this.lineProgram);
+    uniforms.setMat4('u_viewProjection', camera.getViewProjectionMatrix());
+
+    gl.bindVertexArray(this.vao);
+    if (this.segmentVertexCount > 0) {
+      gl.drawArrays(gl.LINES, 0, this.segmentVertexCount);
+    }
+    const pointCount = this.reference.length - this.segmentVertexCount;
+    if (pointCount > 0) {
+      gl.drawArrays(gl.POINTS, this.segmentVertexCount, pointCount);
+    }
+    gl.bindVertexArray(null);
+  }
+
+  public dispose(): void {
+    const gl = this.gl;
+    gl.deleteVertexArray(this.vao);
+    gl.deleteBuffer(this.positionBuffer);
+    gl.deleteBuffer(this.colorBuffer);
+  }
+}
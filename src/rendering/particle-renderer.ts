@@ -0,0 +1,310 @@
+/**
+ * Particle Renderer - Wind-map style animation of the EM field
+ *
+ * Particle state (position, age) lives in two GPU buffers; each frame a
+ * transform feedback pass advects one buffer into the other through the
+ * field texture. Particles are drawn as points into a trail target that is
+ * faded every frame, and the trails are composited onto the output.
+ */
+
+import { createBuffer, createTexture, createVertexArray, UniformManager } from './webgl-utils';
+import { Camera } from './camera';
+import { MODEL, COLORS, RENDER_CONFIG } from '../constants';
+import type { CameraState } from '../types';
+
+const STRIDE = 12; // vec2 position + float age
+
+interface ParticleState {
+  buffer: WebGLBuffer;
+  updateVAO: WebGLVertexArrayObject;
+  drawVAO: WebGLVertexArrayObject;
+  feedback: WebGLTransformFeedback;
+}
+
+interface TrailTarget {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+}
+
+export class ParticleRenderer {
+  private gl: WebGL2RenderingContext;
+  private updateProgram: WebGLProgram;
+  private drawProgram: WebGLProgram;
+  private trailProgram: WebGLProgram;
+  private compositeProgram: WebGLProgram;
+  private count: number;
+
+  private states: ParticleState[];
+  private current: number = 0; // Index of the state holding this frame's particles
+  private quadBuffer: WebGLBuffer;
+  private trailVAO: WebGLVertexArrayObject;
+  private compositeVAO: WebGLVertexArrayObject;
+  private trails: TrailTarget[] = [];
+  private trailWidth: number = 0;
+  private trailHeight: number = 0;
+  private lastCamera: CameraState | null = null;
+  private frame: number = 0;
+
+  constructor(
+    gl: WebGL2RenderingContext,
+    updateProgram: WebGLProgram,
+    drawProgram: WebGLProgram,
+    trailProgram: WebGLProgram,
+    compositeProgram: WebGLProgram,
+    count: number = RENDER_CONFIG.PARTICLE_COUNT
+  ) {
+    this.gl = gl;
+    this.updateProgram = updateProgram;
+    this.drawProgram = drawProgram;
+    this.trailProgram = trailProgram;
+    this.compositeProgram = compositeProgram;
+    this.count = count;
+
+    const initial = createInitialState(count);
+    this.states = [0, 1].map(() => this.createState(initial));
+
+    this.quadBuffer = createBuffer(gl, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]));
+    this.trailVAO = createVertexArray(gl, trailProgram, [
+      { name: 'a_position', buffer: this.quadBuffer, size: 2 },
+    ]);
+    this.compositeVAO = createVertexArray(gl, compositeProgram, [
+      { name: 'a_position', buffer: this.quadBuffer, size: 2 },
+    ]);
+  }
+
+  private createState(initial: Float32Array): ParticleState {
+    const gl = this.gl;
+    const buffer = createBuffer(gl, initial, gl.ARRAY_BUFFER, gl.DYNAMIC_COPY);
+    const attributes = (program: WebGLProgram) =>
+      createVertexArray(gl, program, [
+        { name: 'a_position', buffer, size: 2, stride: STRIDE, offset: 0 },
+        { name: 'a_age', buffer, size: 1, stride: STRIDE, offset: 8 },
+      ]);
+
+    const feedback = gl.createTransformFeedback();
+    if (!feedback) {
+      throw new Error('Failed to create transform feedback');
+    }
+    gl.bindTransformFeedback(gl.TRANSFORM_FEEDBACK, feedback);
+    gl.bindBufferBase(gl.TRANSFORM_FEEDBACK_BUFFER, 0, buffer);
+    gl.bindTransformFeedback(gl.TRANSFORM_FEEDBACK, null);
+    gl.bindBuffer(gl.TRANSFORM_FEEDBACK_BUFFER, null);
+
+    return {
+      buffer,
+      updateVAO: attributes(this.updateProgram),
+      drawVAO: attributes(this.drawProgram),
+      feedback,
+    };
+  }
+
+  /**
+   * Advance the particles by `deltaTime` ms and draw their trails into the
+   * bound framebuffer. A zero delta (e.g. print renders) redraws in place.
+   */
+  public render(camera: Camera, fieldTexture: WebGLTexture | null, deltaTime: number): void {
+    if (!fieldTexture) return;
+    const gl = this.gl;
+    const output = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    const viewport = gl.getParameter(gl.VIEWPORT) as Int32Array;
+    const seconds = Math.min(deltaTime / 1000, 0.1); // Avoid jumps after a stall
+
+    if (seconds > 0) this.advance(camera, fieldTexture, seconds);
+
+    // Trails are in screen space, so any camera move invalidates them
+    const state = camera.getState();
+    const moved =
+      !this.lastCamera ||
+      (Object.keys(state) as Array<keyof CameraState>).some(
+        (key) => state[key] !== this.lastCamera![key]
+      );
+    this.lastCamera = state;
+    const resized = this.resizeTrails(viewport[2], viewport[3]);
+
+    gl.viewport(0, 0, this.trailWidth, this.trailHeight);
+    gl.disable(gl.DEPTH_TEST);
+    const [previous, next] = this.trails;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, next.framebuffer);
+    if (moved || resized) {
+      gl.clearBufferfv(gl.COLOR, 0, [0, 0, 0, 0]);
+    } else {
+      const fade = Math.pow(RENDER_CONFIG.PARTICLE_TRAIL_PERSISTENCE, seconds);
+      this.fadeTrails(previous.texture, fade);
+    }
+    this.drawParticles(camera);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+    gl.viewport(viewport[0], viewport[1], viewport[2], viewport[3]);
+    this.composite(next.texture);
+    gl.enable(gl.DEPTH_TEST);
+
+    this.trails = [next, previous];
+  }
+
+  /**
+   * Transform feedback pass: advect the current state into the other buffer
+   */
+  private advance(camera: Camera, fieldTexture: WebGLTexture, seconds: number): void {
+    const gl = this.gl;
+    const source = this.states[this.current];
+    const target = this.states[1 - this.current];
+    const rim = MODEL.geometry.ANTARCTIC_RIM_RADIUS;
+
+    // Respawn over the visible part of the disk so zoomed-in views stay dense
+    const centre = camera.getPosition();
+    const corner = camera.screenToWorld(1, 1);
+    const spawnRadius = Math.min(Math.hypot(corner.x - centre.x, corner.y - centre.y), rim);
+
+    gl.useProgram(this.updateProgram);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, fieldTexture);
+
+    const uniforms = new UniformManager(gl, this.updateProgram);
+    uniforms.setInt('u_field', 0);
+    uniforms.setFloat('u_maxRadius', rim);
+    uniforms.setFloat('u_deltaTime', seconds);
+    uniforms.setFloat('u_speed', (RENDER_CONFIG.PARTICLE_SPEED * 2) / camera.getZoom());
+    uniforms.setFloat('u_lifetime', RENDER_CONFIG.PARTICLE_LIFETIME);
+    uniforms.setVec2('u_spawnCentre', centre.x, centre.y);
+    uniforms.setFloat('u_spawnRadius', spawnRadius);
+    uniforms.setUint('u_seed', Math.imul(++this.frame, 0x9e3779b1) >>> 0);
+
+    gl.enable(gl.RASTERIZER_DISCARD);
+    gl.bindVertexArray(source.updateVAO);
+    gl.bindTransformFeedback(gl.TRANSFORM_FEEDBACK, target.feedback);
+    gl.beginTransformFeedback(gl.POINTS);
+    gl.drawArrays(gl.POINTS, 0, this.count);
+    gl.endTransformFeedback();
+    gl.bindTransformFeedback(gl.TRANSFORM_FEEDBACK, null);
+    gl.bindVertexArray(null);
+    gl.disable(gl.RASTERIZER_DISCARD);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    this.current = 1 - this.current;
+  }
+
+  /**
+   * Copy the previous trails into the bound target, dimmed
+   */
+  private fadeTrails(previous: WebGLTexture, fade: number): void {
+    const gl = this.gl;
+    gl.useProgram(this.trailProgram);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, previous);
+
+    const uniforms = new UniformManager(gl, this.trailProgram);
+    uniforms.setInt('u_trail', 0);
+    uniforms.setFloat('u_fade', fade);
+
+    gl.disable(gl.BLEND);
+    gl.bindVertexArray(this.trailVAO);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.bindVertexArray(null);
+    gl.enable(gl.BLEND);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
+  private drawParticles(camera: Camera): void {
+    const gl = this.gl;
+    gl.useProgram(this.drawProgram);
+
+    const uniforms = new UniformManager(gl, this.drawProgram);
+    uniforms.setMat4('u_viewProjection', camera.getViewProjectionMatrix());
+    uniforms.setFloat('u_lifetime', RENDER_CONFIG.PARTICLE_LIFETIME);
+    uniforms.setFloat('u_pointSize', RENDER_CONFIG.PARTICLE_SIZE * window.devicePixelRatio);
+    uniforms.setVec4('u_color', ...COLORS.EM_FIELD.HIGH);
+
+    // Premultiplied source over the trails
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.bindVertexArray(this.states[this.current].drawVAO);
+    gl.drawArrays(gl.POINTS, 0, this.count);
+    gl.bindVertexArray(null);
+    gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  private composite(trails: WebGLTexture): void {
+    const gl = this.gl;
+    gl.useProgram(this.compositeProgram);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, trails);
+
+    const uniforms = new UniformManager(gl, this.compositeProgram);
+    uniforms.setInt('u_layer', 0);
+    uniforms.setFloat('u_opacity', 1);
+
+    gl.blendFuncSeparate(gl.ONE, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.bindVertexArray(this.compositeVAO);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.bindVertexArray(null);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  /**
+   * Match the trail targets to the output size; returns true when recreated
+   */
+  private resizeTrails(width: number, height: number): boolean {
+    if (this.trails.length > 0 && width === this.trailWidth && height === this.trailHeight) {
+      return false;
+    }
+    const gl = this.gl;
+    this.disposeTrails();
+
+    const output = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    for (let i = 0; i < 2; i++) {
+      const texture = createTexture(gl, width, height, null, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE);
+      const framebuffer = gl.createFramebuffer();
+      if (!framebuffer) {
+        throw new Error('Failed to create framebuffer');
+      }
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+      this.trails.push({ framebuffer, texture });
+    }
+    gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+
+    this.trailWidth = width;
+    this.trailHeight = height;
+    return true;
+  }
+
+  private disposeTrails(): void {
+    const gl = this.gl;
+    for (const trail of this.trails) {
+      gl.deleteFramebuffer(trail.framebuffer);
+      gl.deleteTexture(trail.texture);
+    }
+    this.trails = [];
+  }
+
+  public dispose(): void {
+    const gl = this.gl;
+    this.disposeTrails();
+    for (const state of this.states) {
+      gl.deleteVertexArray(state.updateVAO);
+      gl.deleteVertexArray(state.drawVAO);
+      gl.deleteTransformFeedback(state.feedback);
+      gl.deleteBuffer(state.buffer);
+    }
+    gl.deleteVertexArray(this.trailVAO);
+    gl.deleteVertexArray(this.compositeVAO);
+    gl.deleteBuffer(this.quadBuffer);
+  }
+}
+
+/**
+ * Particles spread uniformly over the disk with staggered ages, so they do
+ * not all respawn on the same frame
+ */
+function createInitialState(count: number): Float32Array {
+  const rim = MODEL.geometry.ANTARCTIC_RIM_RADIUS;
+  const data = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const r = rim * Math.sqrt(Math.random());
+    const angle = Math.random() * 2 * Math.PI;
+    data[i * 3] = r * Math.cos(angle);
+    data[i * 3 + 1] = r * Math.sin(angle);
+    data[i * 3 + 2] = Math.random() * RENDER_CONFIG.PARTICLE_LIFETIME;
+  }
+  return data;
+}
@@ -0,0 +1,134 @@
+/**
+ * Ruler Renderer - Renders measurement paths, tick marks and their expanded future outline
+ */
+
+import { createBuffer, createVertexArray, UniformManager } from './webgl-utils';
+import { Camera } from './camera';
+import { polarToCartesian } from '../core/geometry';
+import { COLORS } from '../constants';
+import type { PolarCoord } from '../types';
+
+const TICK_SPACING = 1000; // km between tick marks
+const TICK_LENGTH = 120; // km
+
+export class RulerRenderer {
+  private gl: WebGL2RenderingContext;
+  private lineProgram: WebGLProgram;
+
+  private positionBuffer: WebGLBuffer;
+  private colorBuffer: WebGLBuffer;
+  private vao: WebGLVertexArrayObject;
+
+  private segmentVertexCount: number = 0;
+  private pointOffset: number = 0;
+  private pointCount: number = 0;
+
+  constructor(gl: WebGL2RenderingContext, lineProgram: WebGLProgram) {
+    this.gl = gl;
+    this.lineProgram = lineProgram;
+
+    this.positionBuffer = createBuffer(gl, new Float32Array(0), gl.ARRAY_BUFFER, gl.DYNAMIC_DRAW);
+    this.colorBuffer = createBuffer(gl, new Float32Array(0), gl.ARRAY_BUFFER, gl.DYNAMIC_DRAW);
+    this.vao = createVertexArray(gl, this.lineProgram, [
+      { name: 'a_position', buffer: this.positionBuffer, size: 2 },
+      { name: 'a_color', buffer: this.colorBuffer, size: 4 }
+    ]);
+  }
+
+  /**
+   * Rebuild geometry for the current path and (optionally) its future outline
+   */
+  public update(points: PolarCoord[], future: PolarCoord[] = []): void {
+    const gl = this.gl;
+    const positions: number[] = [];
+    const colors: number[] = [];
+
+    const pushSegment = (a: PolarCoord, b: PolarCoord, color: number[]) => {
+      const ca = polarToCartesian(a);
+      const cb = polarToCartesian(b);
+      positions.push(ca.x, ca.y, cb.x, cb.y);
+      colors.push(...color, ...color);
+    };
+
+    // Future outline first so the current path draws over it
+    for (let i = 1; i < future.length; i++) {
+      pushSegment(future[i - 1], future[i], COLORS.RULER.FUTURE);
+    }
+
+    for (let i = 1; i < points.length; i++) {
+      pushSegment(points[i - 1], points[i], COLORS.RULER.LINE);
+      this.pushTicks(points[i - 1], points[i], positions, colors);
+    }
+
+    this.segmentVertexCount = positions.length / 2;
+
+    // Vertex markers
+    for (const point of points) {
+      const c = polarToCartesian(point);
+      positions.push(c.x, c.y);
+      colors.push(...COLORS.RULER.LINE);
+    }
+    this.pointOffset = this.segmentVertexCount;
+    this.pointCount = points.length;
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(positions), gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.colorBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(colors), gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+  }
+
+  private pushTicks(a: PolarCoord, b: PolarCoord, positions: number[], colors: number[]): void {
+    const ca = polarToCartesian(a);
+    const cb = polarToCartesian(b);
+    const dx = cb.x - ca.x;
+    const dy = cb.y - ca.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    if (length === 0) return;
+
+    // Unit normal for the tick direction
+    const nx = -dy / length;
+    const ny = dx / length;
+
+    for (let d = TICK_SPACING; d < length; d += TICK_SPACING) {
+      const x = ca.x + (dx * d) / length;
+      const y = ca.y + (dy * d) / length;
+      const half = TICK_LENGTH / 2;
+      positions.push(x - nx * half, y - ny * half, x + nx * half, y + ny * half);
+      colors.push(...COLORS.RULER.TICK, ...COLORS.RULER.TICK);
+    }
+  }
+
+  public clear(): void {
+    this.segmentVertexCount = 0;
+    this.pointCount = 0;
+  }
+
+  public render(camera: Camera): void {
+    if (this.segmentVertexCount === 0 && this.pointCount === 0) return;
+
+    const gl = this.gl;
+
+    gl.useProgram(this.lineProgram);
+    gl.lineWidth(2.0);
+
+    const uniforms = new UniformManager(gl, this.lineProgram);
+    uniforms.setMat4('u_viewProjection', camera.getViewProjectionMatrix());
+
+    gl.bindVertexArray(this.vao);
+    if (this.segmentVertexCount > 0) {
+      gl.drawArrays(gl.LINES, 0, this.segmentVertexCount);
+    }
+    if (this.pointCount > 0) {
+      gl.drawArrays(gl.POINTS, this.pointOffset, this.pointCount);
+    }
+    gl.bindVertexArray(null);
+  }
+
+  public dispose(): void {
+    const gl = this.gl;
+    gl.deleteVertexArray(this.vao);
+    gl.deleteBuffer(this.positionBuffer);
+    gl.deleteBuffer(this.colorBuffer);
+  }
+}
@@ -10,12 +10,21 @@ import earthVertSource from '../shaders/earth.vert.glsl?raw';
 import earthFragSource from '../shaders/earth.frag.glsl?raw';
 import fieldVertSource from '../shaders/field.vert.glsl?raw';
 import fieldFragSource from '../shaders/field.frag.glsl?raw';
+import fieldLicFragSource from '../shaders/field-lic.frag.glsl?raw';
+import fieldScalarFragSource from '../shaders/field-scalar.frag.glsl?raw';
 import lineVertSource from '../shaders/line.vert.glsl?raw';
 import lineFragSource from '../shaders/line.frag.glsl?raw';
 import solarVertSource from '../shaders/solar.vert.glsl?raw';
 import solarFragSource from '../shaders/solar.frag.glsl?raw';
 import climateVertSource from '../shaders/climate.vert.glsl?raw';
 import climateFragSource from '../shaders/climate.frag.glsl?raw';
+import compositeVertSource from '../shaders/composite.vert.glsl?raw';
+import compositeFragSource from '../shaders/composite.frag.glsl?raw';
+import particleUpdateVertSource from '../shaders/particle-update.vert.glsl?raw';
+import particleUpdateFragSource from '../shaders/particle-update.frag.glsl?raw';
+import particleVertSource from '../shaders/particle.vert.glsl?raw';
+import particleFragSource from '../shaders/particle.frag.glsl?raw';
+import particleTrailFragSource from '../shaders/particle-trail.frag.glsl?raw';
 
 export class ShaderManager {
   private gl: WebGL2RenderingContext;
@@ -36,6 +45,14 @@ export class ShaderManager {
       console.log('✓ Earth shader loaded');
 
       this.programs.set('field', createShaderProgram(this.gl, fieldVertSource, fieldFragSource));
+      this.programs.set(
+        'field-lic',
+        createShaderProgram(this.gl, fieldVertSource, fieldLicFragSource)
+      );
+      this.programs.set(
+        'field-scalar',
+        createShaderProgram(this.gl, fieldVertSource, fieldScalarFragSource)
+      );
       console.log('✓ EM Field shader loaded');
 
       this.programs.set('line', createShaderProgram(this.gl, lineVertSource, lineFragSource));
@@ -47,6 +64,29 @@ export class ShaderManager {
       this.programs.set('climate', createShaderProgram(this.gl, climateVertSource, climateFragSource));
       console.log('✓ Climate shader loaded');
 
+      this.programs.set(
+        'composite',
+        createShaderProgram(this.gl, compositeVertSource, compositeFragSource)
+      );
+      console.log('✓ Composite shader loaded');
+
+      this.programs.set(
+        'particle-update',
+        createShaderProgram(this.gl, particleUpdateVertSource, particleUpdateFragSource, [
+          'v_position',
+          'v_age',
+        ])
+      );
+      this.programs.set(
+        'particle',
+        createShaderProgram(this.gl, particleVertSource, particleFragSource)
+      );
+      this.programs.set(
+        'particle-trail',
+        createShaderProgram(this.gl, compositeVertSource, particleTrailFragSource)
+      );
+      console.log('✓ Particle shaders loaded');
+
       console.log('All shaders loaded successfully');
     } catch (error) {
       console.error('Shader loading failed:', error);
@@ -6,7 +6,7 @@ import { createBuffer, createVertexArray, UniformManager, generateCircleVertices
 import { Camera } from './camera';
 import { SolarSimulator } from '../core/solar';
 import { MODEL, COLORS } from '../constants';
-import type { Vector3 } from '../types';
+import type { Vector2, Vector3 } from '../types';
 
 export class SolarRenderer {
   private gl: WebGL2RenderingContext;
@@ -24,6 +24,7 @@ export class SolarRenderer {
   // Sun path line
   private sunPathVAO: WebGLVertexArrayObject | null = null;
   private sunPathCount: number = 0;
+  private sunPath: Vector2[] = [];
 
   constructor(
     gl: WebGL2RenderingContext,
@@ -96,6 +97,7 @@ export class SolarRenderer {
     ]);
 
     this.sunPathCount = path.length;
+    this.sunPath = path.map(({ x, y }) => ({ x, y }));
   }
 
   public renderIllumination(camera: Camera, sunPos: Vector3): void {
@@ -128,9 +130,9 @@ export class SolarRenderer {
     // Copy view-projection matrix
     sunMatrix.set(vpMatrix);
 
-    // Add translation for sun position
-    sunMatrix[12] += sunPos.x * vpMatrix[0];
-    sunMatrix[13] += sunPos.y * vpMatrix[5];
+    // Add translation for sun position (through the full 2D basis, so camera rotation applies)
+    sunMatrix[12] += sunPos.x * vpMatrix[0] + sunPos.y * vpMatrix[4];
+    sunMatrix[13] += sunPos.x * vpMatrix[1] + sunPos.y * vpMatrix[5];
 
     const uniforms = new UniformManager(gl, this.lineProgram);
     uniforms.setMat4('u_viewProjection', sunMatrix);
@@ -146,6 +148,13 @@ export class SolarRenderer {
     gl.bindVertexArray(null);
   }
 
+  /**
+   * Daily sun path as drawn (closed loop), in world coordinates
+   */
+  public getSunPath(): Vector2[] {
+    return this.sunPath.length > 0 ? [...this.sunPath, this.sunPath[0]] : [];
+  }
+
   public renderSunPath(camera: Camera): void {
     if (!this.sunPathVAO) return;
 
@@ -0,0 +1,117 @@
+/**
+ * SVG Export - Vector output of line layers for posters and papers
+ *
+ * Paths are given in world coordinates and projected through the camera, so
+ * the SVG frames exactly what the canvas shows at the requested size.
+ */
+
+import type { Camera } from './camera';
+import type { Vector2 } from '../types';
+
+type RGBA = [number, number, number, number];
+
+export interface SVGLayer {
+  name: string;
+  color: RGBA;
+  strokeWidth: number; // px at the output size
+  paths?: Vector2[][]; // Polylines
+  rings?: number[]; // Circle radii around the disk center (world units)
+}
+
+export interface SVGOptions {
+  width: number; // px
+  height: number; // px
+  background?: RGBA;
+  title?: string;
+}
+
+/**
+ * Build an SVG document; each layer becomes one `<g>` group, bottom first
+ */
+export function buildSVG(camera: Camera, layers: SVGLayer[], options: SVGOptions): string {
+  const { width, height } = options;
+  const toPixel = (point: Vector2): Vector2 => {
+    const ndc = camera.worldToScreen(point.x, point.y);
+    return { x: ((ndc.x + 1) / 2) * width, y: ((1 - ndc.y) / 2) * height };
+  };
+  // Uniform world → pixel scale (the projection is orthographic and unrotated in scale)
+  const scale = (camera.getZoom() * height) / 2;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+      `viewBox="0 0 ${width} ${height}">`,
+  ];
+  if (options.title) {
+    lines.push(`  <title>${escapeXML(options.title)}</title>`);
+  }
+  if (options.background) {
+    lines.push(`  <rect width="100%" height="100%" ${paint('fill', options.background)}/>`);
+  }
+
+  for (const layer of layers) {
+    lines.push(
+      `  <g id="${escapeXML(layer.name)}" fill="none" ${paint('stroke', layer.color)} ` +
+        `stroke-width="${layer.strokeWidth}" stroke-linecap="round" stroke-linejoin="round">`
+    );
+
+    if (layer.rings && layer.rings.length > 0) {
+      const center = toPixel({ x: 0, y: 0 });
+      for (const radius of layer.rings) {
+        lines.push(
+          `    <circle cx="${fmt(center.x)}" cy="${fmt(center.y)}" r="${fmt(radius * scale)}"/>`
+        );
+      }
+    }
+
+    if (layer.paths && layer.paths.length > 0) {
+      lines.push(`    <path d="${pathData(layer.paths.map((path) => path.map(toPixel)))}"/>`);
+    }
+
+    lines.push('  </g>');
+  }
+
+  lines.push('</svg>');
+  return lines.join('\n');
+}
+
+/**
+ * Path data for polylines; a polyline starting where the previous one ended
+ * continues it, so segment lists (e.g. GL_LINES buffers) collapse into runs
+ */
+function pathData(paths: Vector2[][]): string {
+  const commands: string[] = [];
+  let last: Vector2 | null = null;
+
+  for (const path of paths) {
+    if (path.length < 2) continue;
+    const [first, ...rest] = path;
+    if (!last || last.x !== first.x || last.y !== first.y) {
+      commands.push(`M${fmt(first.x)} ${fmt(first.y)}`);
+    }
+    for (const point of rest) {
+      commands.push(`L${fmt(point.x)} ${fmt(point.y)}`);
+    }
+    last = path[path.length - 1];
+  }
+
+  return commands.join('');
+}
+
+function paint(attribute: 'fill' | 'stroke', color: RGBA): string {
+  const [r, g, b, a] = color.map((c) => Math.min(1, Math.max(0, c)));
+  const rgb = [r, g, b].map((c) => Math.round(c * 255)).join(',');
+  return `${attribute}="rgb(${rgb})" ${attribute}-opacity="${fmt(a)}"`;
+}
+
+function fmt(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -3,6 +3,16 @@
  * Context creation, shader compilation, buffer management
  */
 
+/**
+ * A tile of an offscreen render, in pixels from the bottom-left of the full image
+ */
+export interface RenderTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export class WebGLContext {
   public gl: WebGL2RenderingContext;
   private canvas: HTMLCanvasElement;
@@ -28,9 +38,9 @@ export class WebGLContext {
   private initialize(): void {
     const gl = this.gl;
 
-    // Enable blending for transparency
+    // Enable blending for transparency (alpha accumulates premultiplied for layer targets)
     gl.enable(gl.BLEND);
-    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
 
     // Enable depth testing
     gl.enable(gl.DEPTH_TEST);
@@ -51,6 +61,132 @@ export class WebGLContext {
     gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
   }
 
+  /**
+   * Largest render target edge the driver accepts
+   */
+  public getMaxRenderSize(): number {
+    const gl = this.gl;
+    const viewport = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array;
+    return Math.min(
+      gl.getParameter(gl.MAX_RENDERBUFFER_SIZE) as number,
+      viewport[0],
+      viewport[1]
+    );
+  }
+
+  /**
+   * Render an image of arbitrary size into an offscreen framebuffer
+   * Images larger than the maximum render size are drawn tile by tile; `draw`
+   * must restrict its projection to the tile it is given. `tileLimit` caps
+   * the tile edge to bound GPU memory.
+   */
+  public renderOffscreen(
+    width: number,
+    height: number,
+    draw: (tile: RenderTile) => void,
+    tileLimit: number = Infinity
+  ): HTMLCanvasElement {
+    const gl = this.gl;
+    const tileSize = Math.min(this.getMaxRenderSize(), tileLimit);
+    const tileWidth = Math.min(width, tileSize);
+    const tileHeight = Math.min(height, tileSize);
+    const samples = Math.min(4, gl.getParameter(gl.MAX_SAMPLES) as number);
+
+    // Multisampled target to draw into, resolved into a plain one for readback
+    const color = gl.createRenderbuffer();
+    const depth = gl.createRenderbuffer();
+    const resolved = gl.createRenderbuffer();
+    const drawTarget = gl.createFramebuffer();
+    const readTarget = gl.createFramebuffer();
+    if (!color || !depth || !resolved || !drawTarget || !readTarget) {
+      throw new Error('Failed to create offscreen framebuffer');
+    }
+
+    gl.bindRenderbuffer(gl.RENDERBUFFER, color);
+    gl.renderbufferStorageMultisample(gl.RENDERBUFFER, samples, gl.RGBA8, tileWidth, tileHeight);
+    gl.bindRenderbuffer(gl.RENDERBUFFER, depth);
+    gl.renderbufferStorageMultisample(
+      gl.RENDERBUFFER,
+      samples,
+      gl.DEPTH_COMPONENT24,
+      tileWidth,
+      tileHeight
+    );
+    gl.bindRenderbuffer(gl.RENDERBUFFER, resolved);
+    gl.renderbufferStorage(gl.RENDERBUFFER, gl.RGBA8, tileWidth, tileHeight);
+    gl.bindRenderbuffer(gl.RENDERBUFFER, null);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, drawTarget);
+    gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.RENDERBUFFER, color);
+    gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.RENDERBUFFER, depth);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, readTarget);
+    gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.RENDERBUFFER, resolved);
+
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const context = output.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to create output canvas');
+    }
+
+    const pixels = new Uint8ClampedArray(tileWidth * tileHeight * 4);
+
+    try {
+      for (let y = 0; y < height; y += tileHeight) {
+        for (let x = 0; x < width; x += tileWidth) {
+          const tile = {
+            x,
+            y,
+            width: Math.min(tileWidth, width - x),
+            height: Math.min(tileHeight, height - y),
+          };
+
+          gl.bindFramebuffer(gl.FRAMEBUFFER, drawTarget);
+          gl.viewport(0, 0, tile.width, tile.height);
+          this.clear();
+          draw(tile);
+
+          gl.bindFramebuffer(gl.READ_FRAMEBUFFER, drawTarget);
+          gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, readTarget);
+          gl.blitFramebuffer(
+            0,
+            0,
+            tile.width,
+            tile.height,
+            0,
+            0,
+            tile.width,
+            tile.height,
+            gl.COLOR_BUFFER_BIT,
+            gl.NEAREST
+          );
+          gl.bindFramebuffer(gl.READ_FRAMEBUFFER, readTarget);
+          gl.readPixels(0, 0, tile.width, tile.height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+
+          // GL rows run bottom-up; canvas rows top-down
+          const image = context.createImageData(tile.width, tile.height);
+          const tileRowBytes = tile.width * 4;
+          for (let row = 0; row < tile.height; row++) {
+            const source = (tile.height - 1 - row) * tileRowBytes;
+            image.data.set(pixels.subarray(source, source + tileRowBytes), row * tileRowBytes);
+          }
+          context.putImageData(image, x, height - y - tile.height);
+        }
+      }
+    } finally {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+      gl.deleteFramebuffer(drawTarget);
+      gl.deleteFramebuffer(readTarget);
+      gl.deleteRenderbuffer(color);
+      gl.deleteRenderbuffer(depth);
+      gl.deleteRenderbuffer(resolved);
+    }
+
+    return output;
+  }
+
   public getCanvas(): HTMLCanvasElement {
     return this.canvas;
   }
@@ -85,10 +221,14 @@ export function compileShader(
   return shader;
 }
 
+/**
+ * Link a program; `feedbackVaryings` are captured (interleaved) by transform feedback
+ */
 export function linkProgram(
   gl: WebGL2RenderingContext,
   vertexShader: WebGLShader,
-  fragmentShader: WebGLShader
+  fragmentShader: WebGLShader,
+  feedbackVaryings: string[] = []
 ): WebGLProgram {
   const program = gl.createProgram();
   if (!program) {
@@ -97,6 +237,9 @@ export function linkProgram(
 
   gl.attachShader(program, vertexShader);
   gl.attachShader(program, fragmentShader);
+  if (feedbackVaryings.length > 0) {
+    gl.transformFeedbackVaryings(program, feedbackVaryings, gl.INTERLEAVED_ATTRIBS);
+  }
   gl.linkProgram(program);
 
   if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
@@ -111,11 +254,12 @@ export function linkProgram(
 export function createShaderProgram(
   gl: WebGL2RenderingContext,
   vertexSource: string,
-  fragmentSource: string
+  fragmentSource: string,
+  feedbackVaryings: string[] = []
 ): WebGLProgram {
   const vertexShader = compileShader(gl, vertexSource, gl.VERTEX_SHADER);
   const fragmentShader = compileShader(gl, fragmentSource, gl.FRAGMENT_SHADER);
-  const program = linkProgram(gl, vertexShader, fragmentShader);
+  const program = linkProgram(gl, vertexShader, fragmentShader, feedbackVaryings);
 
   // Clean up shaders (they're now in the program)
   gl.deleteShader(vertexShader);
@@ -257,11 +401,32 @@ export class UniformManager {
     if (location) this.gl.uniform1i(location, value);
   }
 
+  public setUint(name: string, value: number): void {
+    const location = this.getLocation(name);
+    if (location) this.gl.uniform1ui(location, value);
+  }
+
   public setVec2(name: string, x: number, y: number): void {
     const location = this.getLocation(name);
     if (location) this.gl.uniform2f(location, x, y);
   }
 
+  /**
+   * Set a float[] uniform
+   */
+  public setFloatArray(name: string, values: Float32Array): void {
+    const location = this.getLocation(name);
+    if (location) this.gl.uniform1fv(location, values);
+  }
+
+  /**
+   * Set a vec2[] uniform from packed x, y pairs
+   */
+  public setVec2Array(name: string, values: Float32Array): void {
+    const location = this.getLocation(name);
+    if (location) this.gl.uniform2fv(location, values);
+  }
+
   public setVec3(name: string, x: number, y: number, z: number): void {
     const location = this.getLocation(name);
     if (location) this.gl.uniform3f(location, x, y, z);
@@ -334,6 +499,48 @@ export function generateCircleVertices(
   return { positions, indices };
 }
 
+/**
+ * Disk built from concentric vertex rings around a centre vertex, so per-vertex
+ * radial mappings bend the interior as well as the edge
+ */
+export function generateDiskVertices(
+  rings: number,
+  segments: number,
+  radius: number
+): { positions: Float32Array; indices: Uint16Array } {
+  const positions = new Float32Array((1 + rings * segments) * 2);
+  const indices = new Uint16Array((2 * rings - 1) * segments * 3);
+
+  // Vertex 0 is the centre; ring k starts at 1 + k * segments
+  for (let ring = 0; ring < rings; ring++) {
+    const r = ((ring + 1) / rings) * radius;
+    for (let i = 0; i < segments; i++) {
+      const angle = (i / segments) * Math.PI * 2;
+      const vertex = 1 + ring * segments + i;
+      positions[vertex * 2] = Math.cos(angle) * r;
+      positions[vertex * 2 + 1] = Math.sin(angle) * r;
+    }
+  }
+
+  // Fan around the centre, then two triangles per cell between neighbouring rings
+  let k = 0;
+  for (let i = 0; i < segments; i++) {
+    indices.set([0, 1 + i, 1 + ((i + 1) % segments)], k);
+    k += 3;
+  }
+  for (let ring = 1; ring < rings; ring++) {
+    const inner = 1 + (ring - 1) * segments;
+    const outer = 1 + ring * segments;
+    for (let i = 0; i < segments; i++) {
+      const next = (i + 1) % segments;
+      indices.set([inner + i, outer + i, outer + next, inner + i, outer + next, inner + next], k);
+      k += 6;
+    }
+  }
+
+  return { positions, indices };
+}
+
 export function generateRingVertices(
   segments: number,
   innerRadius: number,
@@ -1,22 +1,30 @@
 #version 300 es
 precision highp float;
 
+const int RADIAL_SCALE_SAMPLES = 64; // RENDER_CONFIG.RADIAL_SCALE_SAMPLES
+
 in vec2 a_position;
 
 uniform mat4 u_viewProjection;
-uniform float u_time;
-uniform float u_expansionRate;
+uniform float u_maxRadius;
+uniform float u_radialScale[RADIAL_SCALE_SAMPLES]; // r'(t) / r₀ at r₀ evenly spaced to the rim
 
 out vec2 v_position;
 out float v_radius;
 
+// Expansion scale of the active law at reference radius r
+float expansionScale(float r) {
+  float x = clamp(r / u_maxRadius, 0.0, 1.0) * float(RADIAL_SCALE_SAMPLES - 1);
+  int i = min(int(x), RADIAL_SCALE_SAMPLES - 2);
+  return mix(u_radialScale[i], u_radialScale[i + 1], x - float(i));
+}
+
 void main() {
   // Apply radial expansion
   float r = length(a_position);
   float theta = atan(a_position.y, a_position.x);
 
-  float expansionFactor = 1.0 + u_expansionRate * u_time * 0.001;
-  float expandedR = r * expansionFactor;
+  float expandedR = r * expansionScale(r);
 
   vec2 expandedPos = vec2(
     expandedR * cos(theta),
@@ -24,7 +32,7 @@ void main() {
   );
 
   v_position = expandedPos;
-  v_radius = expandedR;
+  v_radius = r; // Zone bounds are reference radii, so zones move with the land
 
   gl_Position = u_viewProjection * vec4(expandedPos, 0.0, 1.0);
 }
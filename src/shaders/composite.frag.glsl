@@ -0,0 +1,13 @@
+#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+
+uniform sampler2D u_layer; // Premultiplied layer colour
+uniform float u_opacity;
+
+out vec4 fragColor;
+
+void main() {
+  fragColor = texture(u_layer, v_uv) * u_opacity;
+}
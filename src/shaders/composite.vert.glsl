@@ -0,0 +1,11 @@
+#version 300 es
+precision highp float;
+
+in vec2 a_position; // Full-screen quad in clip space
+
+out vec2 v_uv;
+
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}
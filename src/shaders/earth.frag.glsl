@@ -15,8 +15,9 @@ uniform bool u_showGrid;
 out vec4 fragColor;
 
 void main() {
-  float r = length(v_worldPos);
-  float theta = atan(v_worldPos.y, v_worldPos.x);
+  // Grid and rim are drawn in reference coordinates so they move with the land
+  float r = length(v_position);
+  float theta = atan(v_position.y, v_position.x);
 
   // Base disk color
   vec4 color = u_diskColor;
@@ -0,0 +1,94 @@
+#version 300 es
+precision highp float;
+
+// Line integral convolution: noise smeared along the field direction,
+// coloured by log magnitude
+
+in vec2 v_worldPos;
+
+#define LIC_STEPS 24
+
+uniform float u_fieldStrength;
+uniform float u_maxRadius;
+uniform sampler2D u_field; // Field per unit B₀ over [-u_maxRadius, u_maxRadius]²
+uniform sampler2D u_noise; // White noise, repeating
+uniform float u_noiseScale; // km per noise texel
+uniform float u_stepLength; // km per integration step
+uniform vec2 u_magnitudeRange; // log10 |B| mapped to 0 and 1
+
+out vec4 fragColor;
+
+const float PI = 3.14159265359;
+const float CONTRAST = 4.0;
+
+vec2 getFieldVector(vec2 pos) {
+  vec2 uv = pos / (2.0 * u_maxRadius) + 0.5;
+  return texture(u_field, uv).rg * u_fieldStrength;
+}
+
+// Unit field direction (zero where the field vanishes)
+vec2 direction(vec2 pos) {
+  vec2 field = getFieldVector(pos);
+  float magnitude = length(field);
+  return magnitude > 0.0 ? field / magnitude : vec2(0.0);
+}
+
+float noise(vec2 pos) {
+  return texture(u_noise, pos / (u_noiseScale * vec2(textureSize(u_noise, 0)))).r;
+}
+
+float magnitudeScale(float magnitude) {
+  float logMagnitude = log2(max(magnitude, 1e-30)) / log2(10.0);
+  return clamp(
+    (logMagnitude - u_magnitudeRange.x) / (u_magnitudeRange.y - u_magnitudeRange.x),
+    0.0,
+    1.0
+  );
+}
+
+// Viridis-like colour map
+vec3 magnitudeColor(float t) {
+  vec3 c0 = vec3(0.267, 0.005, 0.329);
+  vec3 c1 = vec3(0.229, 0.322, 0.546);
+  vec3 c2 = vec3(0.128, 0.567, 0.551);
+  vec3 c3 = vec3(0.369, 0.789, 0.383);
+  vec3 c4 = vec3(0.993, 0.906, 0.144);
+  float s = t * 4.0;
+  if (s < 1.0) return mix(c0, c1, s);
+  if (s < 2.0) return mix(c1, c2, s - 1.0);
+  if (s < 3.0) return mix(c2, c3, s - 2.0);
+  return mix(c3, c4, min(s - 3.0, 1.0));
+}
+
+// Hann-weighted noise sum along one direction of the field line (sum, weight)
+vec2 convolve(vec2 start, float sign) {
+  vec2 pos = start;
+  vec2 total = vec2(0.0);
+  float h = u_stepLength * sign;
+
+  for (int i = 1; i <= LIC_STEPS; i++) {
+    // Midpoint step keeps tight loops around vortex centres closed
+    vec2 mid = direction(pos + direction(pos) * (0.5 * h));
+    if (dot(mid, mid) == 0.0) break;
+    pos += mid * h;
+    if (length(pos) > u_maxRadius) break;
+
+    float weight = 0.5 + 0.5 * cos(PI * float(i) / float(LIC_STEPS + 1));
+    total += vec2(noise(pos) * weight, weight);
+  }
+  return total;
+}
+
+void main() {
+  if (length(v_worldPos) > u_maxRadius) {
+    discard;
+  }
+
+  vec2 sum = vec2(noise(v_worldPos), 1.0);
+  sum += convolve(v_worldPos, 1.0);
+  sum += convolve(v_worldPos, -1.0);
+  float lic = clamp((sum.x / sum.y - 0.5) * CONTRAST + 0.5, 0.0, 1.0);
+
+  float t = magnitudeScale(length(getFieldVector(v_worldPos)));
+  fragColor = vec4(magnitudeColor(t) * (0.3 + 0.9 * lic), 0.9);
+}
@@ -0,0 +1,28 @@
+#version 300 es
+precision highp float;
+
+// Divergence or curl map: warm where positive, cool where negative,
+// transparent where the quantity vanishes
+
+in vec2 v_worldPos;
+
+uniform float u_maxRadius;
+uniform sampler2D u_scalar; // Quantity in units of |B|/r over [-u_maxRadius, u_maxRadius]²
+uniform float u_scalarRange; // Value drawn at full colour
+
+out vec4 fragColor;
+
+const vec3 POSITIVE_COLOR = vec3(1.0, 0.45, 0.2);
+const vec3 NEGATIVE_COLOR = vec3(0.25, 0.55, 1.0);
+
+void main() {
+  if (length(v_worldPos) > u_maxRadius) {
+    discard;
+  }
+
+  vec2 uv = v_worldPos / (2.0 * u_maxRadius) + 0.5;
+  float t = clamp(texture(u_scalar, uv).r / u_scalarRange, -1.0, 1.0);
+
+  vec3 color = t >= 0.0 ? POSITIVE_COLOR : NEGATIVE_COLOR;
+  fragColor = vec4(color, 0.9 * sqrt(abs(t)));
+}
@@ -3,41 +3,38 @@ precision highp float;
 
 in vec2 v_worldPos;
 
+#define MAX_CENTRES 8
+
 uniform float u_fieldStrength;
 uniform float u_time;
 uniform vec4 u_fieldColor;
 uniform float u_maxRadius;
+uniform sampler2D u_field; // Field per unit B₀ over [-u_maxRadius, u_maxRadius]²
+uniform vec2 u_centres[MAX_CENTRES]; // Vortex centres of the field model
+uniform int u_centreCount;
+uniform vec2 u_magnitudeRange; // log10 |B| mapped to 0 and 1
 
 out vec4 fragColor;
 
-// Toroidal field: B(r,θ) = (B₀/r²)[cos(θ)r̂ + sin(θ)θ̂]
+// Field of the selected model, sampled from the CPU-generated texture
 vec2 getFieldVector(vec2 pos) {
-  float r = length(pos);
-  float theta = atan(pos.y, pos.x);
-
-  // Avoid singularity at center
-  r = max(r, 0.1);
-
-  float magnitude = u_fieldStrength / (r * r + 0.001);
-
-  // Field in polar coordinates
-  float B_r = magnitude * cos(theta);
-  float B_theta = magnitude * sin(theta);
-
-  // Convert to Cartesian
-  float cosT = cos(theta);
-  float sinT = sin(theta);
+  vec2 uv = pos / (2.0 * u_maxRadius) + 0.5;
+  return texture(u_field, uv).rg * u_fieldStrength;
+}
 
-  return vec2(
-    B_r * cosT - B_theta * sinT,
-    B_r * sinT + B_theta * cosT
+// Position of a magnitude on the log display range
+float magnitudeScale(float magnitude) {
+  float logMagnitude = log2(max(magnitude, 1e-30)) / log2(10.0);
+  return clamp(
+    (logMagnitude - u_magnitudeRange.x) / (u_magnitudeRange.y - u_magnitudeRange.x),
+    0.0,
+    1.0
   );
 }
 
 void main() {
   vec2 field = getFieldVector(v_worldPos);
-  float intensity = length(field) * 0.01; // Scale for visibility
-  intensity = clamp(intensity, 0.0, 1.0);
+  float intensity = magnitudeScale(length(field));
 
   // Pulsing effect
   float pulse = 0.5 + 0.5 * sin(u_time * 0.001);
@@ -47,16 +44,20 @@ void main() {
   vec3 color = u_fieldColor.rgb * intensity;
   float alpha = u_fieldColor.a * intensity;
 
-  // Central vortex glow
-  float r = length(v_worldPos);
-  if (r < 100.0) {
-    float vortexGlow = 1.0 - smoothstep(0.0, 100.0, r);
+  // Vortex glow around each centre
+  float vortexGlow = 0.0;
+  for (int i = 0; i < MAX_CENTRES; i++) {
+    if (i >= u_centreCount) break;
+    float d = distance(v_worldPos, u_centres[i]);
+    vortexGlow = max(vortexGlow, 1.0 - smoothstep(0.0, 100.0, d));
+  }
+  if (vortexGlow > 0.0) {
     color = mix(color, vec3(0.6, 0.2, 0.7), vortexGlow * 0.8);
     alpha = max(alpha, vortexGlow * 0.9);
   }
 
   // Fade out beyond Earth rim
-  if (r > u_maxRadius) {
+  if (length(v_worldPos) > u_maxRadius) {
     discard;
   }
 
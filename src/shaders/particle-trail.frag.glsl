@@ -0,0 +1,14 @@
+#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+
+uniform sampler2D u_trail; // Previous frame's trails (premultiplied)
+uniform float u_fade; // Fraction kept per frame
+
+out vec4 fragColor;
+
+void main() {
+  // The extra 1/255 lets 8-bit trails fade all the way to zero
+  fragColor = max(texture(u_trail, v_uv) * u_fade - 1.0 / 255.0, 0.0);
+}
@@ -0,0 +1,10 @@
+#version 300 es
+precision highp float;
+
+// Rasterization is discarded during the update pass; required for linking
+
+out vec4 fragColor;
+
+void main() {
+  fragColor = vec4(0.0);
+}
@@ -0,0 +1,76 @@
+#version 300 es
+precision highp float;
+
+// Advects particles through the field texture; outputs are captured by
+// transform feedback into the other state buffer
+
+in vec2 a_position;
+in float a_age; // s since spawn
+
+uniform sampler2D u_field; // Field per unit B₀ over [-u_maxRadius, u_maxRadius]²
+uniform float u_maxRadius;
+uniform float u_deltaTime; // s
+uniform float u_speed; // km/s
+uniform float u_lifetime; // s
+uniform vec2 u_spawnCentre; // Respawn inside this circle (the visible disk)
+uniform float u_spawnRadius;
+uniform uint u_seed;
+
+out vec2 v_position;
+out float v_age;
+
+const float TWO_PI = 6.28318530718;
+
+uint hash(uint x) {
+  x ^= x >> 16;
+  x *= 0x7feb352du;
+  x ^= x >> 15;
+  x *= 0x846ca68bu;
+  x ^= x >> 16;
+  return x;
+}
+
+float random(inout uint state) {
+  state = hash(state);
+  return float(state) / 4294967295.0;
+}
+
+vec2 randomInCircle(inout uint state, vec2 centre, float radius) {
+  float r = radius * sqrt(random(state));
+  float angle = TWO_PI * random(state);
+  return centre + r * vec2(cos(angle), sin(angle));
+}
+
+vec2 spawn(inout uint state) {
+  for (int i = 0; i < 4; i++) {
+    vec2 p = randomInCircle(state, u_spawnCentre, u_spawnRadius);
+    if (length(p) < u_maxRadius) return p;
+  }
+  return randomInCircle(state, vec2(0.0), u_maxRadius);
+}
+
+// Unit field direction (zero where the field vanishes)
+vec2 direction(vec2 pos) {
+  vec2 field = texture(u_field, pos / (2.0 * u_maxRadius) + 0.5).rg;
+  float magnitude = length(field);
+  return magnitude > 0.0 ? field / magnitude : vec2(0.0);
+}
+
+void main() {
+  float stepLength = u_speed * u_deltaTime;
+
+  // Midpoint (RK2) step along the field
+  vec2 d1 = direction(a_position);
+  vec2 d2 = direction(a_position + d1 * (0.5 * stepLength));
+  vec2 position = a_position + d2 * stepLength;
+  float age = a_age + u_deltaTime;
+
+  if (age > u_lifetime || length(position) > u_maxRadius || dot(d2, d2) == 0.0) {
+    uint state = hash(uint(gl_VertexID) ^ u_seed);
+    position = spawn(state);
+    age = 0.0;
+  }
+
+  v_position = position;
+  v_age = age;
+}
@@ -0,0 +1,14 @@
+#version 300 es
+precision highp float;
+
+in float v_alpha;
+
+uniform vec4 u_color;
+
+out vec4 fragColor;
+
+void main() {
+  // Premultiplied, to accumulate in the trail target
+  float alpha = u_color.a * v_alpha;
+  fragColor = vec4(u_color.rgb * alpha, alpha);
+}
@@ -0,0 +1,20 @@
+#version 300 es
+precision highp float;
+
+in vec2 a_position;
+in float a_age; // s since spawn
+
+uniform mat4 u_viewProjection;
+uniform float u_lifetime; // s
+uniform float u_pointSize; // px
+
+out float v_alpha;
+
+void main() {
+  // Fade in after spawning and out before respawning
+  float t = a_age / u_lifetime;
+  v_alpha = smoothstep(0.0, 0.1, t) * (1.0 - smoothstep(0.8, 1.0, t));
+
+  gl_Position = u_viewProjection * vec4(a_position, 0.0, 1.0);
+  gl_PointSize = u_pointSize;
+}
@@ -18,6 +18,16 @@ export interface PolarCoord {
   theta: number; // Angle from prime meridian (radians)
 }
 
+export interface LatLon {
+  lat: number; // Latitude (degrees, +N)
+  lon: number; // Longitude (degrees, +E)
+}
+
+export interface LODRecord {
+  year: number; // Decimal calendar year
+  lod: number; // Excess length of day over 86400 s (ms)
+}
+
 export interface PolarCoord3D extends PolarCoord {
   z: number; // Altitude (km)
 }
@@ -25,18 +35,46 @@ export interface PolarCoord3D extends PolarCoord {
 export interface CameraState {
   x: number; // Camera position X
   y: number; // Camera position Y
-  zoom: number; // Zoom level (0.1 to 10)
+  zoom: number; // Zoom level (NDC per world unit; limits follow Camera.fitEarth)
   rotation: number; // Camera rotation (radians)
 }
 
 export interface SimulationState {
   time: number; // Simulation time (years)
   timeScale: number; // Time multiplier
-  expansionRate: number; // k constant (meters/year)
+  expansionRate: number; // Expansion rate (cm/year)
   fieldStrength: number; // B0 multiplier
   isPaused: boolean;
 }
 
+export interface SimulationSnapshot {
+  time: number; // Simulation time (years)
+  expansionRate: number; // cm/year
+  fieldStrength: number; // B0
+  rimRadius: number; // Expanded Antarctic rim radius (km)
+  dayLength: number; // hours
+  lodRate: number; // Length-of-day trend (ms/century)
+  sunPosition: PolarCoord3D;
+  stationCount: number;
+  displacement: {
+    mean: number;
+    max: number;
+    min: number;
+    stdDev: number;
+  };
+}
+
+export interface ProbeSample {
+  position: PolarCoord;
+  location: LatLon; // Under the active projection
+  fieldMagnitude: number; // |B|
+  illumination: number; // 0 (night) – 1 (full daylight)
+  dayLength: number; // Local daylight hours
+  climateZone: ClimateZone;
+  temperatureAnomaly: number; // °C
+  expansionVelocity: number; // Local radial velocity (m/year)
+}
+
 export interface ModelConstants {
   geometry: {
     NORTH_POLE_CENTER: PolarCoord;
@@ -62,10 +100,8 @@ export interface ModelConstants {
     ILLUMINATION_ANGLE: number;
   };
   climate: {
-    HEATING_ZONE_MIN: number;
-    HEATING_ZONE_MAX: number;
-    COOLING_ZONE_MIN: number;
-    COOLING_ZONE_MAX: number;
+    HEATING_LATITUDES: [number, number]; // Degrees; placed on the disk by the projection
+    COOLING_LATITUDES: [number, number];
   };
 }
 
@@ -94,13 +130,17 @@ export interface GPSStation {
   position: PolarCoord;
   initialPosition: PolarCoord;
   velocity: Vector2;
-  displacement?: Vector2;
+  displacement?: Vector2; // km on the disk, like position
+  verticalVelocity?: number; // m/yr (up positive)
+  verticalDisplacement?: number; // m
+  location?: LatLon; // Observed geodetic position, when imported
 }
 
 export interface ClimateEvent {
   id: string;
   type: 'snow' | 'heat' | 'cold' | 'drought';
   location: PolarCoord;
+  coordinates?: LatLon; // Geographic position the disk location was projected from
   date: Date;
   severity: number;
   description?: string;
@@ -113,9 +153,15 @@ export interface Streamline {
   thickness?: number;
 }
 
+export type BlendMode = 'alpha' | 'additive' | 'multiply';
+
+export const BLEND_MODES: BlendMode[] = ['alpha', 'additive', 'multiply'];
+
 export interface RenderPass {
   name: string;
+  label?: string; // Shown in the layer panel (defaults to name)
   enabled: boolean;
   opacity: number;
+  blendMode?: BlendMode; // How the layer combines with those below (default alpha)
   render: (gl: WebGL2RenderingContext, deltaTime: number) => void;
 }
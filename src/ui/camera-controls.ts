@@ -0,0 +1,247 @@
+/**
+ * Camera Controls - Mouse, touch and keyboard navigation
+ *
+ * One pointer pans (with inertia after release), two pointers pinch-zoom and
+ * rotate around their midpoint, the wheel zooms toward the cursor. Held keys
+ * move the camera continuously: arrows pan, +/- zoom, Q/E rotate, Home fits.
+ */
+
+import type { Camera } from '../rendering/camera';
+
+const CLICK_SLOP = 4; // px of movement that still counts as a click
+const WHEEL_ZOOM = 1.1; // Zoom factor per wheel notch
+const INERTIA_TIME = 250; // ms for the release velocity to fall to 1/e
+const INERTIA_MIN_SPEED = 0.01; // px/ms below which inertia stops
+const RELEASE_WINDOW = 60; // ms: a drag held still longer than this releases without inertia
+const KEY_PAN_SPEED = 0.8; // px/ms
+const KEY_ZOOM_RATE = 2.5; // Zoom factor per second
+const KEY_ROTATE_SPEED = Math.PI / 2; // rad/s
+
+// Physical key codes, so releasing Shift mid-press cannot leave a key held
+const NAV_KEYS = new Set([
+  'ArrowLeft',
+  'ArrowRight',
+  'ArrowUp',
+  'ArrowDown',
+  'Equal',
+  'NumpadAdd',
+  'Minus',
+  'NumpadSubtract',
+  'KeyQ',
+  'KeyE',
+]);
+
+export interface CameraControlsOptions {
+  onClick?(clientX: number, clientY: number): void; // Press and release without dragging
+  onHome?(): void;
+}
+
+interface Gesture {
+  center: { x: number; y: number }; // client px
+  distance: number; // px
+  angle: number; // rad, client space (y down)
+}
+
+export class CameraControls {
+  private canvas: HTMLCanvasElement;
+  private camera: Camera;
+  private options: CameraControlsOptions;
+  private abort = new AbortController();
+
+  private pointers: Map<number, { x: number; y: number }> = new Map();
+  private gesture: Gesture | null = null;
+  private downAt = { x: 0, y: 0 };
+  private dragDistance: number = 0;
+  private multiTouch: boolean = false; // Current press has had two pointers
+
+  private velocity = { x: 0, y: 0 }; // px/ms
+  private lastMoveTime: number = 0;
+  private heldKeys: Set<string> = new Set();
+
+  constructor(canvas: HTMLCanvasElement, camera: Camera, options: CameraControlsOptions = {}) {
+    this.canvas = canvas;
+    this.camera = camera;
+    this.options = options;
+
+    const signal = this.abort.signal;
+    canvas.addEventListener('pointerdown', (e) => this.onPointerDown(e), { signal });
+    canvas.addEventListener('pointermove', (e) => this.onPointerMove(e), { signal });
+    canvas.addEventListener('pointerup', (e) => this.onPointerUp(e), { signal });
+    canvas.addEventListener('pointercancel', (e) => this.onPointerUp(e), { signal });
+    canvas.addEventListener('wheel', (e) => this.onWheel(e), { passive: false, signal });
+    window.addEventListener('keydown', (e) => this.onKeyDown(e), { signal });
+    window.addEventListener('keyup', (e) => this.heldKeys.delete(e.code), { signal });
+    window.addEventListener('blur', () => this.heldKeys.clear(), { signal });
+  }
+
+  /**
+   * Apply inertia and held keys; call once per frame
+   */
+  public update(deltaTime: number): void {
+    if (this.pointers.size === 0 && (this.velocity.x !== 0 || this.velocity.y !== 0)) {
+      this.panPixels(this.velocity.x * deltaTime, this.velocity.y * deltaTime);
+      const decay = Math.exp(-deltaTime / INERTIA_TIME);
+      this.velocity.x *= decay;
+      this.velocity.y *= decay;
+      if (Math.hypot(this.velocity.x, this.velocity.y) < INERTIA_MIN_SPEED) {
+        this.stopInertia();
+      }
+    }
+
+    if (this.heldKeys.size === 0) return;
+    const held = (...keys: string[]) => keys.some((key) => this.heldKeys.has(key));
+    const axis = (negative: boolean, positive: boolean) => Number(positive) - Number(negative);
+
+    const step = KEY_PAN_SPEED * deltaTime;
+    const panX = axis(held('ArrowLeft'), held('ArrowRight'));
+    const panY = axis(held('ArrowUp'), held('ArrowDown'));
+    // Arrows move the view, so the content moves the other way
+    if (panX !== 0 || panY !== 0) this.panPixels(-panX * step, -panY * step);
+
+    const zoom = axis(held('Minus', 'NumpadSubtract'), held('Equal', 'NumpadAdd'));
+    if (zoom !== 0) this.camera.zoomBy(Math.pow(KEY_ZOOM_RATE, (zoom * deltaTime) / 1000));
+
+    const turn = axis(held('KeyQ'), held('KeyE'));
+    if (turn !== 0) this.camera.rotate((turn * KEY_ROTATE_SPEED * deltaTime) / 1000);
+  }
+
+  public dispose(): void {
+    this.abort.abort();
+    this.pointers.clear();
+    this.heldKeys.clear();
+  }
+
+  /**
+   * Move the view content by a client-pixel delta (content follows the pointer)
+   */
+  private panPixels(dx: number, dy: number): void {
+    const rect = this.canvas.getBoundingClientRect();
+    this.camera.pan(-(dx / rect.width) * 2, (dy / rect.height) * 2);
+  }
+
+  private clientToWorld(clientX: number, clientY: number): { x: number; y: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    const ndcX = ((clientX - rect.left) / rect.width) * 2 - 1;
+    const ndcY = 1 - ((clientY - rect.top) / rect.height) * 2;
+    return this.camera.screenToWorld(ndcX, ndcY);
+  }
+
+  private onPointerDown(e: PointerEvent): void {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+
+    this.canvas.setPointerCapture(e.pointerId);
+    this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    this.stopInertia();
+
+    if (this.pointers.size === 1) {
+      this.downAt = { x: e.clientX, y: e.clientY };
+      this.dragDistance = 0;
+      this.multiTouch = false;
+      this.lastMoveTime = performance.now();
+    } else {
+      this.multiTouch = true;
+    }
+    this.gesture = this.measureGesture();
+  }
+
+  private onPointerMove(e: PointerEvent): void {
+    const pointer = this.pointers.get(e.pointerId);
+    if (!pointer) return;
+
+    const dx = e.clientX - pointer.x;
+    const dy = e.clientY - pointer.y;
+    pointer.x = e.clientX;
+    pointer.y = e.clientY;
+    this.dragDistance = Math.max(
+      this.dragDistance,
+      Math.hypot(e.clientX - this.downAt.x, e.clientY - this.downAt.y)
+    );
+
+    if (this.pointers.size === 1) {
+      this.panPixels(dx, dy);
+
+      const now = performance.now();
+      const dt = Math.max(1, now - this.lastMoveTime);
+      this.lastMoveTime = now;
+      // Smooth the release velocity over the last few events
+      this.velocity.x = 0.6 * (dx / dt) + 0.4 * this.velocity.x;
+      this.velocity.y = 0.6 * (dy / dt) + 0.4 * this.velocity.y;
+      return;
+    }
+
+    const previous = this.gesture;
+    const next = this.measureGesture();
+    this.gesture = next;
+    if (!previous || !next) return;
+
+    // Pinch and twist around the midpoint, then follow the midpoint
+    const anchor = this.clientToWorld(next.center.x, next.center.y);
+    if (previous.distance > 0 && next.distance > 0) {
+      this.camera.zoomToPoint(anchor.x, anchor.y, next.distance / previous.distance);
+    }
+    let twist = next.angle - previous.angle;
+    if (twist > Math.PI) twist -= 2 * Math.PI;
+    if (twist < -Math.PI) twist += 2 * Math.PI;
+    this.camera.rotateAroundPoint(anchor.x, anchor.y, twist);
+    this.panPixels(next.center.x - previous.center.x, next.center.y - previous.center.y);
+  }
+
+  private onPointerUp(e: PointerEvent): void {
+    if (!this.pointers.delete(e.pointerId)) return;
+
+    if (this.pointers.size > 0) {
+      // Dropping to one finger continues as a pan from where it is
+      this.gesture = this.measureGesture();
+      this.velocity = { x: 0, y: 0 };
+      return;
+    }
+
+    this.gesture = null;
+    if (this.multiTouch || performance.now() - this.lastMoveTime > RELEASE_WINDOW) {
+      this.stopInertia();
+    }
+    if (!this.multiTouch && this.dragDistance < CLICK_SLOP && e.type === 'pointerup') {
+      this.stopInertia();
+      this.options.onClick?.(e.clientX, e.clientY);
+    }
+  }
+
+  private onWheel(e: WheelEvent): void {
+    e.preventDefault();
+    const cursor = this.clientToWorld(e.clientX, e.clientY);
+    this.camera.zoomToPoint(cursor.x, cursor.y, e.deltaY > 0 ? 1 / WHEEL_ZOOM : WHEEL_ZOOM);
+  }
+
+  private onKeyDown(e: KeyboardEvent): void {
+    const target = e.target as HTMLElement | null;
+    if (target?.closest('input, select, textarea, [contenteditable="true"]')) return;
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    if (e.code === 'Home') {
+      e.preventDefault();
+      this.stopInertia();
+      this.options.onHome?.();
+      return;
+    }
+    if (NAV_KEYS.has(e.code)) {
+      e.preventDefault();
+      this.heldKeys.add(e.code);
+    }
+  }
+
+  private measureGesture(): Gesture | null {
+    const points = [...this.pointers.values()];
+    if (points.length < 2) return null;
+
+    const [a, b] = points;
+    return {
+      center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+      angle: Math.atan2(b.y - a.y, b.x - a.x),
+    };
+  }
+
+  private stopInertia(): void {
+    this.velocity = { x: 0, y: 0 };
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Layer Panel - Enable, fade, blend and reorder render layers
+ */
+
+import { BLEND_MODES } from '../types';
+import type { LayerManager } from '../rendering/layer-manager';
+import type { BlendMode } from '../types';
+
+export class LayerPanel {
+  private container: HTMLElement;
+  private layers: LayerManager;
+
+  constructor(container: HTMLElement, layers: LayerManager) {
+    this.container = container;
+    this.layers = layers;
+    this.layers.onChange(() => this.refresh());
+    this.refresh();
+  }
+
+  /**
+   * Rebuild rows from the manager (top layer listed first)
+   */
+  public refresh(): void {
+    const rows = [...this.layers.getLayers()].reverse().map((layer) => {
+      const row = document.createElement('div');
+      row.className = 'layer-row';
+
+      const enabled = document.createElement('input');
+      enabled.type = 'checkbox';
+      enabled.checked = layer.enabled;
+      enabled.addEventListener('change', () => {
+        this.layers.setEnabled(layer.name, enabled.checked);
+      });
+
+      const label = document.createElement('span');
+      label.className = 'layer-label';
+      label.textContent = layer.label ?? layer.name;
+
+      const opacity = document.createElement('input');
+      opacity.type = 'range';
+      opacity.min = '0';
+      opacity.max = '1';
+      opacity.step = '0.05';
+      opacity.value = layer.opacity.toString();
+      opacity.title = 'Opacity';
+      opacity.addEventListener('input', () => {
+        this.layers.setOpacity(layer.name, parseFloat(opacity.value));
+      });
+
+      const blend = document.createElement('select');
+      blend.title = 'Blend mode';
+      for (const mode of BLEND_MODES) {
+        blend.add(new Option(mode, mode, false, mode === (layer.blendMode ?? 'alpha')));
+      }
+      blend.addEventListener('change', () => {
+        this.layers.setBlendMode(layer.name, blend.value as BlendMode);
+      });
+
+      const up = this.moveButton('▲', 'Move up', () => this.layers.move(layer.name, 1));
+      const down = this.moveButton('▼', 'Move down', () => this.layers.move(layer.name, -1));
+
+      row.append(enabled, label, opacity, blend, up, down);
+      return row;
+    });
+
+    this.container.replaceChildren(...rows);
+  }
+
+  private moveButton(text: string, title: string, move: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.title = title;
+    button.addEventListener('click', () => {
+      move();
+      this.refresh();
+    });
+    return button;
+  }
+}
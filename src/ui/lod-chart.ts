@@ -0,0 +1,91 @@
+/**
+ * LOD Chart - Plots modelled vs observed length-of-day change on a 2D canvas
+ */
+
+import type { LODComparison } from '../core/rotation';
+
+const PADDING = { left: 48, right: 10, top: 12, bottom: 24 };
+const MODEL_COLOR = '#ffb74d';
+const OBSERVED_COLOR = '#4fc3f7';
+const AXIS_COLOR = '#b0b5d8';
+
+export class LODChart {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+
+  constructor(canvas: HTMLCanvasElement) {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('2D canvas context not supported');
+    }
+    this.canvas = canvas;
+    this.ctx = ctx;
+  }
+
+  public render(data: LODComparison[]): void {
+    const { ctx, canvas } = this;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (data.length < 2) return;
+
+    const years = data.map((d) => d.year);
+    const values = data.flatMap((d) => [d.observed, d.model]).filter(Number.isFinite);
+    const xMin = Math.min(...years);
+    const xMax = Math.max(...years);
+    let yMin = Math.min(...values);
+    let yMax = Math.max(...values);
+    if (yMin === yMax) {
+      yMin -= 1;
+      yMax += 1;
+    }
+
+    const plotWidth = canvas.width - PADDING.left - PADDING.right;
+    const plotHeight = canvas.height - PADDING.top - PADDING.bottom;
+    const x = (year: number) => PADDING.left + ((year - xMin) / (xMax - xMin || 1)) * plotWidth;
+    const y = (value: number) => PADDING.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+    // Axes and labels
+    ctx.strokeStyle = AXIS_COLOR;
+    ctx.fillStyle = AXIS_COLOR;
+    ctx.lineWidth = 1;
+    ctx.font = '10px sans-serif';
+    ctx.beginPath();
+    ctx.moveTo(PADDING.left, PADDING.top);
+    ctx.lineTo(PADDING.left, PADDING.top + plotHeight);
+    ctx.lineTo(PADDING.left + plotWidth, PADDING.top + plotHeight);
+    ctx.stroke();
+
+    ctx.textAlign = 'right';
+    ctx.fillText(`${yMax.toPrecision(3)} ms`, PADDING.left - 4, PADDING.top + 8);
+    ctx.fillText(`${yMin.toPrecision(3)} ms`, PADDING.left - 4, PADDING.top + plotHeight);
+    ctx.textAlign = 'left';
+    ctx.fillText(xMin.toFixed(1), PADDING.left, canvas.height - 8);
+    ctx.textAlign = 'right';
+    ctx.fillText(xMax.toFixed(1), PADDING.left + plotWidth, canvas.height - 8);
+
+    this.plotSeries(data.map((d) => [x(d.year), y(d.observed)]), OBSERVED_COLOR);
+    this.plotSeries(data.map((d) => [x(d.year), y(d.model)]), MODEL_COLOR);
+
+    // Legend
+    ctx.textAlign = 'left';
+    ctx.fillStyle = OBSERVED_COLOR;
+    ctx.fillText('observed', PADDING.left + 6, PADDING.top + 10);
+    ctx.fillStyle = MODEL_COLOR;
+    ctx.fillText('model', PADDING.left + 60, PADDING.top + 10);
+  }
+
+  private plotSeries(points: Array<[number, number]>, color: string): void {
+    const ctx = this.ctx;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    points.forEach(([px, py], i) => {
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    });
+    ctx.stroke();
+  }
+
+  public clear(): void {
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+}
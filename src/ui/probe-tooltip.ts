@@ -0,0 +1,71 @@
+/**
+ * Probe Tooltip - Floating readout for probed canvas points
+ */
+
+import { ClimateZone } from '../types';
+import type { ProbeSample } from '../types';
+import { formatLatLon } from '../core/projection';
+import { bearing } from '../core/measurement';
+import { polarDistance } from '../core/geometry';
+
+export class ProbeTooltip {
+  private element: HTMLDivElement;
+
+  constructor(container: HTMLElement) {
+    this.element = document.createElement('div');
+    this.element.className = 'probe-tooltip hidden';
+    container.appendChild(this.element);
+  }
+
+  /**
+   * Show readouts for a sample, plus the distance from an anchor sample when given
+   */
+  public show(clientX: number, clientY: number, sample: ProbeSample, anchor?: ProbeSample): void {
+    const rows: Array<[string, string]> = [
+      ['Position', `r=${sample.position.r.toFixed(0)} km, θ=${((sample.position.theta * 180) / Math.PI).toFixed(1)}°`],
+      ['Lat/Lon', formatLatLon(sample.location)],
+      ['|B|', sample.fieldMagnitude.toExponential(2)],
+      ['Illumination', `${(sample.illumination * 100).toFixed(0)}%`],
+      ['Daylight', `${sample.dayLength.toFixed(1)} hr`],
+      ['Climate', `${ClimateZone[sample.climateZone]} (${formatSigned(sample.temperatureAnomaly, 2)} °C)`],
+      ['Expansion', `${sample.expansionVelocity.toFixed(1)} m/yr`],
+    ];
+
+    if (anchor) {
+      const distance = polarDistance(anchor.position, sample.position);
+      const heading = bearing(anchor.position, sample.position);
+      rows.push(['Distance', `${distance.toFixed(0)} km @ ${heading.toFixed(0)}°`]);
+    }
+
+    this.element.replaceChildren(
+      ...rows.map(([label, value]) => {
+        const row = document.createElement('div');
+        row.className = 'metric';
+        const labelEl = document.createElement('span');
+        labelEl.className = 'label';
+        labelEl.textContent = label;
+        const valueEl = document.createElement('span');
+        valueEl.className = 'value';
+        valueEl.textContent = value;
+        row.append(labelEl, valueEl);
+        return row;
+      })
+    );
+
+    this.element.style.left = `${clientX + 16}px`;
+    this.element.style.top = `${clientY + 16}px`;
+    this.element.classList.remove('hidden');
+  }
+
+  public hide(): void {
+    this.element.classList.add('hidden');
+  }
+
+  public dispose(): void {
+    this.element.remove();
+  }
+}
+
+function formatSigned(value: number, digits: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+}